@@ -1,31 +1,44 @@
-import { useEffect } from "react";
-import { Box } from "@chakra-ui/react";
-import { useMarketplaceClient } from "./utils/hooks/useMarketplaceClient";
+import { useState } from "react";
+import { Box, Button, Center, Spinner } from "@chakra-ui/react";
+import { useAppView } from "./hooks/useAppView";
 import { PublishedStatusTable } from "./components/PublishedStatusTable";
+import { SiteDashboard } from "./components/SiteDashboard";
+import { DashboardWidget } from "./components/DashboardWidget";
+import { UnsupportedExtensionPoint } from "./components/UnsupportedExtensionPoint";
+import type { SiteDashboardScanOptions } from "./hooks/useSiteDashboard";
 
 export default function App() {
-  const { client, error, isInitialized } = useMarketplaceClient();
+  // The view follows the extension point hosting the app, or ?view= in its URL
+  const { view, extensionPointId, loading } = useAppView();
+  // Target opened from the widget's "Open full report"
+  const [widgetDetails, setWidgetDetails] = useState<SiteDashboardScanOptions | null>(null);
 
-  useEffect(() => {
-    if (!error && isInitialized && client) {
-      console.log("Marketplace client initialized successfully.");
-      // Make a query to retrieve the application context
-      client
-        .query("application.context")
-        .then((res) => {
-          console.log("Success retrieving application.context:", res.data);
-        })
-        .catch((error) => {
-          console.error("Error retrieving application.context:", error);
-        });
-    } else if (error) {
-      console.error("Error initializing Marketplace client:", error);
-    }
-  }, [client, error, isInitialized]);
+  if (loading) {
+    return (
+      <Center p={8}>
+        <Spinner size="lg" color="blue.500" />
+      </Center>
+    );
+  }
 
   return (
     <Box>
-      <PublishedStatusTable />
+      {view === "widget" && widgetDetails ? (
+        <>
+          <Button size="sm" variant="link" m={4} mb={0} onClick={() => setWidgetDetails(null)}>
+            ← Back to summary
+          </Button>
+          <SiteDashboard initialScan={widgetDetails} />
+        </>
+      ) : view === "widget" ? (
+        <DashboardWidget onOpenDetails={setWidgetDetails} />
+      ) : view === "dashboard" ? (
+        <SiteDashboard />
+      ) : view === "panel" ? (
+        <PublishedStatusTable />
+      ) : (
+        <UnsupportedExtensionPoint extensionPointId={extensionPointId} />
+      )}
     </Box>
   );
 }
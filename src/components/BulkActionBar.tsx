@@ -0,0 +1,174 @@
+// components/BulkActionBar.tsx
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  HStack,
+  VStack,
+  Text,
+  Progress,
+  Badge,
+  List,
+  ListItem,
+  Flex,
+  Spacer
+} from '@chakra-ui/react';
+import type { ProcessedItemInfo } from '../types/itemInformation';
+import type { PublishItemResult } from '../hooks/usePublishing';
+import { formatGuidWithHyphens, isAwaitingApproval } from '../utils/dataProcessing';
+import { downloadTextFile, getFileTimestamp } from '../utils/fileDownload';
+
+interface BulkActionBarProps {
+  selectedItems: ProcessedItemInfo[];
+  /** Publish the selected items, reporting each result as it completes */
+  onPublish: (
+    items: ProcessedItemInfo[],
+    onItemComplete: (result: PublishItemResult) => void
+  ) => Promise<PublishItemResult[]>;
+  /** Watch Experience Edge until it serves the latest version of the selected items */
+  onWatch: (items: ProcessedItemInfo[]) => void;
+  /** Copy text to the clipboard */
+  onCopy: (text: string, description: string) => void;
+  onClearSelection: () => void;
+}
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedItems,
+  onPublish,
+  onWatch,
+  onCopy,
+  onClearSelection
+}) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [results, setResults] = useState<PublishItemResult[]>([]);
+  const [skippedItems, setSkippedItems] = useState<ProcessedItemInfo[]>([]);
+
+  const itemNames = new Map(selectedItems.map(item => [item.id, item.name]));
+  // Same rule as the per-row Publish button: publishing cannot update items awaiting approval
+  const publishableItems = selectedItems.filter(item => !isAwaitingApproval(item));
+
+  const handlePublish = async () => {
+    setIsRunning(true);
+    setTotal(publishableItems.length);
+    setResults([]);
+    setSkippedItems(selectedItems.filter(item => isAwaitingApproval(item)));
+
+    try {
+      if (publishableItems.length > 0) {
+        await onPublish(publishableItems, (result) => {
+          setResults(prev => [...prev, result]);
+        });
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleCopyIds = () => {
+    const ids = selectedItems.map(item => formatGuidWithHyphens(item.id)).join('\n');
+    onCopy(ids, `${selectedItems.length} Item IDs`);
+  };
+
+  const handleExport = () => {
+    const content = JSON.stringify(selectedItems, null, 2);
+    downloadTextFile(content, `selected-items-${getFileTimestamp()}.json`, 'application/json');
+  };
+
+  const succeeded = results.filter(result => result.success).length;
+  const failed = results.length - succeeded;
+
+  if (selectedItems.length === 0 && results.length === 0 && skippedItems.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box borderWidth="1px" borderRadius="md" p={3} bg="gray.50">
+      <VStack align="stretch" spacing={3}>
+        <Flex align="center">
+          <Text fontSize="sm" fontWeight="semibold">
+            {selectedItems.length} item{selectedItems.length !== 1 ? 's' : ''} selected
+          </Text>
+          <Spacer />
+          <HStack spacing={2}>
+            <Button
+              size="sm"
+              colorScheme="blue"
+              isLoading={isRunning}
+              loadingText="Publishing"
+              isDisabled={publishableItems.length === 0}
+              onClick={handlePublish}
+              title={publishableItems.length < selectedItems.length ? 'Items awaiting workflow approval are skipped' : undefined}
+            >
+              Publish Selected
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              isDisabled={selectedItems.length === 0}
+              onClick={() => onWatch(selectedItems)}
+              title="Poll Experience Edge until it serves the latest version of each selected item"
+            >
+              Watch Edge
+            </Button>
+            <Button size="sm" variant="outline" isDisabled={selectedItems.length === 0} onClick={handleCopyIds}>
+              Copy IDs
+            </Button>
+            <Button size="sm" variant="outline" isDisabled={selectedItems.length === 0} onClick={handleExport}>
+              Export
+            </Button>
+            <Button size="sm" variant="ghost" isDisabled={isRunning} onClick={() => {
+              setResults([]);
+              setSkippedItems([]);
+              onClearSelection();
+            }}>
+              Clear
+            </Button>
+          </HStack>
+        </Flex>
+
+        {(isRunning || results.length > 0 || skippedItems.length > 0) && (
+          <VStack align="stretch" spacing={2}>
+            <Progress
+              value={total > 0 ? (results.length / total) * 100 : 0}
+              size="sm"
+              colorScheme={failed > 0 ? 'orange' : 'green'}
+              isAnimated={isRunning}
+              hasStripe={isRunning}
+            />
+            <Text fontSize="xs" color="gray.600">
+              {results.length} of {total} complete — {succeeded} succeeded, {failed} failed
+              {skippedItems.length > 0 && `, ${skippedItems.length} skipped`}
+            </Text>
+            {(results.length > 0 || skippedItems.length > 0) && (
+              <List spacing={1} maxH="150px" overflowY="auto">
+                {results.map(result => (
+                  <ListItem key={result.itemId} fontSize="xs">
+                    <HStack spacing={2}>
+                      <Badge colorScheme={result.success ? 'green' : 'red'}>
+                        {result.success ? 'Published' : 'Failed'}
+                      </Badge>
+                      <Text>{itemNames.get(result.itemId) || formatGuidWithHyphens(result.itemId)}</Text>
+                      {result.error && (
+                        <Text color="red.500">{result.error}</Text>
+                      )}
+                    </HStack>
+                  </ListItem>
+                ))}
+                {skippedItems.map(item => (
+                  <ListItem key={item.id} fontSize="xs">
+                    <HStack spacing={2}>
+                      <Badge colorScheme="gray">Skipped</Badge>
+                      <Text>{item.name}</Text>
+                      <Text color="gray.500">Awaiting workflow approval</Text>
+                    </HStack>
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </VStack>
+        )}
+      </VStack>
+    </Box>
+  );
+};
@@ -0,0 +1,280 @@
+// components/DashboardWidget.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  AlertDescription,
+  Box,
+  Button,
+  ButtonGroup,
+  Flex,
+  FormControl,
+  FormLabel,
+  HStack,
+  Input,
+  Spacer,
+  Spinner,
+  Text,
+  Textarea,
+  VStack,
+  useToken
+} from '@chakra-ui/react';
+import { useSiteDashboard } from '../hooks/useSiteDashboard';
+import type { SiteDashboardScanOptions } from '../hooks/useSiteDashboard';
+import { DEFAULT_LANGUAGE, formatGuidWithHyphens, formatGuidWithoutHyphens, isValidGuid } from '../utils/dataProcessing';
+import { loadSummaryHistory, recordSummary } from '../utils/summaryHistory';
+import type { SummarySnapshot } from '../utils/summaryHistory';
+
+const CONFIG_STORAGE_KEY = 'publishing-status:widget-config';
+
+const SPARKLINE_WIDTH = 240;
+const SPARKLINE_HEIGHT = 40;
+
+/**
+ * Read the widget's saved target from local storage
+ */
+const loadWidgetConfig = (): SiteDashboardScanOptions | null => {
+  try {
+    const stored = window.localStorage.getItem(CONFIG_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as SiteDashboardScanOptions : null;
+  } catch (error) {
+    console.warn('⚠️ Could not read widget configuration:', error);
+    return null;
+  }
+};
+
+const saveWidgetConfig = (config: SiteDashboardScanOptions): void => {
+  try {
+    window.localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.warn('⚠️ Could not save widget configuration:', error);
+  }
+};
+
+/**
+ * Key the count history by target so changing the target starts a new sparkline
+ */
+const getHistoryKey = (config: SiteDashboardScanOptions): string => {
+  const target = config.pageIds?.length
+    ? [...config.pageIds].sort().join(',')
+    : config.rootPath || '';
+  return `${config.language}:${target}`;
+};
+
+const describeTarget = (config: SiteDashboardScanOptions): string => {
+  if (config.pageIds?.length) {
+    return `${config.pageIds.length} selected page${config.pageIds.length !== 1 ? 's' : ''} (${config.language})`;
+  }
+  return `${config.rootPath} (${config.language})`;
+};
+
+/**
+ * Split pasted item IDs on whitespace and commas, keeping the valid GUIDs
+ */
+const parsePageIds = (value: string): string[] => {
+  return Array.from(new Set(value
+    .split(/[\s,]+/)
+    .filter(id => id && isValidGuid(formatGuidWithHyphens(id)))
+    .map(formatGuidWithoutHyphens)));
+};
+
+interface SparklineProps {
+  history: SummarySnapshot[];
+}
+
+/**
+ * One line per count across the recorded visits, on a shared scale
+ */
+const Sparkline: React.FC<SparklineProps> = ({ history }) => {
+  const [green, orange, red] = useToken('colors', ['green.500', 'orange.500', 'red.500']);
+
+  if (history.length < 2) {
+    return (
+      <Text fontSize="xs" color="gray.500">
+        The trend appears after the next check.
+      </Text>
+    );
+  }
+
+  const max = Math.max(1, ...history.map(snapshot => Math.max(snapshot.upToDate, snapshot.outdated, snapshot.unpublished)));
+  const toPoints = (getValue: (snapshot: SummarySnapshot) => number) => history.map((snapshot, index) => {
+    const x = (index / (history.length - 1)) * SPARKLINE_WIDTH;
+    const y = SPARKLINE_HEIGHT - 2 - (getValue(snapshot) / max) * (SPARKLINE_HEIGHT - 4);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+
+  const series = [
+    { color: green, points: toPoints(snapshot => snapshot.upToDate) },
+    { color: orange, points: toPoints(snapshot => snapshot.outdated) },
+    { color: red, points: toPoints(snapshot => snapshot.unpublished) }
+  ];
+
+  return (
+    <Box title={`Counts over the last ${history.length} checks, since ${new Date(history[0].timestamp).toLocaleString()}`}>
+      <svg
+        width="100%"
+        height={SPARKLINE_HEIGHT}
+        viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Publishing status trend"
+      >
+        {series.map(({ color, points }) => (
+          <polyline
+            key={color}
+            points={points}
+            fill="none"
+            stroke={color}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+    </Box>
+  );
+};
+
+interface DashboardWidgetProps {
+  /** Open the full dashboard for the widget's target */
+  onOpenDetails: (options: SiteDashboardScanOptions) => void;
+}
+
+/**
+ * Compact publishing summary for the dashboard widget extension point
+ * Shows up-to-date, outdated and unpublished counts for a site root or a set of pages,
+ * with a trend over recent visits
+ */
+export const DashboardWidget: React.FC<DashboardWidgetProps> = ({ onOpenDetails }) => {
+  const { data, loading, progress, error, isReady, scan } = useSiteDashboard();
+  const [config, setConfig] = useState<SiteDashboardScanOptions | null>(loadWidgetConfig);
+  const [isEditing, setIsEditing] = useState(() => !config);
+  const [rootPathInput, setRootPathInput] = useState(config?.rootPath || '/sitecore/content');
+  const [pageIdsInput, setPageIdsInput] = useState((config?.pageIds || []).map(formatGuidWithHyphens).join('\n'));
+  const [languageInput, setLanguageInput] = useState(config?.language || DEFAULT_LANGUAGE);
+  const [history, setHistory] = useState<SummarySnapshot[]>(() => config ? loadSummaryHistory(getHistoryKey(config)) : []);
+  const recordedScanRef = useRef<string | null>(null);
+
+  const historyKey = useMemo(() => config ? getHistoryKey(config) : null, [config]);
+
+  // Check the configured target once the client is ready, i.e. on every visit
+  useEffect(() => {
+    if (isReady && config) {
+      scan(config);
+    }
+  }, [isReady, config, scan]);
+
+  // Record each completed check in the target's history
+  useEffect(() => {
+    if (!data || !historyKey || recordedScanRef.current === data.scannedAt) {
+      return;
+    }
+    recordedScanRef.current = data.scannedAt;
+    setHistory(recordSummary(historyKey, data.summary, data.scannedAt));
+  }, [data, historyKey]);
+
+  const handleSave = () => {
+    const pageIds = parsePageIds(pageIdsInput);
+    const nextConfig: SiteDashboardScanOptions = {
+      ...(pageIds.length > 0 ? { pageIds } : { rootPath: rootPathInput.trim() }),
+      language: languageInput.trim() || DEFAULT_LANGUAGE
+    };
+    saveWidgetConfig(nextConfig);
+    setHistory(loadSummaryHistory(getHistoryKey(nextConfig)));
+    setConfig(nextConfig);
+    setIsEditing(false);
+  };
+
+  if (isEditing || !config) {
+    return (
+      <VStack align="stretch" spacing={3} p={4}>
+        <Text fontWeight="semibold">Publishing Status Widget</Text>
+        <FormControl>
+          <FormLabel fontSize="sm">Site root</FormLabel>
+          <Input size="sm" value={rootPathInput} onChange={(e) => setRootPathInput(e.target.value)} />
+        </FormControl>
+        <FormControl>
+          <FormLabel fontSize="sm">Or specific page IDs (one per line)</FormLabel>
+          <Textarea size="sm" rows={3} fontFamily="mono" value={pageIdsInput} onChange={(e) => setPageIdsInput(e.target.value)} />
+        </FormControl>
+        <FormControl>
+          <FormLabel fontSize="sm">Language</FormLabel>
+          <Input size="sm" width="80px" value={languageInput} onChange={(e) => setLanguageInput(e.target.value)} />
+        </FormControl>
+        <ButtonGroup size="sm" alignSelf="end">
+          {config && <Button variant="ghost" onClick={() => setIsEditing(false)}>Cancel</Button>}
+          <Button colorScheme="blue" onClick={handleSave} isDisabled={!rootPathInput.trim() && parsePageIds(pageIdsInput).length === 0}>
+            Save
+          </Button>
+        </ButtonGroup>
+      </VStack>
+    );
+  }
+
+  const latest = history[history.length - 1];
+  const counts = data
+    ? { upToDate: data.summary.publishedItems - data.summary.outdatedItems, outdated: data.summary.outdatedItems, unpublished: data.summary.unpublishedItems }
+    : latest;
+
+  return (
+    <VStack align="stretch" spacing={3} p={4}>
+      <Flex align="center" gap={2}>
+        <VStack align="start" spacing={0} minW={0}>
+          <Text fontWeight="semibold">Publishing Status</Text>
+          <Text fontSize="xs" color="gray.500" noOfLines={1} title={describeTarget(config)}>
+            {describeTarget(config)}
+          </Text>
+        </VStack>
+        <Spacer />
+        <Button size="xs" variant="ghost" onClick={() => setIsEditing(true)}>
+          Configure
+        </Button>
+        <Button size="xs" variant="outline" onClick={() => scan(config)} isLoading={loading} isDisabled={!isReady}>
+          Refresh
+        </Button>
+      </Flex>
+
+      {error && (
+        <Alert status="error" fontSize="sm" py={2}>
+          <AlertIcon />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {counts ? (
+        <HStack spacing={4} justify="space-between" opacity={loading ? 0.6 : 1}>
+          <VStack spacing={0}>
+            <Text fontSize="2xl" fontWeight="bold" color="green.500">{counts.upToDate}</Text>
+            <Text fontSize="xs" color="gray.600">Up to date</Text>
+          </VStack>
+          <VStack spacing={0}>
+            <Text fontSize="2xl" fontWeight="bold" color="orange.500">{counts.outdated}</Text>
+            <Text fontSize="xs" color="gray.600">Outdated</Text>
+          </VStack>
+          <VStack spacing={0}>
+            <Text fontSize="2xl" fontWeight="bold" color="red.500">{counts.unpublished}</Text>
+            <Text fontSize="xs" color="gray.600">Not published</Text>
+          </VStack>
+        </HStack>
+      ) : loading && (
+        <HStack spacing={2}>
+          <Spinner size="sm" color="blue.500" />
+          <Text fontSize="xs" color="gray.600">{progress || 'Checking...'}</Text>
+        </HStack>
+      )}
+
+      <Sparkline history={history} />
+
+      <Flex align="center" gap={2}>
+        <Text fontSize="xs" color="gray.400">
+          {loading
+            ? progress || 'Checking...'
+            : latest && `Checked ${new Date(data?.scannedAt || latest.timestamp).toLocaleString()}`}
+        </Text>
+        <Spacer />
+        <Button size="xs" colorScheme="blue" variant="link" onClick={() => onOpenDetails(config)}>
+          Open full report
+        </Button>
+      </Flex>
+    </VStack>
+  );
+};
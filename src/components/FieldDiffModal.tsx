@@ -0,0 +1,70 @@
+// components/FieldDiffModal.tsx
+import React, { useEffect } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Center,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalCloseButton,
+  ModalBody,
+  Spinner,
+  Text
+} from '@chakra-ui/react';
+import { useFieldDiff } from '../hooks/useFieldDiff';
+import { FieldDiffView } from './FieldDiffView';
+import type { ProcessedItemInfo } from '../types/itemInformation';
+
+interface FieldDiffModalProps {
+  /** Item to compare; the modal is open while this is set */
+  item: ProcessedItemInfo | null;
+  onClose: () => void;
+}
+
+/**
+ * Compares the published version of an item on Experience Edge with its latest version
+ */
+export const FieldDiffModal: React.FC<FieldDiffModalProps> = ({ item, onClose }) => {
+  const { result, loading, error, compare, clear } = useFieldDiff();
+
+  useEffect(() => {
+    if (item) {
+      compare(item, 'published', item.latestVersion);
+    } else {
+      clear();
+    }
+  }, [item, compare, clear]);
+
+  return (
+    <Modal isOpen={item !== null} onClose={onClose} size="6xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          Changes in {item?.name}
+          <Text fontSize="sm" fontWeight="normal" color="gray.500">
+            Published version compared with the latest version{item?.language ? ` (${item.language})` : ''}
+          </Text>
+        </ModalHeader>
+        <ModalCloseButton />
+        <ModalBody pb={6}>
+          {loading && (
+            <Center py={8}>
+              <Spinner />
+            </Center>
+          )}
+          {!loading && error && (
+            <Alert status="error">
+              <AlertIcon />
+              {error}
+            </Alert>
+          )}
+          {!loading && !error && result && (
+            <FieldDiffView changes={result.changes} fromLabel={result.fromLabel} toLabel={result.toLabel} />
+          )}
+        </ModalBody>
+      </ModalContent>
+    </Modal>
+  );
+};
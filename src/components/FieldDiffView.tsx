@@ -0,0 +1,120 @@
+// components/FieldDiffView.tsx
+import React, { useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  ButtonGroup,
+  Flex,
+  HStack,
+  SimpleGrid,
+  Spacer,
+  Switch,
+  Text,
+  VStack
+} from '@chakra-ui/react';
+import { diffText, isRichTextField } from '../utils/fieldDiff';
+import type { DiffSegment, FieldChange, FieldChangeStatus } from '../utils/fieldDiff';
+
+type DiffLayout = 'inline' | 'side-by-side';
+
+const STATUS_COLORS: Record<FieldChangeStatus, string> = {
+  changed: 'orange',
+  added: 'green',
+  removed: 'red',
+  unchanged: 'gray'
+};
+
+const SEGMENT_STYLES: Record<DiffSegment['type'], { bg?: string; textDecoration?: string }> = {
+  equal: {},
+  added: { bg: 'green.100' },
+  removed: { bg: 'red.100', textDecoration: 'line-through' }
+};
+
+/**
+ * Render diff segments as highlighted, pre-wrapped text
+ */
+const DiffText: React.FC<{ segments: DiffSegment[] }> = ({ segments }) => (
+  <Box as="pre" fontSize="xs" fontFamily="mono" whiteSpace="pre-wrap" wordBreak="break-word" m={0}>
+    {segments.length === 0 ? (
+      <Text as="span" color="gray.400">(empty)</Text>
+    ) : (
+      segments.map((segment, index) => (
+        <Box as="span" key={index} {...SEGMENT_STYLES[segment.type]}>
+          {segment.text}
+        </Box>
+      ))
+    )}
+  </Box>
+);
+
+interface FieldDiffViewProps {
+  changes: FieldChange[];
+  fromLabel: string;
+  toLabel: string;
+}
+
+export const FieldDiffView: React.FC<FieldDiffViewProps> = ({ changes, fromLabel, toLabel }) => {
+  const [layout, setLayout] = useState<DiffLayout>('inline');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const visibleChanges = showUnchanged ? changes : changes.filter(change => change.status !== 'unchanged');
+  const changedCount = changes.filter(change => change.status !== 'unchanged').length;
+
+  return (
+    <VStack align="stretch" spacing={4}>
+      <Flex align="center" wrap="wrap" gap={3}>
+        <Text fontSize="sm">
+          {changedCount} of {changes.length} field{changes.length !== 1 ? 's' : ''} differ between{' '}
+          <strong>{fromLabel}</strong> and <strong>{toLabel}</strong>
+        </Text>
+        <Spacer />
+        <HStack spacing={2}>
+          <Switch size="sm" isChecked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+          <Text fontSize="sm">Show unchanged</Text>
+        </HStack>
+        <ButtonGroup size="xs" isAttached variant="outline">
+          <Button isActive={layout === 'inline'} onClick={() => setLayout('inline')}>Inline</Button>
+          <Button isActive={layout === 'side-by-side'} onClick={() => setLayout('side-by-side')}>Side by side</Button>
+        </ButtonGroup>
+      </Flex>
+
+      {visibleChanges.length === 0 && (
+        <Text fontSize="sm" color="gray.500">No field values differ.</Text>
+      )}
+
+      {visibleChanges.map(change => {
+        const segments = diffText(change.oldValue, change.newValue, isRichTextField(change));
+
+        return (
+          <Box key={change.fieldName} borderWidth="1px" borderRadius="md" p={3}>
+            <HStack spacing={2} mb={2}>
+              <Text fontWeight="semibold" fontSize="sm">{change.fieldName}</Text>
+              {change.fieldType && (
+                <Text fontSize="xs" color="gray.500">{change.fieldType}</Text>
+              )}
+              <Badge colorScheme={STATUS_COLORS[change.status]} textTransform="capitalize">
+                {change.status}
+              </Badge>
+            </HStack>
+
+            {layout === 'inline' ? (
+              <DiffText segments={segments} />
+            ) : (
+              <SimpleGrid columns={2} spacing={3}>
+                <Box>
+                  <Text fontSize="xs" color="gray.500" mb={1}>{fromLabel}</Text>
+                  <DiffText segments={segments.filter(segment => segment.type !== 'added')} />
+                </Box>
+                <Box>
+                  <Text fontSize="xs" color="gray.500" mb={1}>{toLabel}</Text>
+                  <DiffText segments={segments.filter(segment => segment.type !== 'removed')} />
+                </Box>
+              </SimpleGrid>
+            )}
+          </Box>
+        );
+      })}
+    </VStack>
+  );
+};
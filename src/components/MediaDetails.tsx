@@ -0,0 +1,85 @@
+// components/MediaDetails.tsx
+import React from 'react';
+import {
+  Badge,
+  Box,
+  HStack,
+  Image,
+  Text,
+  Tooltip,
+  VStack
+} from '@chakra-ui/react';
+import type { MediaInfo } from '../types/itemInformation';
+
+/**
+ * Format a byte count for display (e.g. 1.2 MB)
+ */
+const formatFileSize = (bytes?: number): string => {
+  if (bytes === undefined) {
+    return 'Unknown size';
+  }
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface MediaDetailsProps {
+  media: MediaInfo;
+  name: string;
+}
+
+export const MediaDetails: React.FC<MediaDetailsProps> = ({ media, name }) => {
+  const isImage = media.mimeType?.startsWith('image/') ?? false;
+
+  return (
+    <HStack spacing={3} align="center">
+      {isImage && media.url ? (
+        <Image
+          src={media.url}
+          alt={name}
+          boxSize="40px"
+          objectFit="cover"
+          borderRadius="sm"
+          borderWidth="1px"
+          loading="lazy"
+        />
+      ) : (
+        <Box
+          boxSize="40px"
+          borderRadius="sm"
+          borderWidth="1px"
+          bg="gray.50"
+          display="flex"
+          alignItems="center"
+          justifyContent="center"
+        >
+          <Text fontSize="2xs" fontWeight="bold" color="gray.500" textTransform="uppercase">
+            {media.extension || 'file'}
+          </Text>
+        </Box>
+      )}
+      <VStack align="start" spacing={0}>
+        <HStack spacing={2}>
+          {media.extension && (
+            <Badge fontSize="2xs" textTransform="uppercase">{media.extension}</Badge>
+          )}
+          <Text fontSize="xs" color="gray.500">{formatFileSize(media.size)}</Text>
+        </HStack>
+        {media.blobDiffers && (
+          <Tooltip
+            label={`The file was replaced after publishing (published: ${formatFileSize(media.publishedSize)}, latest: ${formatFileSize(media.size)}). Republish to update the live file.`}
+            placement="top"
+          >
+            <Badge colorScheme="orange" fontSize="2xs">
+              File changed since publish
+            </Badge>
+          </Tooltip>
+        )}
+      </VStack>
+    </HStack>
+  );
+};
@@ -0,0 +1,82 @@
+// components/PropagationProgress.tsx
+import React from 'react';
+import {
+  Badge,
+  CloseButton,
+  HStack,
+  Progress,
+  Spinner,
+  Text,
+  Tooltip,
+  VStack
+} from '@chakra-ui/react';
+import { PROPAGATION_TIMEOUT_MS } from '../hooks/usePropagationWatch';
+import type { PropagationWatch } from '../hooks/usePropagationWatch';
+
+/**
+ * Format a duration in milliseconds as seconds, or minutes and seconds
+ */
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 100) / 10;
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+};
+
+interface PropagationProgressProps {
+  watch: PropagationWatch;
+  onDismiss: () => void;
+}
+
+/**
+ * Shows whether Experience Edge serves a published item's latest version yet
+ */
+export const PropagationProgress: React.FC<PropagationProgressProps> = ({ watch, onDismiss }) => {
+  if (watch.status === 'watching') {
+    const elapsed = Date.now() - watch.startedAt;
+
+    return (
+      <VStack align="stretch" spacing={1} minW="160px">
+        <HStack spacing={2}>
+          <Spinner size="xs" color="blue.500" />
+          <Text fontSize="xs" color="gray.600">
+            Waiting for v{watch.targetVersion} on Edge
+            {watch.attempts > 0 && ` (check ${watch.attempts}${watch.observedVersion ? `, serving v${watch.observedVersion}` : ''})`}
+            {watch.languages.length > 1 && ` — ${watch.pendingLanguages.length} of ${watch.languages.length} languages pending`}
+          </Text>
+          <CloseButton size="sm" onClick={onDismiss} aria-label="Stop watching" />
+        </HStack>
+        <Progress
+          size="xs"
+          colorScheme={watch.error ? 'orange' : 'blue'}
+          value={Math.min((elapsed / PROPAGATION_TIMEOUT_MS) * 100, 100)}
+          isAnimated
+          hasStripe
+        />
+        {watch.error && (
+          <Text fontSize="xs" color="orange.500">{watch.error}</Text>
+        )}
+      </VStack>
+    );
+  }
+
+  const badge = watch.status === 'propagated'
+    ? watch.alreadyLive
+      ? { colorScheme: 'green', label: 'Already live', tooltip: `Edge already served v${watch.targetVersion} when the watch started, so no propagation time was measured` }
+      : { colorScheme: 'green', label: `Live after ${formatDuration(watch.latencyMs || 0)}`, tooltip: `Edge served v${watch.targetVersion} after ${watch.attempts} check${watch.attempts !== 1 ? 's' : ''}` }
+    : { colorScheme: watch.status === 'timed-out' ? 'orange' : 'red', label: watch.status === 'timed-out' ? 'Not on Edge yet' : 'Watch failed', tooltip: `Stopped after ${watch.attempts} check${watch.attempts !== 1 ? 's' : ''}` };
+
+  return (
+    <VStack align="start" spacing={1} maxW="260px">
+      <HStack spacing={1}>
+        <Tooltip label={badge.tooltip} placement="top">
+          <Badge colorScheme={badge.colorScheme} fontSize="xs" cursor="help">
+            {badge.label}
+          </Badge>
+        </Tooltip>
+        <CloseButton size="sm" onClick={onDismiss} aria-label="Dismiss" />
+      </HStack>
+      {watch.status !== 'propagated' && watch.error && (
+        <Text fontSize="xs" color={`${badge.colorScheme}.500`}>{watch.error}</Text>
+      )}
+    </VStack>
+  );
+};
@@ -1,5 +1,5 @@
 ﻿// components/PublishedStatusTable.tsx
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   Table,
   Thead,
@@ -21,35 +21,258 @@ import {
   Center,
   Flex,
   Spacer,
+  Checkbox,
+  Select,
+  Badge,
+  Tooltip,
   useToast
 } from '@chakra-ui/react';
 import { useItemInformation } from '../hooks/useItemInformation';
+import { usePublishing } from '../hooks/usePublishing';
+import { useWorkflow } from '../hooks/useWorkflow';
+import { usePropagationWatch } from '../hooks/usePropagationWatch';
+import type { PublishItemResult } from '../hooks/usePublishing';
+import { BulkActionBar } from './BulkActionBar';
+import { ReferenceProvenanceList } from './ReferenceProvenanceList';
+import { MediaDetails } from './MediaDetails';
+import { WorkflowCommandsMenu } from './WorkflowCommandsMenu';
+import { FieldDiffModal } from './FieldDiffModal';
+import { VersionTimeline } from './VersionTimeline';
+import { PropagationProgress } from './PropagationProgress';
+import { ReportExportMenu } from './ReportExportMenu';
 import { 
   PublishingStatusIndicator, 
   PublishingStatusSummary, 
-  ItemTypeBadge 
+  ItemTypeBadge,
+  LanguageStatusCell,
+  WorkflowStateBadge
 } from './PublishingStatusIndicator';
-import { formatGuidWithHyphens } from '../utils/dataProcessing';
+import { formatGuidWithHyphens, isAwaitingApproval, isPreviewOutOfSync } from '../utils/dataProcessing';
+import { DEFAULT_CRAWL_OPTIONS } from '../utils/dependencyCrawler';
+import { LIVE_ACCESS_NOT_GRANTED_MESSAGE } from '../utils/graphqlQueries';
+import type { PublishMode } from '../utils/graphqlQueries';
+import { getItemTypeLabel, getReferenceSourceLabel } from '../utils/itemTypeUtils';
+import type { ProcessedItemInfo, ItemType, WorkflowCommand } from '../types/itemInformation';
+
+const CRAWL_DEPTH_OPTIONS = [0, 1, 2, 3];
+const REFERENCED_ITEM_TYPES: ItemType[] = ['datasource', 'link', 'media', 'reference'];
+
+/**
+ * Whether an item needs publishing: never published, behind the latest version, or a replaced media file
+ * Items awaiting workflow approval are excluded because publishing cannot update them yet
+ */
+const needsPublishing = (item: ProcessedItemInfo) =>
+  !isAwaitingApproval(item) && (!item.isPublished || item.isOutdated || !!item.media?.blobDiffers);
 
 export const PublishedStatusTable: React.FC = () => {
+  const [crawlDepth, setCrawlDepth] = useState(DEFAULT_CRAWL_OPTIONS.maxDepth);
+  const [includePreview, setIncludePreview] = useState(false);
   const { 
     data, 
     items, 
     loading, 
     error, 
-    refetch 
-  } = useItemInformation();
+    isRevalidating,
+    refetch,
+    refetchItems,
+    forceRefresh
+  } = useItemInformation({ crawlDepth, includePreview });
+
+  const { watches, watchItems, stopWatching } = usePropagationWatch(refetchItems);
+  // Once a publishing job completes, refresh its rows, then watch Edge until it serves the new version
+  // The watch starts from the rows as they were before publishing, so it knows what changed
+  const handlePublished = useCallback(async (publishedIds: string[]) => {
+    const publishedItems = items.filter(item => publishedIds.includes(item.id));
+    await refetchItems(publishedIds);
+    watchItems(publishedItems);
+  }, [items, refetchItems, watchItems]);
+  const { publishingItemIds, isPublishing, publishItems } = usePublishing(handlePublished);
+  const { executingItemIds, loadCommands, executeCommand } = useWorkflow(refetchItems);
+  const [includeSubitems, setIncludeSubitems] = useState(false);
+  const [publishMode, setPublishMode] = useState<PublishMode>('smart');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [typeFilter, setTypeFilter] = useState<ItemType | 'all'>('all');
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+  const [historyIds, setHistoryIds] = useState<string[]>([]);
+  const [diffItem, setDiffItem] = useState<ProcessedItemInfo | null>(null);
 
   const toast = useToast();
 
+  const showPublishResults = (results: PublishItemResult[]) => {
+    const failed = results.filter(result => !result.success);
+    if (failed.length === 0) {
+      toast({
+        title: 'Publishing Complete',
+        description: `${results.length} item${results.length !== 1 ? 's' : ''} published to Experience Edge`,
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+    } else {
+      toast({
+        title: 'Publishing Failed',
+        description: failed.map(result => `${formatGuidWithHyphens(result.itemId)}: ${result.error}`).join('; '),
+        status: 'error',
+        duration: 6000,
+        isClosable: true,
+      });
+    }
+  };
+
+  const handlePublish = async (itemsToPublish: ProcessedItemInfo[]) => {
+    if (itemsToPublish.length === 0) {
+      return;
+    }
+    const results = await publishItems(itemsToPublish, { includeSubitems, mode: publishMode });
+    showPublishResults(results);
+  };
+
+  const toggleSelected = (itemId: string, isSelected: boolean) => {
+    setSelectedIds(prev => isSelected
+      ? [...prev.filter(id => id !== itemId), itemId]
+      : prev.filter(id => id !== itemId));
+  };
+
+  const toggleExpanded = (itemId: string) => {
+    setExpandedIds(prev => prev.includes(itemId)
+      ? prev.filter(id => id !== itemId)
+      : [...prev, itemId]);
+  };
+
+  const toggleHistory = (itemId: string) => {
+    setHistoryIds(prev => prev.includes(itemId)
+      ? prev.filter(id => id !== itemId)
+      : [...prev, itemId]);
+  };
+
+  const handleBulkPublish = (
+    itemsToPublish: ProcessedItemInfo[],
+    onItemComplete: (result: PublishItemResult) => void
+  ) => publishItems(itemsToPublish, { includeSubitems, mode: publishMode }, onItemComplete);
+
+  const handleWorkflowCommand = async (item: ProcessedItemInfo, command: WorkflowCommand) => {
+    try {
+      await executeCommand(item, command);
+      toast({
+        title: 'Workflow Updated',
+        description: `${command.displayName} executed on ${item.name}`,
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (workflowError) {
+      toast({
+        title: 'Workflow Command Failed',
+        description: workflowError instanceof Error ? workflowError.message : String(workflowError),
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+
+  const renderWorkflowActions = (item: ProcessedItemInfo) => (
+    <WorkflowCommandsMenu
+      item={item}
+      onLoadCommands={loadCommands}
+      onExecute={handleWorkflowCommand}
+      isExecuting={executingItemIds.includes(item.id)}
+    />
+  );
+
+  const renderPublishButton = (item: ProcessedItemInfo) => (
+    <Button
+      size="xs"
+      colorScheme="blue"
+      variant={needsPublishing(item) ? 'solid' : 'outline'}
+      isLoading={publishingItemIds.includes(item.id)}
+      isDisabled={isAwaitingApproval(item)}
+      title={isAwaitingApproval(item) ? 'The latest version must be approved before it can be published' : undefined}
+      loadingText="Publishing"
+      onClick={() => handlePublish([item])}
+    >
+      {item.isPublished && !item.isOutdated ? 'Republish' : 'Publish'}
+    </Button>
+  );
+
+  // Version columns: master and live, plus Edge preview when the three-way comparison is on
+  const versionColumnCount = includePreview ? 3 : 2;
+
+  const renderVersionHeaders = () => includePreview ? (
+    <>
+      <Th>Master</Th>
+      <Th>Preview</Th>
+      <Th>Live</Th>
+    </>
+  ) : (
+    <>
+      <Th>Latest Version</Th>
+      <Th>Published Version</Th>
+    </>
+  );
+
+  const renderVersionCells = (item: ProcessedItemInfo) => (
+    <>
+      <Td>
+        <Text fontWeight="semibold">v{item.latestVersion}</Text>
+      </Td>
+      {includePreview && (
+        <Td>
+          <Text color={isPreviewOutOfSync(item) ? 'orange.500' : undefined}>
+            {item.previewVersion ? `v${item.previewVersion}` : 'Not in Preview'}
+          </Text>
+        </Td>
+      )}
+      <Td>
+        <Text>
+          {item.publishedVersion 
+            ? `v${item.publishedVersion}`
+            : 'Not Published'
+          }
+        </Text>
+      </Td>
+    </>
+  );
+
+  const renderActions = (item: ProcessedItemInfo) => (
+    <VStack align="start" spacing={2}>
+      <HStack spacing={2}>
+        {renderPublishButton(item)}
+        {item.isPublished && (
+          <Button
+            size="xs"
+            variant="outline"
+            onClick={() => setDiffItem(item)}
+            title="Compare the published version with the latest version"
+          >
+            Changes
+          </Button>
+        )}
+        <Button
+          size="xs"
+          variant="ghost"
+          onClick={() => toggleHistory(item.id)}
+          aria-expanded={historyIds.includes(item.id)}
+        >
+          {historyIds.includes(item.id) ? '▾' : '▸'} History
+        </Button>
+      </HStack>
+      {watches[item.id] && (
+        <PropagationProgress watch={watches[item.id]} onDismiss={() => stopWatching(item.id)} />
+      )}
+    </VStack>
+  );
+
   const copyToClipboard = async (text: string, description: string = 'Item ID') => {
+    // Long content such as reports is summarized instead of echoed back in the toast
+    const copiedText = text.length > 100 ? `${text.length} characters have` : `${text} has`;
     try {
       if (navigator.clipboard && window.isSecureContext) {
         // Use modern clipboard API
         await navigator.clipboard.writeText(text);
         toast({
           title: `${description} Copied!`,
-          description: `${text} has been copied to clipboard`,
+          description: `${copiedText} been copied to clipboard`,
           status: 'success',
           duration: 2000,
           isClosable: true,
@@ -71,7 +294,7 @@ export const PublishedStatusTable: React.FC = () => {
         if (successful) {
           toast({
             title: `${description} Copied!`,
-            description: `${text} has been copied to clipboard`,
+            description: `${copiedText} been copied to clipboard`,
             status: 'success',
             duration: 2000,
             isClosable: true,
@@ -103,6 +326,21 @@ export const PublishedStatusTable: React.FC = () => {
     );
   }
 
+  if (error === LIVE_ACCESS_NOT_GRANTED_MESSAGE) {
+    return (
+      <Alert status="warning">
+        <AlertIcon />
+        <VStack align="start" spacing={2}>
+          <AlertTitle>Live Access Not Granted</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+          <Button size="sm" colorScheme="orange" onClick={refetch}>
+            Try Again
+          </Button>
+        </VStack>
+      </Alert>
+    );
+  }
+
   if (error) {
     return (
       <Alert status="error">
@@ -135,6 +373,10 @@ export const PublishedStatusTable: React.FC = () => {
     );
   }
 
+  const visibleReferencedItems = typeFilter === 'all'
+    ? data.referencedItems
+    : data.referencedItems.filter(item => item.itemType === typeFilter);
+
   return (
     <VStack spacing={6} align="stretch">
       {/* Header */}
@@ -142,15 +384,71 @@ export const PublishedStatusTable: React.FC = () => {
         <VStack align="start" spacing={1}>
           <Heading size="lg">Item Publishing Status</Heading>
           <Text color="gray.600" fontSize="sm">
-            Current item and referenced items publishing information
+            Current item and referenced items publishing information ({data.languages[0]})
           </Text>
         </VStack>
         <Spacer />
-        <Button colorScheme="blue" onClick={refetch} size="sm">
-          Refresh
-        </Button>
+        <HStack spacing={2}>
+          {isRevalidating && (
+            <HStack spacing={1}>
+              <Spinner size="xs" color="gray.500" />
+              <Text fontSize="xs" color="gray.500">Refreshing cached data...</Text>
+            </HStack>
+          )}
+          <Button
+            colorScheme="orange"
+            size="sm"
+            isDisabled={isPublishing || !items.some(needsPublishing)}
+            onClick={() => handlePublish(items.filter(needsPublishing))}
+          >
+            Publish All Outdated
+          </Button>
+          <ReportExportMenu data={data} onCopy={copyToClipboard} />
+          <Button colorScheme="blue" onClick={forceRefresh} size="sm">
+            Refresh
+          </Button>
+        </HStack>
       </Flex>
 
+      {/* Publishing Options */}
+      <HStack spacing={4}>
+        <Checkbox
+          isChecked={includeSubitems}
+          onChange={(e) => setIncludeSubitems(e.target.checked)}
+        >
+          Include subitems
+        </Checkbox>
+        <Select
+          size="sm"
+          width="auto"
+          value={publishMode}
+          onChange={(e) => setPublishMode(e.target.value as PublishMode)}
+        >
+          <option value="smart">Smart publish</option>
+          <option value="republish">Republish</option>
+        </Select>
+        <Spacer />
+        <Checkbox
+          isChecked={includePreview}
+          onChange={(e) => setIncludePreview(e.target.checked)}
+        >
+          Compare Edge preview
+        </Checkbox>
+        <Text fontSize="sm" color="gray.600">Reference depth</Text>
+        <Select
+          size="sm"
+          width="auto"
+          value={crawlDepth}
+          onChange={(e) => setCrawlDepth(Number(e.target.value))}
+        >
+          {CRAWL_DEPTH_OPTIONS.map((depth) => (
+            <option key={depth} value={depth}>
+              {depth === 0 ? 'Datasources only' : `${depth} level${depth > 1 ? 's' : ''}`}
+            </option>
+          ))}
+        </Select>
+      </HStack>
+
       {/* Summary */}
       <Box>
         <Text fontSize="md" fontWeight="semibold" mb={3}>
@@ -159,6 +457,21 @@ export const PublishedStatusTable: React.FC = () => {
         <PublishingStatusSummary items={items} />
       </Box>
 
+      {/* Warnings */}
+      {data.warnings.length > 0 && (
+        <Alert status="warning" alignItems="start">
+          <AlertIcon />
+          <VStack align="start" spacing={1}>
+            <AlertTitle>Some referenced items could not be checked</AlertTitle>
+            {data.warnings.map((warning) => (
+              <AlertDescription key={warning} fontSize="sm">
+                {warning}
+              </AlertDescription>
+            ))}
+          </VStack>
+        </Alert>
+      )}
+
       {/* Current Item Section */}
       {data.currentItem && (
         <Box>
@@ -168,9 +481,10 @@ export const PublishedStatusTable: React.FC = () => {
               <Tr>
                 <Th>Item Information</Th>
                 <Th>Type</Th>
-                <Th>Latest Version</Th>
-                <Th>Published Version</Th>
+                {renderVersionHeaders()}
+                <Th>Workflow</Th>
                 <Th>Publishing Status</Th>
+                <Th>Actions</Th>
               </Tr>
             </Thead>
             <Tbody>
@@ -204,24 +518,28 @@ export const PublishedStatusTable: React.FC = () => {
                 <Td>
                   <ItemTypeBadge itemType={data.currentItem.itemType} />
                 </Td>
+                {renderVersionCells(data.currentItem)}
                 <Td>
-                  <Text fontWeight="semibold">v{data.currentItem.latestVersion}</Text>
-                </Td>
-                <Td>
-                  <Text>
-                    {data.currentItem.publishedVersion 
-                      ? `v${data.currentItem.publishedVersion}`
-                      : 'Not Published'
-                    }
-                  </Text>
+                  <WorkflowStateBadge workflow={data.currentItem.workflow} />
                 </Td>
                 <Td>
                   <PublishingStatusIndicator 
                     item={data.currentItem} 
                     showDetails={false}
+                    workflowActions={renderWorkflowActions(data.currentItem)}
                   />
                 </Td>
+                <Td>
+                  {renderActions(data.currentItem)}
+                </Td>
               </Tr>
+              {historyIds.includes(data.currentItem.id) && (
+                <Tr bg="gray.50">
+                  <Td colSpan={5 + versionColumnCount}>
+                    <VersionTimeline item={data.currentItem} />
+                  </Td>
+                </Tr>
+              )}
             </Tbody>
           </Table>
         </Box>
@@ -230,22 +548,81 @@ export const PublishedStatusTable: React.FC = () => {
       {/* Referenced Items Section */}
       {data.referencedItems.length > 0 && (
         <Box>
-          <Heading size="md" mb={4}>
-            Referenced Items ({data.referencedItems.length})
-          </Heading>
+          <Flex align="center" mb={4}>
+            <Heading size="md">
+              Referenced Items ({data.referencedItems.length})
+            </Heading>
+            <Spacer />
+            <HStack spacing={2}>
+              <Select
+                size="xs"
+                width="auto"
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value as ItemType | 'all')}
+                aria-label="Filter by item type"
+              >
+                <option value="all">All types</option>
+                {REFERENCED_ITEM_TYPES.map((itemType) => (
+                  <option key={itemType} value={itemType}>
+                    {getItemTypeLabel(itemType)} ({data.referencedItems.filter(item => item.itemType === itemType).length})
+                  </option>
+                ))}
+              </Select>
+              <Button
+                size="xs"
+                variant="outline"
+                onClick={() => setSelectedIds(visibleReferencedItems.filter(item => item.isOutdated || item.media?.blobDiffers).map(item => item.id))}
+              >
+                Select All Outdated
+              </Button>
+              <Button
+                size="xs"
+                variant="outline"
+                onClick={() => setSelectedIds(visibleReferencedItems.filter(item => !item.isPublished).map(item => item.id))}
+              >
+                Select All Unpublished
+              </Button>
+            </HStack>
+          </Flex>
+          <Box mb={4}>
+            <BulkActionBar
+              selectedItems={data.referencedItems.filter(item => selectedIds.includes(item.id))}
+              onPublish={handleBulkPublish}
+              onWatch={watchItems}
+              onCopy={copyToClipboard}
+              onClearSelection={() => setSelectedIds([])}
+            />
+          </Box>
           <Table variant="simple" size="md">
             <Thead>
               <Tr>
+                <Th width="1%">
+                  <Checkbox
+                    isChecked={visibleReferencedItems.length > 0 && visibleReferencedItems.every(item => selectedIds.includes(item.id))}
+                    isIndeterminate={selectedIds.length > 0 && !visibleReferencedItems.every(item => selectedIds.includes(item.id))}
+                    onChange={(e) => setSelectedIds(e.target.checked ? visibleReferencedItems.map(item => item.id) : [])}
+                    aria-label="Select all referenced items"
+                  />
+                </Th>
                 <Th>Item Information</Th>
                 <Th>Type</Th>
-                <Th>Latest Version</Th>
-                <Th>Published Version</Th>
+                {renderVersionHeaders()}
+                <Th>Workflow</Th>
                 <Th>Publishing Status</Th>
+                <Th>Actions</Th>
               </Tr>
             </Thead>
             <Tbody>
-              {data.referencedItems.map((item) => (
-                <Tr key={item.id}>
+              {visibleReferencedItems.map((item) => (
+                <React.Fragment key={item.id}>
+                <Tr>
+                  <Td>
+                    <Checkbox
+                      isChecked={selectedIds.includes(item.id)}
+                      onChange={(e) => toggleSelected(item.id, e.target.checked)}
+                      aria-label={`Select ${item.name}`}
+                    />
+                  </Td>
                   <Td>
                     <VStack align="start" spacing={1}>
                       <Text fontWeight="medium" fontSize="sm">
@@ -272,34 +649,121 @@ export const PublishedStatusTable: React.FC = () => {
                           Template: {item.template}
                         </Text>
                       )}
+                      {item.media && (
+                        <MediaDetails media={item.media} name={item.name} />
+                      )}
+                      {item.referenceDepth !== undefined && item.referencedBy && (
+                        <Text fontSize="xs" color="gray.400">
+                          Referenced by {items.find(other => other.id === item.referencedBy)?.name || formatGuidWithHyphens(item.referencedBy)} (depth {item.referenceDepth})
+                        </Text>
+                      )}
+                      {item.resolvedFromQuery && (
+                        <Tooltip label={item.resolvedFromQuery} placement="top">
+                          <Badge colorScheme="teal" fontSize="2xs">
+                            Query-resolved
+                          </Badge>
+                        </Tooltip>
+                      )}
                     </VStack>
                   </Td>
                   <Td>
-                    <ItemTypeBadge itemType={item.itemType} />
+                    <VStack align="start" spacing={1}>
+                      <ItemTypeBadge itemType={item.itemType} />
+                      {item.referenceSources && item.referenceSources.length > 0 && (
+                        <Text fontSize="xs" color="gray.500">
+                          {item.referenceSources.map(getReferenceSourceLabel).join(', ')}
+                        </Text>
+                      )}
+                      {item.provenance && item.provenance.length > 0 && (
+                        <Button
+                          size="xs"
+                          variant="link"
+                          onClick={() => toggleExpanded(item.id)}
+                          aria-expanded={expandedIds.includes(item.id)}
+                        >
+                          {expandedIds.includes(item.id) ? '▾' : '▸'} Where used ({item.provenance.length})
+                        </Button>
+                      )}
+                    </VStack>
                   </Td>
+                  {renderVersionCells(item)}
                   <Td>
-                    <Text fontWeight="semibold">
-                      v{item.latestVersion}
-                    </Text>
+                    <WorkflowStateBadge workflow={item.workflow} />
                   </Td>
                   <Td>
-                    <Text>
-                      {item.publishedVersion 
-                        ? `v${item.publishedVersion}`
-                        : 'Not Published'
-                      }
-                    </Text>
+                    <PublishingStatusIndicator
+                      item={item}
+                      showDetails={false}
+                      workflowActions={renderWorkflowActions(item)}
+                    />
                   </Td>
                   <Td>
-                    <PublishingStatusIndicator item={item} showDetails={false} />
+                    {renderActions(item)}
                   </Td>
                 </Tr>
+                {expandedIds.includes(item.id) && item.provenance && (
+                  <Tr bg="gray.50">
+                    <Td />
+                    <Td colSpan={5 + versionColumnCount}>
+                      <ReferenceProvenanceList provenance={item.provenance} items={items} />
+                    </Td>
+                  </Tr>
+                )}
+                {historyIds.includes(item.id) && (
+                  <Tr bg="gray.50">
+                    <Td />
+                    <Td colSpan={5 + versionColumnCount}>
+                      <VersionTimeline item={item} />
+                    </Td>
+                  </Tr>
+                )}
+                </React.Fragment>
               ))}
             </Tbody>
           </Table>
         </Box>
       )}
 
+      {/* Language Matrix Section */}
+      {data.languages.length > 1 && (
+        <Box>
+          <Heading size="md" mb={4}>
+            Status by Language ({data.languages.length})
+          </Heading>
+          <Box overflowX="auto">
+            <Table variant="simple" size="sm">
+              <Thead>
+                <Tr>
+                  <Th>Item</Th>
+                  {data.languages.map((language) => (
+                    <Th key={language}>{language}</Th>
+                  ))}
+                </Tr>
+              </Thead>
+              <Tbody>
+                {[data.currentItem, ...data.referencedItems].map((item) => (
+                  <Tr key={item.id}>
+                    <Td>
+                      <VStack align="start" spacing={1}>
+                        <Text fontWeight="medium" fontSize="sm">
+                          {item.name}
+                        </Text>
+                        <ItemTypeBadge itemType={item.itemType} size="sm" />
+                      </VStack>
+                    </Td>
+                    {data.languages.map((language) => (
+                      <Td key={language}>
+                        <LanguageStatusCell versionInfo={item.languageVersions?.[language]} />
+                      </Td>
+                    ))}
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          </Box>
+        </Box>
+      )}
+
       {/* Debug Information (can be removed in production) */}
       {process.env.NODE_ENV === 'development' && (
         <Box>
@@ -313,6 +777,8 @@ export const PublishedStatusTable: React.FC = () => {
           </Text>
         </Box>
       )}
+
+      <FieldDiffModal item={diffItem} onClose={() => setDiffItem(null)} />
     </VStack>
   );
 };
\ No newline at end of file
@@ -8,8 +8,10 @@ import {
   Text,
   VStack
 } from '@chakra-ui/react';
-import type { ProcessedItemInfo } from '../types/itemInformation';
+import type { ProcessedItemInfo, LanguageVersionInfo, WorkflowInfo } from '../types/itemInformation';
 import { getItemTypeColor, getItemTypeLabel } from '../utils/itemTypeUtils';
+import { isAwaitingApproval, getPublishingStatus } from '../utils/dataProcessing';
+import type { PublishingStatusFields } from '../utils/dataProcessing';
 
 // Define our own icons with proper typing
 interface IconProps {
@@ -42,45 +44,84 @@ const TimeIcon = (props: IconProps) => (
   </svg>
 );
 
-interface PublishingStatusIndicatorProps {
-  item: ProcessedItemInfo;
-  showDetails?: boolean;
-  size?: 'sm' | 'md' | 'lg';
-}
+/**
+ * Get the badge configuration for an item's publishing status
+ */
+const getStatusConfig = (item: PublishingStatusFields) => {
+  const status = getPublishingStatus(item);
 
-export const PublishingStatusIndicator: React.FC<PublishingStatusIndicatorProps> = ({
-  item,
-  showDetails = false,
-  size = 'md'
-}) => {
-  const getStatusConfig = () => {
-    if (!item.isPublished) {
+  switch (status) {
+    case 'Load Failed':
       return {
-        status: 'Not Published',
+        status,
+        colorScheme: 'gray',
+        icon: WarningIcon,
+        description: `Status unknown - ${item.loadError}`
+      };
+    case 'Awaiting Approval':
+      return {
+        status,
+        colorScheme: 'purple',
+        icon: TimeIcon,
+        description: `Latest version (${item.latestVersion}) is in workflow state "${item.workflow?.stateName}" and cannot be published until it reaches a final state`
+      };
+    case 'Preview Out of Sync':
+      return {
+        status,
+        colorScheme: 'yellow',
+        icon: WarningIcon,
+        description: item.previewVersion
+          ? `Edge preview serves version ${item.previewVersion} but master has version ${item.latestVersion}`
+          : `Edge preview does not have this item but master has version ${item.latestVersion}`
+      };
+    case 'Approved, Not Published':
+      return {
+        status,
+        colorScheme: 'cyan',
+        icon: CheckCircleIcon,
+        description: item.isPublished
+          ? `Version ${item.latestVersion} is approved but Edge still serves version ${item.publishedVersion}`
+          : `Version ${item.latestVersion} is approved but has not been published`
+      };
+    case 'Not Published':
+      return {
+        status,
         colorScheme: 'red',
         icon: XCircleIcon,
         description: 'This item has not been published to the live environment'
       };
-    }
-
-    if (item.isOutdated) {
+    case 'Outdated':
       return {
-        status: 'Outdated',
+        status,
         colorScheme: 'orange',
         icon: WarningIcon,
         description: `Published version (${item.publishedVersion}) is behind latest version (${item.latestVersion})`
       };
-    }
-
-    return {
-      status: 'Up-to-date',
-      colorScheme: 'green',
-      icon: CheckCircleIcon,
-      description: `Published version (${item.publishedVersion}) matches latest version (${item.latestVersion})`
-    };
-  };
+    case 'Up-to-date':
+      return {
+        status,
+        colorScheme: 'green',
+        icon: CheckCircleIcon,
+        description: `Published version (${item.publishedVersion}) matches latest version (${item.latestVersion})`
+      };
+  }
+};
 
-  const statusConfig = getStatusConfig();
+interface PublishingStatusIndicatorProps {
+  item: ProcessedItemInfo;
+  showDetails?: boolean;
+  size?: 'sm' | 'md' | 'lg';
+  /** Shown next to the badge when the item is awaiting approval (e.g. a workflow commands menu) */
+  workflowActions?: React.ReactNode;
+}
+
+export const PublishingStatusIndicator: React.FC<PublishingStatusIndicatorProps> = ({
+  item,
+  showDetails = false,
+  size = 'md',
+  workflowActions
+}) => {
+  const statusConfig = getStatusConfig(item);
 
   const StatusBadge = (
     <Badge
@@ -95,6 +136,17 @@ export const PublishingStatusIndicator: React.FC<PublishingStatusIndicatorProps>
     </Badge>
   );
 
+  if (workflowActions && isAwaitingApproval(item)) {
+    return (
+      <HStack spacing={2}>
+        <Tooltip label={statusConfig.description} placement="top">
+          {StatusBadge}
+        </Tooltip>
+        {workflowActions}
+      </HStack>
+    );
+  }
+
   if (!showDetails) {
     return (
       <Tooltip label={statusConfig.description} placement="top">
@@ -136,12 +188,15 @@ interface PublishingStatusSummaryProps {
 }
 
 export const PublishingStatusSummary: React.FC<PublishingStatusSummaryProps> = ({ items }) => {
+  const loadedItems = items.filter(item => !item.loadError);
   const summary = {
     total: items.length,
-    published: items.filter(item => item.isPublished).length,
-    unpublished: items.filter(item => !item.isPublished).length,
-    outdated: items.filter(item => item.isOutdated).length,
-    upToDate: items.filter(item => item.isPublished && !item.isOutdated).length
+    published: loadedItems.filter(item => item.isPublished).length,
+    unpublished: loadedItems.filter(item => !item.isPublished && !isAwaitingApproval(item)).length,
+    outdated: loadedItems.filter(item => item.isOutdated && !isAwaitingApproval(item)).length,
+    awaitingApproval: loadedItems.filter(item => isAwaitingApproval(item)).length,
+    upToDate: loadedItems.filter(item => item.isPublished && !item.isOutdated).length,
+    loadFailed: items.length - loadedItems.length
   };
 
   return (
@@ -170,6 +225,20 @@ export const PublishingStatusSummary: React.FC<PublishingStatusSummaryProps> = (
           {summary.unpublished} Not Published
         </Badge>
       )}
+
+      {summary.awaitingApproval > 0 && (
+        <Badge colorScheme="purple" size="lg">
+          <Icon as={TimeIcon} boxSize={3} mr={1} />
+          {summary.awaitingApproval} Awaiting Approval
+        </Badge>
+      )}
+
+      {summary.loadFailed > 0 && (
+        <Badge colorScheme="gray" size="lg">
+          <Icon as={WarningIcon} boxSize={3} mr={1} />
+          {summary.loadFailed} Load Failed
+        </Badge>
+      )}
     </HStack>
   );
 };
@@ -193,4 +262,60 @@ export const ItemTypeBadge: React.FC<ItemTypeBadgeProps> = ({
       {getItemTypeLabel(itemType)}
     </Badge>
   );
-};
\ No newline at end of file
+};
+
+// Component for a single cell of the language x item matrix
+interface LanguageStatusCellProps {
+  versionInfo?: LanguageVersionInfo;
+}
+
+export const LanguageStatusCell: React.FC<LanguageStatusCellProps> = ({ versionInfo }) => {
+  if (!versionInfo || versionInfo.latestVersion === 0) {
+    return (
+      <Tooltip label="This item has no version in this language" placement="top">
+        <Badge colorScheme="gray">No Version</Badge>
+      </Tooltip>
+    );
+  }
+
+  const statusConfig = getStatusConfig(versionInfo);
+
+  return (
+    <Tooltip label={statusConfig.description} placement="top">
+      <VStack align="start" spacing={1}>
+        <Badge
+          colorScheme={statusConfig.colorScheme}
+          display="flex"
+          alignItems="center"
+          gap={1}
+        >
+          <Icon as={statusConfig.icon} boxSize={3} />
+          {statusConfig.status}
+        </Badge>
+        <Text fontSize="xs" color="gray.600">
+          v{versionInfo.latestVersion} / {versionInfo.publishedVersion ? `v${versionInfo.publishedVersion}` : '—'}
+        </Text>
+      </VStack>
+    </Tooltip>
+  );
+};
+// Component for showing an item's workflow state
+interface WorkflowStateBadgeProps {
+  workflow?: WorkflowInfo;
+}
+
+export const WorkflowStateBadge: React.FC<WorkflowStateBadgeProps> = ({ workflow }) => {
+  if (!workflow) {
+    return (
+      <Text fontSize="xs" color="gray.400">No workflow</Text>
+    );
+  }
+
+  return (
+    <Tooltip label={`${workflow.workflowName}${workflow.isFinal ? ' (final state)' : ''}`} placement="top">
+      <Badge colorScheme={workflow.isFinal ? 'green' : 'yellow'} variant="subtle">
+        {workflow.stateName}
+      </Badge>
+    </Tooltip>
+  );
+};
@@ -0,0 +1,63 @@
+// components/ReferenceProvenanceList.tsx
+import React from 'react';
+import {
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Text
+} from '@chakra-ui/react';
+import type { ProcessedItemInfo, ReferenceProvenance } from '../types/itemInformation';
+import { formatGuidWithHyphens } from '../utils/dataProcessing';
+import { getReferenceSourceLabel, getProvenanceLocationLabel } from '../utils/itemTypeUtils';
+
+interface ReferenceProvenanceListProps {
+  provenance: ReferenceProvenance[];
+  /** Items on the page, used to show source item names instead of IDs */
+  items: ProcessedItemInfo[];
+}
+
+export const ReferenceProvenanceList: React.FC<ReferenceProvenanceListProps> = ({
+  provenance,
+  items
+}) => {
+  const getItemName = (itemId: string) =>
+    items.find(item => item.id === itemId)?.name || formatGuidWithHyphens(itemId);
+
+  if (provenance.length === 0) {
+    return (
+      <Text fontSize="xs" color="gray.500">
+        No usage details available for this item.
+      </Text>
+    );
+  }
+
+  return (
+    <Table size="sm" variant="unstyled">
+      <Thead>
+        <Tr>
+          <Th px={2}>Source</Th>
+          <Th px={2}>Used By</Th>
+          <Th px={2}>Field / Rendering</Th>
+          <Th px={2}>Placeholder</Th>
+          <Th px={2}>Device</Th>
+        </Tr>
+      </Thead>
+      <Tbody>
+        {provenance.map((record, index) => (
+          <Tr key={`${record.sourceItemId}-${record.renderingUid || record.fieldName || ''}-${index}`}>
+            <Td px={2} fontSize="xs">{getReferenceSourceLabel(record.source)}</Td>
+            <Td px={2} fontSize="xs">{record.sourceItemId ? getItemName(record.sourceItemId) : '—'}</Td>
+            <Td px={2} fontSize="xs" fontFamily={record.renderingUid ? 'mono' : undefined}>
+              {getProvenanceLocationLabel(record)}
+            </Td>
+            <Td px={2} fontSize="xs" fontFamily="mono">{record.placeholder || '—'}</Td>
+            <Td px={2} fontSize="xs">{record.device || '—'}</Td>
+          </Tr>
+        ))}
+      </Tbody>
+    </Table>
+  );
+};
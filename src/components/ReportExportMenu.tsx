@@ -0,0 +1,63 @@
+// components/ReportExportMenu.tsx
+import React from 'react';
+import {
+  Button,
+  Menu,
+  MenuButton,
+  MenuList,
+  MenuItem,
+  MenuGroup,
+  MenuDivider
+} from '@chakra-ui/react';
+import type { ItemInformationResponse } from '../types/itemInformation';
+import { REPORT_FORMATS, serializeReport } from '../utils/reportExport';
+import type { ReportFormat } from '../utils/reportExport';
+import { downloadTextFile, getFileTimestamp } from '../utils/fileDownload';
+
+const FORMATS = Object.keys(REPORT_FORMATS) as ReportFormat[];
+
+interface ReportExportMenuProps {
+  data: ItemInformationResponse;
+  /** Copy text to the clipboard */
+  onCopy: (text: string, description: string) => void;
+}
+
+/**
+ * Exports the publishing report for the page as a file or to the clipboard
+ */
+export const ReportExportMenu: React.FC<ReportExportMenuProps> = ({ data, onCopy }) => {
+  const handleDownload = (format: ReportFormat) => {
+    const { extension, mimeType } = REPORT_FORMATS[format];
+    const fileName = `publishing-status-${data.currentItem.name}-${getFileTimestamp()}.${extension}`.replace(/[^\w.-]+/g, '-');
+    downloadTextFile(serializeReport(data, format), fileName, mimeType);
+  };
+
+  const handleCopy = (format: ReportFormat) => {
+    onCopy(serializeReport(data, format), `${REPORT_FORMATS[format].label} Report`);
+  };
+
+  return (
+    <Menu isLazy>
+      <MenuButton as={Button} size="sm" variant="outline">
+        Export ▾
+      </MenuButton>
+      <MenuList fontSize="sm">
+        <MenuGroup title="Download">
+          {FORMATS.map(format => (
+            <MenuItem key={format} onClick={() => handleDownload(format)}>
+              {REPORT_FORMATS[format].label} (.{REPORT_FORMATS[format].extension})
+            </MenuItem>
+          ))}
+        </MenuGroup>
+        <MenuDivider />
+        <MenuGroup title="Copy to clipboard">
+          {FORMATS.map(format => (
+            <MenuItem key={format} onClick={() => handleCopy(format)}>
+              {REPORT_FORMATS[format].label}
+            </MenuItem>
+          ))}
+        </MenuGroup>
+      </MenuList>
+    </Menu>
+  );
+};
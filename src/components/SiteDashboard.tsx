@@ -0,0 +1,354 @@
+// components/SiteDashboard.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  AlertDescription,
+  Badge,
+  Box,
+  Button,
+  CloseButton,
+  Flex,
+  FormControl,
+  FormLabel,
+  Heading,
+  HStack,
+  Input,
+  Select,
+  Spacer,
+  Spinner,
+  Stat,
+  StatGroup,
+  StatLabel,
+  StatNumber,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  VStack
+} from '@chakra-ui/react';
+import { useSiteDashboard } from '../hooks/useSiteDashboard';
+import type { SiteDashboardScanOptions } from '../hooks/useSiteDashboard';
+import { PublishingStatusIndicator, ItemTypeBadge } from './PublishingStatusIndicator';
+import { DEFAULT_LANGUAGE, formatGuidWithHyphens, generateSummary } from '../utils/dataProcessing';
+import type { LanguageVersionInfo, ProcessedItemInfo } from '../types/itemInformation';
+
+type StatusFilter = 'attention' | 'outdated' | 'unpublished' | 'all';
+type RoleFilter = 'all' | 'pages' | 'dependencies';
+
+/** Rows rendered at first and added by each "Show more" */
+const PAGE_SIZE = 100;
+
+const matchesStatus = (item: ProcessedItemInfo, status: StatusFilter): boolean => {
+  switch (status) {
+    case 'attention':
+      return !item.isPublished || item.isOutdated;
+    case 'outdated':
+      return item.isOutdated;
+    case 'unpublished':
+      return !item.isPublished;
+    case 'all':
+      return true;
+  }
+};
+
+/**
+ * Unique, sorted, non-empty values of an item property, for filter options
+ */
+const getOptions = (items: ProcessedItemInfo[], getValue: (item: ProcessedItemInfo) => string | undefined): string[] => {
+  return Array.from(new Set(items.map(getValue).filter((value): value is string => !!value))).sort();
+};
+
+/**
+ * Languages entered as a comma-separated list, e.g. "en, nl-NL"
+ */
+const parseLanguages = (value: string): string[] => {
+  return Array.from(new Set(value.split(',').map(language => language.trim()).filter(Boolean)));
+};
+
+/**
+ * One row per checked language the item has a version in, with that language's version and status
+ */
+const toLanguageRows = (item: ProcessedItemInfo, languages: string[]): ProcessedItemInfo[] => {
+  const versions = languages
+    .map(language => item.languageVersions?.[language])
+    .filter((version): version is LanguageVersionInfo => !!version);
+  return versions.length > 0 ? versions.map(version => ({ ...item, ...version })) : [item];
+};
+
+interface SiteDashboardProps {
+  /** Target to scan as soon as the client is ready, e.g. when opened from the widget */
+  initialScan?: SiteDashboardScanOptions;
+}
+
+/**
+ * Site-wide publishing dashboard for the full-screen extension point
+ * Lists the pages under a content root and their dependencies that are outdated or unpublished
+ */
+export const SiteDashboard: React.FC<SiteDashboardProps> = ({ initialScan }) => {
+  const { data, loading, progress, error, isReady, scan } = useSiteDashboard();
+  const [rootPath, setRootPath] = useState(initialScan?.rootPath || '/sitecore/content');
+  const [selectedPageIds, setSelectedPageIds] = useState<string[]>(initialScan?.pageIds || []);
+  const [languageInput, setLanguageInput] = useState(
+    (initialScan?.languages || [initialScan?.language || DEFAULT_LANGUAGE]).join(', ')
+  );
+  const [pathFilter, setPathFilter] = useState('');
+  const [languageFilter, setLanguageFilter] = useState('');
+  const [templateFilter, setTemplateFilter] = useState('');
+  const [editorFilter, setEditorFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('attention');
+  const [roleFilter, setRoleFilter] = useState<RoleFilter>('all');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const initialScanStartedRef = useRef(false);
+
+  useEffect(() => {
+    if (isReady && initialScan && !initialScanStartedRef.current) {
+      initialScanStartedRef.current = true;
+      scan(initialScan);
+    }
+  }, [isReady, initialScan, scan]);
+
+  const items = useMemo(() => data?.items ?? [], [data]);
+  const pageIds = useMemo(() => new Set(data?.pageIds ?? []), [data]);
+  const itemNames = useMemo(() => new Map(items.map(item => [item.id, item.name])), [items]);
+  const rows = useMemo(() => items.flatMap(item => toLanguageRows(item, data?.languages ?? [])), [items, data]);
+
+  const filteredItems = useMemo(() => rows.filter(item =>
+    matchesStatus(item, statusFilter) &&
+    (roleFilter === 'all' || (roleFilter === 'pages') === pageIds.has(item.id)) &&
+    (!pathFilter || item.path.toLowerCase().includes(pathFilter.toLowerCase())) &&
+    (!languageFilter || item.language === languageFilter) &&
+    (!templateFilter || item.template === templateFilter) &&
+    (!editorFilter || item.updatedBy === editorFilter)
+  ), [rows, pageIds, statusFilter, roleFilter, pathFilter, languageFilter, templateFilter, editorFilter]);
+
+  const filteredSummary = generateSummary(filteredItems);
+
+  const handleScan = () => {
+    const languages = parseLanguages(languageInput);
+    setVisibleCount(PAGE_SIZE);
+    setLanguageFilter('');
+    scan({ rootPath: rootPath.trim(), pageIds: selectedPageIds, language: languages[0] || DEFAULT_LANGUAGE, languages });
+  };
+
+  /**
+   * Pages that use a dependency, from its provenance
+   */
+  const getUsedOnPages = (item: ProcessedItemInfo): string[] => {
+    return Array.from(new Set((item.provenance || [])
+      .map(record => record.sourceItemId)
+      .filter(id => pageIds.has(id))));
+  };
+
+  return (
+    <VStack spacing={6} align="stretch" p={6}>
+      <Flex align="end" gap={4} wrap="wrap">
+        <VStack align="start" spacing={1}>
+          <Heading size="lg">Site Publishing Dashboard</Heading>
+          <Text color="gray.600" fontSize="sm">
+            Publishing status of every page under a content root and the items it depends on
+          </Text>
+        </VStack>
+        <Spacer />
+        {selectedPageIds.length > 0 ? (
+          <HStack spacing={1}>
+            <Badge colorScheme="blue" fontSize="sm" px={2} py={1}>
+              {selectedPageIds.length} selected page{selectedPageIds.length !== 1 ? 's' : ''}
+            </Badge>
+            <CloseButton size="sm" onClick={() => setSelectedPageIds([])} aria-label="Scan a content root instead" />
+          </HStack>
+        ) : (
+          <FormControl width="auto">
+            <FormLabel fontSize="sm">Content root</FormLabel>
+            <Input size="sm" width="360px" value={rootPath} onChange={(e) => setRootPath(e.target.value)} />
+          </FormControl>
+        )}
+        <FormControl width="auto">
+          <FormLabel fontSize="sm">Languages</FormLabel>
+          <Input size="sm" width="160px" placeholder="en, nl-NL" value={languageInput} onChange={(e) => setLanguageInput(e.target.value)} />
+        </FormControl>
+        <Button size="sm" colorScheme="blue" onClick={handleScan} isLoading={loading} loadingText="Scanning">
+          {data ? 'Rescan' : 'Scan Site'}
+        </Button>
+      </Flex>
+
+      {loading && progress && (
+        <HStack spacing={2}>
+          <Spinner size="sm" color="blue.500" />
+          <Text fontSize="sm" color="gray.600">{progress}</Text>
+        </HStack>
+      )}
+
+      {error && (
+        <Alert status="error">
+          <AlertIcon />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {data && data.warnings.length > 0 && (
+        <Alert status="warning" alignItems="start">
+          <AlertIcon />
+          <VStack align="start" spacing={1}>
+            {data.warnings.map(warning => (
+              <AlertDescription key={warning} fontSize="sm">{warning}</AlertDescription>
+            ))}
+          </VStack>
+        </Alert>
+      )}
+
+      {!data && !loading && !error && (
+        <Text fontSize="sm" color="gray.500">
+          Enter the content root of a site (e.g. its Home item) and scan to list unpublished and outdated content.
+        </Text>
+      )}
+
+      {data && (
+        <>
+          <StatGroup borderWidth="1px" borderRadius="md" p={4}>
+            <Stat>
+              <StatLabel>Pages</StatLabel>
+              <StatNumber>{data.pageIds.length}</StatNumber>
+            </Stat>
+            <Stat>
+              <StatLabel>Items Checked</StatLabel>
+              <StatNumber>{data.summary.totalItems}</StatNumber>
+            </Stat>
+            <Stat>
+              <StatLabel>Published</StatLabel>
+              <StatNumber color="green.500">{data.summary.publishedItems}</StatNumber>
+            </Stat>
+            <Stat>
+              <StatLabel>Not Published</StatLabel>
+              <StatNumber color="red.500">{data.summary.unpublishedItems}</StatNumber>
+            </Stat>
+            <Stat>
+              <StatLabel>Outdated</StatLabel>
+              <StatNumber color="orange.500">{data.summary.outdatedItems}</StatNumber>
+            </Stat>
+          </StatGroup>
+
+          {/* Filters */}
+          <HStack spacing={3} wrap="wrap">
+            <Input
+              size="sm"
+              width="240px"
+              placeholder="Filter by path"
+              value={pathFilter}
+              onChange={(e) => setPathFilter(e.target.value)}
+            />
+            <Select size="sm" width="auto" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as StatusFilter)} aria-label="Filter by status">
+              <option value="attention">Outdated or unpublished</option>
+              <option value="outdated">Outdated</option>
+              <option value="unpublished">Not published</option>
+              <option value="all">All statuses</option>
+            </Select>
+            <Select size="sm" width="auto" value={roleFilter} onChange={(e) => setRoleFilter(e.target.value as RoleFilter)} aria-label="Filter by role">
+              <option value="all">Pages and dependencies</option>
+              <option value="pages">Pages only</option>
+              <option value="dependencies">Dependencies only</option>
+            </Select>
+            <Select size="sm" width="auto" value={languageFilter} onChange={(e) => setLanguageFilter(e.target.value)} aria-label="Filter by language">
+              <option value="">All languages</option>
+              {data.languages.map(scannedLanguage => (
+                <option key={scannedLanguage} value={scannedLanguage}>{scannedLanguage}</option>
+              ))}
+            </Select>
+            <Select size="sm" width="auto" value={templateFilter} onChange={(e) => setTemplateFilter(e.target.value)} aria-label="Filter by template">
+              <option value="">All templates</option>
+              {getOptions(items, item => item.template).map(template => (
+                <option key={template} value={template}>{template}</option>
+              ))}
+            </Select>
+            <Select size="sm" width="auto" value={editorFilter} onChange={(e) => setEditorFilter(e.target.value)} aria-label="Filter by last editor">
+              <option value="">All editors</option>
+              {getOptions(rows, item => item.updatedBy).map(editor => (
+                <option key={editor} value={editor}>{editor}</option>
+              ))}
+            </Select>
+            <Spacer />
+            <Text fontSize="sm" color="gray.600">
+              {filteredSummary.totalItems} shown: {filteredSummary.unpublishedItems} not published, {filteredSummary.outdatedItems} outdated
+            </Text>
+          </HStack>
+
+          <Box overflowX="auto">
+            <Table size="sm" variant="simple">
+              <Thead>
+                <Tr>
+                  <Th>Item</Th>
+                  <Th>Language</Th>
+                  <Th>Role</Th>
+                  <Th>Template</Th>
+                  <Th>Latest</Th>
+                  <Th>Published</Th>
+                  <Th>Status</Th>
+                  <Th>Last Edited</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {filteredItems.slice(0, visibleCount).map(item => {
+                  const usedOn = getUsedOnPages(item);
+
+                  return (
+                    <Tr key={`${item.id}:${item.language}`}>
+                      <Td>
+                        <VStack align="start" spacing={0}>
+                          <Text fontWeight="medium" fontSize="sm">{item.name}</Text>
+                          <Text fontSize="xs" color="gray.500">{item.path}</Text>
+                          <Text fontSize="xs" fontFamily="mono" color="blue.600">{formatGuidWithHyphens(item.id)}</Text>
+                        </VStack>
+                      </Td>
+                      <Td fontSize="xs">{item.language || '—'}</Td>
+                      <Td>
+                        {pageIds.has(item.id) ? (
+                          <Badge colorScheme="blue">Page</Badge>
+                        ) : (
+                          <VStack align="start" spacing={1}>
+                            <ItemTypeBadge itemType={item.itemType} size="sm" />
+                            {usedOn.length > 0 && (
+                              <Text fontSize="xs" color="gray.500" title={usedOn.map(id => itemNames.get(id) || id).join(', ')}>
+                                Used on {usedOn.length === 1 ? itemNames.get(usedOn[0]) : `${usedOn.length} pages`}
+                              </Text>
+                            )}
+                          </VStack>
+                        )}
+                      </Td>
+                      <Td fontSize="xs">{item.template || '—'}</Td>
+                      <Td>v{item.latestVersion}</Td>
+                      <Td>{item.publishedVersion ? `v${item.publishedVersion}` : '—'}</Td>
+                      <Td>
+                        <PublishingStatusIndicator item={item} showDetails={false} size="sm" />
+                      </Td>
+                      <Td fontSize="xs">
+                        <Text>{item.updatedBy || '—'}</Text>
+                        {item.updatedAt && (
+                          <Text color="gray.500">{new Date(item.updatedAt).toLocaleString()}</Text>
+                        )}
+                      </Td>
+                    </Tr>
+                  );
+                })}
+              </Tbody>
+            </Table>
+          </Box>
+
+          {filteredItems.length === 0 && (
+            <Text fontSize="sm" color="gray.500">No items match the current filters.</Text>
+          )}
+          {filteredItems.length > visibleCount && (
+            <Button size="sm" variant="outline" alignSelf="center" onClick={() => setVisibleCount(count => count + PAGE_SIZE)}>
+              Show more ({filteredItems.length - visibleCount} remaining)
+            </Button>
+          )}
+          <Text fontSize="xs" color="gray.400">
+            Scanned {new Date(data.scannedAt).toLocaleString()}
+          </Text>
+        </>
+      )}
+    </VStack>
+  );
+};
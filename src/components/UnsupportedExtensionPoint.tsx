@@ -0,0 +1,55 @@
+// components/UnsupportedExtensionPoint.tsx
+import React from 'react';
+import {
+  Alert,
+  AlertIcon,
+  AlertDescription,
+  AlertTitle,
+  Code,
+  List,
+  ListItem,
+  Text,
+  VStack
+} from '@chakra-ui/react';
+import { EXTENSION_POINTS } from '../utils/extensionPoints';
+
+interface UnsupportedExtensionPointProps {
+  /** Hosting extension point, when it could be identified */
+  extensionPointId: string | null;
+}
+
+/**
+ * Fallback for hosts the app has no view for, listing where it can be used instead
+ */
+export const UnsupportedExtensionPoint: React.FC<UnsupportedExtensionPointProps> = ({ extensionPointId }) => {
+  const hostLabel = extensionPointId
+    ? EXTENSION_POINTS[extensionPointId]?.label || extensionPointId
+    : 'this location';
+
+  return (
+    <VStack align="stretch" spacing={4} p={4}>
+      <Alert status="info" alignItems="start">
+        <AlertIcon />
+        <VStack align="start" spacing={1}>
+          <AlertTitle>Publishing Status isn't available in {hostLabel}</AlertTitle>
+          <AlertDescription fontSize="sm">
+            Add the app to one of the supported extension points below.
+          </AlertDescription>
+        </VStack>
+      </Alert>
+      <List spacing={3}>
+        {Object.entries(EXTENSION_POINTS)
+          .filter(([, info]) => info.view)
+          .map(([id, info]) => (
+            <ListItem key={id}>
+              <Text fontWeight="medium" fontSize="sm">{info.label} <Code fontSize="xs">{id}</Code></Text>
+              <Text fontSize="sm" color="gray.600">{info.description}</Text>
+            </ListItem>
+          ))}
+      </List>
+      <Text fontSize="xs" color="gray.500">
+        When several extension points share the app URL, add <Code fontSize="xs">?view=panel</Code>, <Code fontSize="xs">?view=dashboard</Code> or <Code fontSize="xs">?view=widget</Code> to each one's URL.
+      </Text>
+    </VStack>
+  );
+};
@@ -0,0 +1,153 @@
+// components/VersionTimeline.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  Flex,
+  HStack,
+  Spinner,
+  Text,
+  VStack
+} from '@chakra-ui/react';
+import { useVersionHistory } from '../hooks/useVersionHistory';
+import { useFieldDiff } from '../hooks/useFieldDiff';
+import { FieldDiffView } from './FieldDiffView';
+import type { ProcessedItemInfo, ItemVersionInfo } from '../types/itemInformation';
+
+/**
+ * Format an ISO timestamp for display in the user's locale
+ */
+const formatDate = (value?: string): string => {
+  return value ? new Date(value).toLocaleString() : 'Unknown date';
+};
+
+interface VersionTimelineProps {
+  item: ProcessedItemInfo;
+}
+
+export const VersionTimeline: React.FC<VersionTimelineProps> = ({ item }) => {
+  const { versions, loading, error, load } = useVersionHistory();
+  const diff = useFieldDiff();
+  // Up to two versions picked for comparison, in the order they were picked
+  const [selectedVersions, setSelectedVersions] = useState<number[]>([]);
+
+  useEffect(() => {
+    load(item);
+  }, [item, load]);
+
+  const toggleVersion = (version: number, isSelected: boolean) => {
+    setSelectedVersions(prev => isSelected
+      ? [...prev.filter(v => v !== version), version].slice(-2)
+      : prev.filter(v => v !== version));
+  };
+
+  const handleCompare = () => {
+    const [older, newer] = [...selectedVersions].sort((a, b) => a - b);
+    diff.compare(item, older, newer);
+  };
+
+  const renderVersion = (versionInfo: ItemVersionInfo) => {
+    const isLatest = versionInfo.version === item.latestVersion;
+    const isOnEdge = versionInfo.version === item.publishedVersion;
+
+    return (
+      <Flex key={versionInfo.version} align="flex-start" gap={3}>
+        {/* Timeline marker */}
+        <VStack spacing={0} pt={1}>
+          <Box
+            boxSize="10px"
+            borderRadius="full"
+            bg={isOnEdge ? 'green.400' : isLatest ? 'blue.400' : 'gray.300'}
+          />
+          <Box w="2px" h="36px" bg="gray.200" />
+        </VStack>
+        <Checkbox
+          mt="2px"
+          isChecked={selectedVersions.includes(versionInfo.version)}
+          onChange={(e) => toggleVersion(versionInfo.version, e.target.checked)}
+          aria-label={`Select version ${versionInfo.version} to compare`}
+        />
+        <VStack align="start" spacing={0} flex={1}>
+          <HStack spacing={2}>
+            <Text fontWeight="semibold" fontSize="sm">v{versionInfo.version}</Text>
+            {isLatest && <Badge colorScheme="blue">Latest</Badge>}
+            {isOnEdge && <Badge colorScheme="green">On Edge</Badge>}
+            {versionInfo.workflowState && (
+              <Badge colorScheme={versionInfo.isFinalState ? 'green' : 'yellow'} variant="subtle">
+                {versionInfo.workflowState}
+              </Badge>
+            )}
+          </HStack>
+          <Text fontSize="xs" color="gray.600">
+            Updated {formatDate(versionInfo.updatedAt)}{versionInfo.updatedBy ? ` by ${versionInfo.updatedBy}` : ''}
+          </Text>
+          <Text fontSize="xs" color="gray.400">
+            Created {formatDate(versionInfo.createdAt)}{versionInfo.createdBy ? ` by ${versionInfo.createdBy}` : ''}
+          </Text>
+        </VStack>
+      </Flex>
+    );
+  };
+
+  if (loading) {
+    return (
+      <HStack spacing={2} py={2}>
+        <Spinner size="sm" />
+        <Text fontSize="sm" color="gray.600">Loading version history...</Text>
+      </HStack>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert status="error" size="sm">
+        <AlertIcon />
+        {error}
+      </Alert>
+    );
+  }
+
+  return (
+    <VStack align="stretch" spacing={3}>
+      <Flex align="center" justify="space-between">
+        <Text fontSize="sm" fontWeight="semibold">
+          Version History ({versions.length})
+        </Text>
+        <Button
+          size="xs"
+          colorScheme="blue"
+          variant="outline"
+          isDisabled={selectedVersions.length !== 2}
+          isLoading={diff.loading}
+          onClick={handleCompare}
+        >
+          Compare Selected
+        </Button>
+      </Flex>
+
+      {versions.length === 0 ? (
+        <Text fontSize="sm" color="gray.500">No versions found in this language.</Text>
+      ) : (
+        <Box>{versions.map(renderVersion)}</Box>
+      )}
+
+      {diff.error && (
+        <Alert status="error">
+          <AlertIcon />
+          {diff.error}
+        </Alert>
+      )}
+      {diff.result && !diff.loading && (
+        <FieldDiffView
+          changes={diff.result.changes}
+          fromLabel={diff.result.fromLabel}
+          toLabel={diff.result.toLabel}
+        />
+      )}
+    </VStack>
+  );
+};
@@ -0,0 +1,83 @@
+// components/WorkflowCommandsMenu.tsx
+import React, { useState } from 'react';
+import {
+  Button,
+  Menu,
+  MenuButton,
+  MenuList,
+  MenuItem,
+  Spinner,
+  Text
+} from '@chakra-ui/react';
+import type { ProcessedItemInfo, WorkflowCommand } from '../types/itemInformation';
+
+interface WorkflowCommandsMenuProps {
+  item: ProcessedItemInfo;
+  /** Load the commands the current user can execute in the item's workflow state */
+  onLoadCommands: (item: ProcessedItemInfo) => Promise<WorkflowCommand[]>;
+  onExecute: (item: ProcessedItemInfo, command: WorkflowCommand) => void;
+  isExecuting?: boolean;
+}
+
+export const WorkflowCommandsMenu: React.FC<WorkflowCommandsMenuProps> = ({
+  item,
+  onLoadCommands,
+  onExecute,
+  isExecuting = false
+}) => {
+  const [commands, setCommands] = useState<WorkflowCommand[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Commands are loaded when the menu is first opened
+  const handleOpen = async () => {
+    if (commands !== null) {
+      return;
+    }
+    try {
+      setLoadError(null);
+      setCommands(await onLoadCommands(item));
+    } catch (error) {
+      console.error(`❌ Error loading workflow commands for ${item.id}:`, error);
+      setLoadError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <Menu isLazy onOpen={handleOpen}>
+      <MenuButton
+        as={Button}
+        size="xs"
+        variant="outline"
+        colorScheme="purple"
+        isLoading={isExecuting}
+        loadingText="Updating"
+      >
+        Workflow ▾
+      </MenuButton>
+      <MenuList fontSize="sm">
+        {loadError ? (
+          <Text px={3} py={1} fontSize="xs" color="red.500">{loadError}</Text>
+        ) : commands === null ? (
+          <Text px={3} py={1} fontSize="xs" color="gray.500">
+            <Spinner size="xs" mr={2} />
+            Loading commands...
+          </Text>
+        ) : commands.length === 0 ? (
+          <Text px={3} py={1} fontSize="xs" color="gray.500">
+            No commands available to you in "{item.workflow?.stateName}"
+          </Text>
+        ) : (
+          commands.map(command => (
+            <MenuItem key={command.commandId} onClick={() => {
+              // The item moves to a new state, so its commands change
+              setCommands(null);
+              onExecute(item, command);
+            }}>
+              {command.displayName}
+            </MenuItem>
+          ))
+        )}
+      </MenuList>
+    </Menu>
+  );
+};
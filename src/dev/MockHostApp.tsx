@@ -0,0 +1,205 @@
+// dev/MockHostApp.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Code,
+  Flex,
+  FormControl,
+  FormLabel,
+  Heading,
+  HStack,
+  NumberInput,
+  NumberInputField,
+  Select,
+  Text,
+  VStack
+} from '@chakra-ui/react';
+import { createMockContent, MOCK_EDGE_PATH } from './mockContent';
+import type { MockFixture } from './mockContent';
+import { startMockHost, MOCK_EXTENSION_POINTS } from './mockHost';
+
+const fixtures = Object.values(import.meta.glob<MockFixture>('./fixtures/*.json', { eager: true, import: 'default' }));
+
+/** GraphQL requests kept in the log */
+const MAX_LOG_ENTRIES = 30;
+
+/** Frame size per extension point, roughly as XM Cloud lays them out */
+const FRAME_SIZES: Record<string, { width: string; height: string }> = {
+  'xmc:pages:contextpanel': { width: '420px', height: '760px' },
+  'xmc:dashboardblocks': { width: '380px', height: '320px' },
+  'xmc:pages:customfield': { width: '420px', height: '240px' }
+};
+
+interface LogEntry {
+  id: number;
+  endpoint: string;
+  operation: string;
+  errors: number;
+}
+
+/**
+ * Local stand-in for XM Cloud that hosts the app in an iframe
+ * Serves pages.context, application.context and the XMC GraphQL endpoints from fixture pages
+ */
+export const MockHostApp: React.FC = () => {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [extensionPointId, setExtensionPointId] = useState(MOCK_EXTENSION_POINTS[0].extensionPointId);
+  const [fixtureIndex, setFixtureIndex] = useState(0);
+  const [language, setLanguage] = useState(fixtures[0]?.site.languages[0] || 'en');
+  const [edgeDelaySeconds, setEdgeDelaySeconds] = useState(5);
+  const [frameKey, setFrameKey] = useState(0);
+  const [log, setLog] = useState<LogEntry[]>([]);
+  const [lastAction, setLastAction] = useState<string | null>(null);
+
+  // The host reads these on every request, so they live in refs as well as state
+  const pageRef = useRef({ pageId: fixtures[0]?.pageId || '', language });
+  const edgeDelayRef = useRef(edgeDelaySeconds);
+  edgeDelayRef.current = edgeDelaySeconds;
+  const hostRef = useRef<ReturnType<typeof startMockHost> | null>(null);
+  const logIdRef = useRef(0);
+
+  const content = useMemo(() => createMockContent(fixtures, {
+    onPublish: (targets) => {
+      fetch(`${MOCK_EDGE_PATH}/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targets, delayMs: edgeDelayRef.current * 1000 })
+      }).catch(error => console.error('❌ Mock Edge publish failed:', error));
+    }
+  }), []);
+
+  const fixture = fixtures[fixtureIndex];
+  const extensionPoint = MOCK_EXTENSION_POINTS.find(entry => entry.extensionPointId === extensionPointId)!;
+  const frameSize = FRAME_SIZES[extensionPointId] || { width: '100%', height: '820px' };
+
+  useEffect(() => {
+    const iframe = iframeRef.current;
+    if (!iframe) {
+      return;
+    }
+
+    const host = startMockHost(iframe, {
+      content,
+      getPagesContext: () => content.getPagesContext(pageRef.current.pageId, pageRef.current.language),
+      onRequest: ({ endpoint, query, response }) => {
+        const operation = /(query|mutation)\s+(\w+)/.exec(query)?.[2] || 'anonymous';
+        setLog(entries => [
+          { id: ++logIdRef.current, endpoint, operation, errors: response.errors?.length || 0 },
+          ...entries
+        ].slice(0, MAX_LOG_ENTRIES));
+      }
+    });
+    hostRef.current = host;
+
+    return () => {
+      host.destroy();
+      hostRef.current = null;
+    };
+  }, [content, extensionPointId, frameKey]);
+
+  const navigate = (index: number, nextLanguage: string) => {
+    setFixtureIndex(index);
+    setLanguage(nextLanguage);
+    pageRef.current = { pageId: fixtures[index].pageId, language: nextLanguage };
+    hostRef.current?.emitPagesContext();
+  };
+
+  const handleSavePage = () => {
+    const version = content.editItem(pageRef.current.pageId, pageRef.current.language, 'sitecore\\mock-editor');
+    setLastAction(version ? `Saved ${fixture.name} as version ${version.version}` : 'The page has no version in this language');
+    hostRef.current?.emitPagesContext();
+  };
+
+  const handleResetEdge = async () => {
+    await fetch(`${MOCK_EDGE_PATH}/reset`, { method: 'POST' });
+    setLastAction('Edge reset to the fixture state');
+    setFrameKey(key => key + 1);
+  };
+
+  if (fixtures.length === 0) {
+    return <Text p={6}>No fixture pages found in src/dev/fixtures.</Text>;
+  }
+
+  return (
+    <Flex direction="column" minH="100vh" bg="gray.50">
+      <Flex as="header" align="end" gap={4} p={4} bg="white" borderBottomWidth="1px" wrap="wrap">
+        <VStack align="start" spacing={0}>
+          <Heading size="md">Mock XM Cloud host</Heading>
+          <Text fontSize="xs" color="gray.500">Local fixtures, no Cloud Portal required</Text>
+        </VStack>
+        <FormControl width="auto">
+          <FormLabel fontSize="xs">Extension point</FormLabel>
+          <Select size="sm" value={extensionPointId} onChange={(e) => setExtensionPointId(e.target.value)}>
+            {MOCK_EXTENSION_POINTS.map(entry => (
+              <option key={entry.extensionPointId} value={entry.extensionPointId}>{entry.label}</option>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl width="auto">
+          <FormLabel fontSize="xs">Page</FormLabel>
+          <Select size="sm" value={fixtureIndex} onChange={(e) => navigate(Number(e.target.value), language)}>
+            {fixtures.map((entry, index) => (
+              <option key={entry.pageId} value={index}>{entry.name}</option>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl width="auto">
+          <FormLabel fontSize="xs">Language</FormLabel>
+          <Select size="sm" value={language} onChange={(e) => navigate(fixtureIndex, e.target.value)}>
+            {fixture.site.languages.map(entry => (
+              <option key={entry} value={entry}>{entry}</option>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl width="auto">
+          <FormLabel fontSize="xs">Edge delay (s)</FormLabel>
+          <NumberInput size="sm" width="90px" min={0} value={edgeDelaySeconds} onChange={(_, value) => setEdgeDelaySeconds(isNaN(value) ? 0 : value)}>
+            <NumberInputField />
+          </NumberInput>
+        </FormControl>
+        <HStack spacing={2}>
+          <Button size="sm" onClick={handleSavePage}>Save page</Button>
+          <Button size="sm" variant="outline" onClick={() => setFrameKey(key => key + 1)}>Reload app</Button>
+          <Button size="sm" variant="outline" colorScheme="red" onClick={handleResetEdge}>Reset Edge</Button>
+        </HStack>
+      </Flex>
+
+      <Flex flex="1" gap={4} p={4} align="start">
+        <VStack align="stretch" spacing={2} flex={frameSize.width === '100%' ? 1 : undefined}>
+          <Text fontSize="xs" color="gray.500">
+            {fixture.description}
+          </Text>
+          <Box
+            as="iframe"
+            key={`${extensionPointId}-${frameKey}`}
+            ref={iframeRef}
+            src={`${extensionPoint.route}?mockHost=1`}
+            title="App under test"
+            width={frameSize.width}
+            height={frameSize.height}
+            bg="white"
+            borderWidth="1px"
+            borderRadius="md"
+          />
+          {lastAction && <Text fontSize="xs" color="gray.600">{lastAction}</Text>}
+        </VStack>
+
+        <VStack align="stretch" spacing={1} width="320px" flexShrink={0}>
+          <Text fontSize="sm" fontWeight="semibold">GraphQL requests</Text>
+          {log.length === 0 && <Text fontSize="xs" color="gray.500">No requests yet</Text>}
+          {log.map(entry => (
+            <HStack key={entry.id} spacing={2} fontSize="xs">
+              <Badge colorScheme={entry.endpoint === 'Live' ? 'green' : entry.endpoint === 'Preview' ? 'purple' : 'blue'}>
+                {entry.endpoint}
+              </Badge>
+              <Code fontSize="xs" bg="transparent">{entry.operation}</Code>
+              {entry.errors > 0 && <Badge colorScheme="red">{entry.errors} error(s)</Badge>}
+            </HStack>
+          ))}
+        </VStack>
+      </Flex>
+    </Flex>
+  );
+};
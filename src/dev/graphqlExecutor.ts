@@ -0,0 +1,234 @@
+// dev/graphqlExecutor.ts
+
+/**
+ * Minimal GraphQL executor for the local mock host
+ * Supports what the app sends: one query or mutation with aliases, nested selections and
+ * literal arguments (strings, numbers, booleans, enums, lists and objects). Variables and
+ * fragments are not supported.
+ */
+
+export type GraphQLValue = string | number | boolean | null | GraphQLValue[] | { [key: string]: GraphQLValue };
+
+export type GraphQLArgs = Record<string, GraphQLValue>;
+
+/**
+ * A resolved object: each field is a value, or a function of the field arguments
+ */
+export type ResolverObject = { [field: string]: unknown };
+
+interface FieldNode {
+  alias?: string;
+  name: string;
+  args: GraphQLArgs;
+  selections?: FieldNode[];
+}
+
+export interface GraphQLResponse {
+  data: Record<string, unknown> | null;
+  errors?: Array<{ message: string }>;
+}
+
+type Token = { kind: 'punctuator' | 'name' | 'string' | 'number'; value: string };
+
+const PUNCTUATORS = '{}()[]:!$=@';
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/[\s,]/.test(char)) {
+      index++;
+    } else if (char === '#') {
+      while (index < source.length && source[index] !== '\n') {
+        index++;
+      }
+    } else if (PUNCTUATORS.includes(char)) {
+      tokens.push({ kind: 'punctuator', value: char });
+      index++;
+    } else if (char === '"') {
+      let end = index + 1;
+      while (end < source.length && source[end] !== '"') {
+        end += source[end] === '\\' ? 2 : 1;
+      }
+      // GraphQL string escapes are a subset of JSON's
+      tokens.push({ kind: 'string', value: JSON.parse(source.slice(index, end + 1)) as string });
+      index = end + 1;
+    } else if (/[-\d]/.test(char)) {
+      const match = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(index));
+      if (!match) {
+        throw new Error(`Unexpected character "${char}" at ${index}`);
+      }
+      tokens.push({ kind: 'number', value: match[0] });
+      index += match[0].length;
+    } else if (/[_A-Za-z]/.test(char)) {
+      const match = /^[_A-Za-z][_0-9A-Za-z]*/.exec(source.slice(index))!;
+      tokens.push({ kind: 'name', value: match[0] });
+      index += match[0].length;
+    } else if (source.startsWith('...', index)) {
+      throw new Error('Fragments are not supported by the mock GraphQL executor');
+    } else {
+      throw new Error(`Unexpected character "${char}" at ${index}`);
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse the first operation of a document into its type and selections
+ */
+export const parseOperation = (source: string): { operation: 'query' | 'mutation'; selections: FieldNode[] } => {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new Error('Unexpected end of document');
+    }
+    return token;
+  };
+  const expect = (value: string) => {
+    const token = next();
+    if (token.value !== value) {
+      throw new Error(`Expected "${value}" but found "${token.value}"`);
+    }
+  };
+
+  const parseValue = (): GraphQLValue => {
+    const token = next();
+    if (token.kind === 'string') {
+      return token.value;
+    }
+    if (token.kind === 'number') {
+      return Number(token.value);
+    }
+    if (token.kind === 'name') {
+      if (token.value === 'true' || token.value === 'false') {
+        return token.value === 'true';
+      }
+      // Enum values are passed on as their name
+      return token.value === 'null' ? null : token.value;
+    }
+    if (token.value === '[') {
+      const list: GraphQLValue[] = [];
+      while (peek()?.value !== ']') {
+        list.push(parseValue());
+      }
+      expect(']');
+      return list;
+    }
+    if (token.value === '{') {
+      const object: Record<string, GraphQLValue> = {};
+      while (peek()?.value !== '}') {
+        const key = next().value;
+        expect(':');
+        object[key] = parseValue();
+      }
+      expect('}');
+      return object;
+    }
+    if (token.value === '$') {
+      throw new Error('Variables are not supported by the mock GraphQL executor');
+    }
+    throw new Error(`Unexpected "${token.value}" in value`);
+  };
+
+  const parseSelections = (): FieldNode[] => {
+    expect('{');
+    const selections: FieldNode[] = [];
+    while (peek()?.value !== '}') {
+      let name = next().value;
+      let alias: string | undefined;
+      if (peek()?.value === ':') {
+        next();
+        alias = name;
+        name = next().value;
+      }
+
+      const args: GraphQLArgs = {};
+      if (peek()?.value === '(') {
+        next();
+        while (peek()?.value !== ')') {
+          const argName = next().value;
+          expect(':');
+          args[argName] = parseValue();
+        }
+        expect(')');
+      }
+
+      selections.push({
+        alias,
+        name,
+        args,
+        selections: peek()?.value === '{' ? parseSelections() : undefined
+      });
+    }
+    expect('}');
+    return selections;
+  };
+
+  let operation: 'query' | 'mutation' = 'query';
+  if (peek()?.kind === 'name') {
+    const keyword = next().value;
+    if (keyword !== 'query' && keyword !== 'mutation') {
+      throw new Error(`Unsupported operation "${keyword}"`);
+    }
+    operation = keyword;
+    if (peek()?.kind === 'name') {
+      next();
+    }
+  }
+
+  return { operation, selections: parseSelections() };
+};
+
+const resolveSelections = (source: unknown, selections: FieldNode[]): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  const object = source as ResolverObject;
+
+  selections.forEach(selection => {
+    const raw = object[selection.name];
+    const value = typeof raw === 'function' ? raw(selection.args) : raw;
+    result[selection.alias || selection.name] = completeValue(value, selection);
+  });
+
+  return result;
+};
+
+const completeValue = (value: unknown, selection: FieldNode): unknown => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => completeValue(entry, selection));
+  }
+  if (selection.selections) {
+    return resolveSelections(value, selection.selections);
+  }
+  return value;
+};
+
+/**
+ * Execute a query or mutation against root resolver objects
+ * Resolver errors are reported in `errors` like a GraphQL server would
+ */
+export const executeGraphQL = (
+  source: string,
+  roots: { query: ResolverObject; mutation?: ResolverObject }
+): GraphQLResponse => {
+  try {
+    const { operation, selections } = parseOperation(source);
+    const root = operation === 'mutation' ? roots.mutation : roots.query;
+    if (!root) {
+      throw new Error(`This endpoint does not support ${operation} operations`);
+    }
+    return { data: resolveSelections(root, selections) };
+  } catch (error) {
+    return { data: null, errors: [{ message: error instanceof Error ? error.message : String(error) }] };
+  }
+};
@@ -0,0 +1,520 @@
+// dev/mockContent.ts
+import { formatGuidWithHyphens, formatGuidWithoutHyphens, isMediaItemPath } from '../utils/dataProcessing';
+import { parsePresentationDetails } from '../utils/layoutParser';
+import type { GraphQLArgs, GraphQLValue, ResolverObject } from './graphqlExecutor';
+
+/**
+ * One version of a mock item in one language
+ */
+export interface MockVersion {
+  version: number;
+  /** Sitecore date, e.g. 20250131T153000Z */
+  updated?: string;
+  updatedBy?: string;
+  created?: string;
+  createdBy?: string;
+  workflowStateId?: string;
+  /** Field values by field name */
+  fields: Record<string, string>;
+}
+
+export interface MockItemLanguage {
+  versions: MockVersion[];
+  /** Version served by Experience Edge; absent when not published */
+  published?: number;
+  /** Version served by the preview endpoint; defaults to the latest version */
+  preview?: number;
+}
+
+export interface MockItem {
+  itemId: string;
+  name: string;
+  path: string;
+  template: {
+    templateId: string;
+    name: string;
+  };
+  workflowId?: string;
+  /** Field types by field name, for fields that hold references (e.g. Image, Multilist) */
+  fieldTypes?: Record<string, string>;
+  /** Pages only: layout in the JSON shape Pages sends in pages.context */
+  presentationDetails?: {
+    devices: Array<{
+      id: string;
+      layoutId?: string;
+      placeholders?: unknown[];
+      renderings: Array<{
+        id: string;
+        instanceId: string;
+        placeholderKey: string;
+        dataSource?: string;
+        parameters?: Record<string, string>;
+      }>;
+    }>;
+  };
+  languages: Record<string, MockItemLanguage>;
+}
+
+export interface MockWorkflow {
+  workflowId: string;
+  displayName: string;
+  states: Array<{
+    stateId: string;
+    displayName: string;
+    final: boolean;
+    commands: Array<{
+      commandId: string;
+      displayName: string;
+      nextStateId: string;
+    }>;
+  }>;
+}
+
+/**
+ * A fixture page: the page a Pages editor would open and the items it depends on
+ */
+export interface MockFixture {
+  name: string;
+  description: string;
+  site: {
+    name: string;
+    languages: string[];
+  };
+  /** Item opened in the mock Pages editor */
+  pageId: string;
+  workflows?: MockWorkflow[];
+  items: MockItem[];
+}
+
+/**
+ * An item version to be served by Experience Edge
+ */
+export interface PublishTarget {
+  itemId: string;
+  language: string;
+  version: number;
+  /** Copy of the version, as Edge may not have seen versions created since it loaded the fixtures */
+  content: MockVersion;
+}
+
+export interface MockContentOptions {
+  /** Called when a publish job starts, with the versions it sends to Edge */
+  onPublish?: (targets: PublishTarget[]) => void;
+  /** How long a mock publish job runs */
+  publishDurationMs?: number;
+}
+
+const PUBLISH_DURATION_MS = 1500;
+
+/** Path the dev server serves the local Experience Edge stand-in on */
+export const MOCK_EDGE_PATH = '/__mock-edge';
+
+/**
+ * Convert a date to the Sitecore date format, e.g. 20250131T153000Z
+ */
+export const toSitecoreDate = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+};
+
+const escapeXmlAttribute = (value: string): string => {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+};
+
+/**
+ * Build the __Final Renderings layout XML for a page from its presentation details,
+ * flattening renderings in nested placeholders as Sitecore stores them
+ */
+const toLayoutXml = (presentationDetails: NonNullable<MockItem['presentationDetails']>): string => {
+  const devices = parsePresentationDetails(presentationDetails).map(device => {
+    const renderings = device.renderings.map(rendering => {
+      const attributes = [
+        `uid="${escapeXmlAttribute(rendering.uid)}"`,
+        rendering.renderingId ? `s:id="${escapeXmlAttribute(rendering.renderingId)}"` : '',
+        `s:ph="${escapeXmlAttribute(rendering.placeholder)}"`,
+        rendering.dataSource ? `s:ds="${escapeXmlAttribute(rendering.dataSource)}"` : '',
+        Object.keys(rendering.parameters).length > 0 ? `s:par="${escapeXmlAttribute(new URLSearchParams(rendering.parameters).toString())}"` : ''
+      ].filter(Boolean);
+      return `<r ${attributes.join(' ')} />`;
+    }).join('');
+    return `<d id="${device.id}"${device.layoutId ? ` l="${device.layoutId}"` : ''}>${renderings}</d>`;
+  }).join('');
+  return `<r xmlns:p="p" xmlns:s="s" p:p="1">${devices}</r>`;
+};
+
+const isStandardField = (name: string): boolean => name.startsWith('__');
+
+/**
+ * In-memory content store behind the mock authoring, preview and Edge endpoints
+ * Loaded from fixture pages; publishing, edits and workflow commands change it
+ */
+export const createMockContent = (fixtures: MockFixture[], options: MockContentOptions = {}) => {
+  // Fixtures are copied so edits don't leak into the imported JSON
+  const items = new Map<string, MockItem>();
+  const workflows = new Map<string, MockWorkflow>();
+  const sites = new Map<string, string[]>();
+  const revisions = new Map<string, number>();
+  const publishOperations = new Map<string, { startedAt: number; targets: PublishTarget[] }>();
+
+  fixtures.forEach(fixture => {
+    const copy = JSON.parse(JSON.stringify(fixture)) as MockFixture;
+    copy.items.forEach(item => items.set(formatGuidWithoutHyphens(item.itemId), item));
+    (copy.workflows || []).forEach(workflow => workflows.set(workflow.workflowId, workflow));
+    sites.set(copy.site.name, Array.from(new Set([...(sites.get(copy.site.name) || []), ...copy.site.languages])));
+  });
+
+  const getItem = (idOrPath: string): MockItem | undefined => {
+    const value = idOrPath.trim();
+    if (value.startsWith('/')) {
+      const path = value.toLowerCase().replace(/\/+$/, '');
+      return Array.from(items.values()).find(item => item.path.toLowerCase() === path);
+    }
+    return items.get(formatGuidWithoutHyphens(value));
+  };
+
+  const getVersion = (item: MockItem, language: string, version?: number): MockVersion | undefined => {
+    const versions = item.languages[language]?.versions || [];
+    return version === undefined
+      ? versions.reduce<MockVersion | undefined>((latest, entry) => (!latest || entry.version > latest.version ? entry : latest), undefined)
+      : versions.find(entry => entry.version === version);
+  };
+
+  const getFieldValue = (item: MockItem, version: MockVersion, name: string): string | undefined => {
+    switch (name) {
+      case '__Updated':
+        return version.updated;
+      case '__Updated by':
+        return version.updatedBy;
+      case '__Created':
+        return version.created;
+      case '__Created by':
+        return version.createdBy;
+      case '__Final Renderings':
+        return version.fields[name] ?? (item.presentationDetails ? toLayoutXml(item.presentationDetails) : undefined);
+      default:
+        return version.fields[name];
+    }
+  };
+
+  const getWorkflowState = (item: MockItem, version: MockVersion) => {
+    const workflow = item.workflowId ? workflows.get(item.workflowId) : undefined;
+    const state = workflow?.states.find(entry => entry.stateId === version.workflowStateId);
+    return { workflow, state };
+  };
+
+  const getChildren = (item: MockItem): MockItem[] => {
+    const prefix = `${item.path.toLowerCase()}/`;
+    return Array.from(items.values())
+      .filter(child => child.path.toLowerCase().startsWith(prefix) && !child.path.slice(prefix.length).includes('/'))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  };
+
+  const getDescendantsAndSelf = (item: MockItem): MockItem[] => {
+    const prefix = `${item.path.toLowerCase()}/`;
+    return Array.from(items.values()).filter(entry => entry === item || entry.path.toLowerCase().startsWith(prefix));
+  };
+
+  const getRevision = (item: MockItem): string => {
+    const id = formatGuidWithoutHyphens(item.itemId);
+    return `${id.slice(0, 8).toLowerCase()}-${revisions.get(id) || 0}`;
+  };
+
+  /**
+   * Authoring API shape of an item version
+   */
+  const toAuthoringItem = (item: MockItem, language: string, version?: MockVersion): ResolverObject => {
+    const { workflow, state } = version ? getWorkflowState(item, version) : { workflow: undefined, state: undefined };
+    const template = { name: item.template.name, templateId: formatGuidWithHyphens(item.template.templateId).toLowerCase() };
+
+    return {
+      itemId: formatGuidWithHyphens(item.itemId).toLowerCase(),
+      name: item.name,
+      path: item.path,
+      version: version?.version ?? 0,
+      template,
+      language: { name: language },
+      workflow: workflow && state ? {
+        workflow: { workflowId: workflow.workflowId, displayName: workflow.displayName },
+        workflowState: { stateId: state.stateId, displayName: state.displayName, final: state.final }
+      } : null,
+      field: ({ name }: GraphQLArgs) => {
+        const value = version ? getFieldValue(item, version, String(name)) : undefined;
+        return value === undefined ? null : { value };
+      },
+      fields: ({ excludeStandardFields }: GraphQLArgs) => ({
+        nodes: Object.keys(version?.fields || {})
+          .filter(name => !excludeStandardFields || !isStandardField(name))
+          .map(name => ({
+            name,
+            value: version ? getFieldValue(item, version, name) ?? '' : '',
+            templateField: { type: item.fieldTypes?.[name] || 'Single-Line Text' }
+          }))
+      }),
+      children: ({ first }: GraphQLArgs) => ({
+        nodes: getChildren(item)
+          .slice(0, typeof first === 'number' ? first : undefined)
+          .map(child => toAuthoringItem(child, language, getVersion(child, language)))
+      }),
+      versions: () => (item.languages[language]?.versions || [])
+        .map(entry => toAuthoringItem(item, language, entry))
+    };
+  };
+
+  /**
+   * Experience Edge (live or preview) shape of an item version
+   */
+  const toDeliveryItem = (item: MockItem, language: string, version: MockVersion): ResolverObject => {
+    const extension = version.fields.Extension;
+    const relativePath = isMediaItemPath(item.path)
+      ? `/-/media/${item.path.slice('/sitecore/media library/'.length)}${extension ? `.${extension}` : ''}`
+      : item.path.replace(/^\/sitecore\/content\/[^/]+\/[^/]+\/Home/i, '') || '/';
+
+    return {
+      id: formatGuidWithoutHyphens(item.itemId),
+      name: item.name,
+      version: version.version,
+      language: { name: language },
+      url: { url: relativePath.toLowerCase().replace(/ /g, '-') },
+      field: ({ name }: GraphQLArgs) => {
+        const value = getFieldValue(item, version, String(name));
+        return value === undefined ? null : { value };
+      },
+      fields: () => Object.keys(version.fields)
+        .filter(name => !isStandardField(name))
+        .map(name => ({ name, value: version.fields[name] }))
+    };
+  };
+
+  const readWhere = (args: GraphQLArgs) => (args.where || {}) as Record<string, GraphQLValue>;
+
+  /**
+   * Items matching a content search, supporting the _path, _template and _templatename criteria
+   */
+  const search = (args: GraphQLArgs) => {
+    const query = (args.query || {}) as Record<string, GraphQLValue>;
+    const statement = (query.searchStatement || {}) as Record<string, GraphQLValue>;
+    const criteria = (statement.criteria || []) as Array<Record<string, GraphQLValue>>;
+    const paging = (query.paging || {}) as Record<string, GraphQLValue>;
+    const pageSize = typeof paging.pageSize === 'number' ? paging.pageSize : 10;
+    const pageIndex = typeof paging.pageIndex === 'number' ? paging.pageIndex : 0;
+
+    let matches = Array.from(items.values());
+    criteria.forEach(criterion => {
+      const value = String(criterion.value || '').toLowerCase();
+      if (criterion.field === '_path') {
+        const root = getItem(value);
+        matches = root ? matches.filter(item => getDescendantsAndSelf(root).includes(item)) : [];
+      } else if (criterion.field === '_template') {
+        matches = matches.filter(item => formatGuidWithoutHyphens(item.template.templateId).toLowerCase() === value);
+      } else if (criterion.field === '_templatename') {
+        matches = matches.filter(item => item.template.name.toLowerCase() === value);
+      }
+    });
+    matches.sort((a, b) => a.path.localeCompare(b.path));
+
+    return {
+      totalCount: matches.length,
+      results: matches.slice(pageIndex * pageSize, (pageIndex + 1) * pageSize).map(item => ({
+        itemId: formatGuidWithoutHyphens(item.itemId).toLowerCase(),
+        name: item.name,
+        path: item.path,
+        templateId: formatGuidWithoutHyphens(item.template.templateId).toLowerCase(),
+        templateName: item.template.name
+      }))
+    };
+  };
+
+  /**
+   * Latest approved version of each item and language a publish job sends to Edge
+   */
+  const getPublishTargets = (rootItemId: string, languages: string[], includeSubitems: boolean): PublishTarget[] => {
+    const root = getItem(rootItemId);
+    if (!root) {
+      return [];
+    }
+
+    return (includeSubitems ? getDescendantsAndSelf(root) : [root]).flatMap(item => languages.flatMap(language => {
+      const publishable = (item.languages[language]?.versions || [])
+        .filter(version => !item.workflowId || getWorkflowState(item, version).state?.final)
+        .sort((a, b) => b.version - a.version)[0];
+      return publishable ? [{
+        itemId: formatGuidWithoutHyphens(item.itemId),
+        language,
+        version: publishable.version,
+        content: JSON.parse(JSON.stringify(publishable)) as MockVersion
+      }] : [];
+    }));
+  };
+
+  const publishItem = ({ input }: GraphQLArgs) => {
+    const { rootItemId, languages, publishSubItems } = (input || {}) as Record<string, GraphQLValue>;
+    const targets = getPublishTargets(String(rootItemId || ''), String(languages || '').split(',').filter(Boolean), publishSubItems === true);
+    const operationId = `mock-publish-${publishOperations.size + 1}`;
+    publishOperations.set(operationId, { startedAt: Date.now(), targets });
+    console.log(`🧪 Mock publish ${operationId}:`, targets);
+    options.onPublish?.(targets);
+    return { operationId };
+  };
+
+  const publishingStatus = ({ publishingOperationId }: GraphQLArgs) => {
+    const operation = publishOperations.get(String(publishingOperationId));
+    if (!operation) {
+      return null;
+    }
+    const isDone = Date.now() - operation.startedAt >= (options.publishDurationMs ?? PUBLISH_DURATION_MS);
+    return {
+      isDone,
+      isFailed: false,
+      processed: isDone ? operation.targets.length : 0,
+      state: isDone ? 'COMPLETED' : 'RUNNING'
+    };
+  };
+
+  const executeWorkflowCommand = ({ input }: GraphQLArgs) => {
+    const { item: target, commandId } = (input || {}) as { item?: Record<string, GraphQLValue>; commandId?: GraphQLValue };
+    const item = target ? getItem(String(target.itemId)) : undefined;
+    const version = item && target ? getVersion(item, String(target.language), Number(target.version)) : undefined;
+    if (!item || !version) {
+      return { successful: false, error: 'Item version not found', message: null, nextStateId: null };
+    }
+
+    const { state } = getWorkflowState(item, version);
+    const command = state?.commands.find(entry => entry.commandId === commandId);
+    if (!command) {
+      return { successful: false, error: `Command ${String(commandId)} is not available in this state`, message: null, nextStateId: null };
+    }
+
+    version.workflowStateId = command.nextStateId;
+    return { successful: true, error: null, message: `${command.displayName} executed`, nextStateId: command.nextStateId };
+  };
+
+  return {
+    /**
+     * Root resolvers for the authoring GraphQL API
+     */
+    authoringRoots: (): { query: ResolverObject; mutation: ResolverObject } => ({
+      query: {
+        item: (args: GraphQLArgs) => {
+          const where = readWhere(args);
+          const item = getItem(String(where.itemId || where.path || ''));
+          const language = String(where.language || 'en');
+          const version = item ? getVersion(item, language, typeof where.version === 'number' ? where.version : undefined) : undefined;
+          return item && version ? toAuthoringItem(item, language, version) : null;
+        },
+        site: ({ siteName }: GraphQLArgs) => {
+          const languages = sites.get(String(siteName));
+          return languages ? { name: siteName, languages: languages.map(name => ({ name })) } : null;
+        },
+        search,
+        publishingStatus,
+        workflow: (args: GraphQLArgs) => {
+          const workflow = workflows.get(String(readWhere(args).workflowId));
+          return workflow ? {
+            workflowId: workflow.workflowId,
+            displayName: workflow.displayName,
+            commands: ({ query }: GraphQLArgs) => ({
+              nodes: workflow.states.find(state => state.stateId === (query as Record<string, GraphQLValue> | null)?.stateId)?.commands
+                .map(({ commandId, displayName }) => ({ commandId, displayName })) || []
+            })
+          } : null;
+        }
+      },
+      mutation: {
+        publishItem,
+        executeWorkflowCommand
+      }
+    }),
+
+    /**
+     * Root resolvers for Experience Edge: published versions for live, latest (or pinned) versions for preview
+     */
+    deliveryRoots: (endpoint: 'live' | 'preview'): { query: ResolverObject } => ({
+      query: {
+        item: ({ path, language }: GraphQLArgs) => {
+          const item = getItem(String(path || '').replace(/[{}]/g, ''));
+          const itemLanguage = String(language || 'en');
+          const state = item?.languages[itemLanguage];
+          const pinnedVersion = endpoint === 'live' ? state?.published : state?.preview;
+          const version = !item ? undefined
+            : pinnedVersion !== undefined ? getVersion(item, itemLanguage, pinnedVersion)
+            : endpoint === 'preview' ? getVersion(item, itemLanguage) : undefined;
+          return item && version ? toDeliveryItem(item, itemLanguage, version) : null;
+        }
+      }
+    }),
+
+    /**
+     * pages.context as the Pages editor sends it for a page
+     */
+    getPagesContext: (pageId: string, language: string) => {
+      const item = getItem(pageId);
+      if (!item) {
+        return {};
+      }
+      const version = getVersion(item, language);
+      const site = Array.from(sites.entries()).find(([name]) => item.path.toLowerCase().includes(`/${name.toLowerCase()}/`));
+
+      return {
+        siteInfo: site ? { name: site[0], languages: site[1], supportedLanguages: site[1] } : undefined,
+        pageInfo: {
+          id: formatGuidWithHyphens(item.itemId).toLowerCase(),
+          name: item.name,
+          displayName: item.name,
+          path: item.path,
+          language,
+          version: version?.version,
+          revision: getRevision(item),
+          updatedBy: version?.updatedBy,
+          updatedDate: version?.updated,
+          template: { id: item.template.templateId, name: item.template.name },
+          presentationDetails: item.presentationDetails ? JSON.stringify(item.presentationDetails) : undefined
+        }
+      };
+    },
+
+    /**
+     * Save a change to an item as the Pages editor would: a new version, back at the start of its workflow
+     */
+    editItem: (itemId: string, language: string, user: string): MockVersion | null => {
+      const item = getItem(itemId);
+      const latest = item ? getVersion(item, language) : undefined;
+      if (!item || !latest) {
+        return null;
+      }
+
+      const workflow = item.workflowId ? workflows.get(item.workflowId) : undefined;
+      const now = toSitecoreDate(new Date());
+      const version: MockVersion = {
+        ...JSON.parse(JSON.stringify(latest)) as MockVersion,
+        version: latest.version + 1,
+        created: now,
+        createdBy: user,
+        updated: now,
+        updatedBy: user,
+        workflowStateId: workflow?.states[0]?.stateId
+      };
+      item.languages[language].versions.push(version);
+      const id = formatGuidWithoutHyphens(item.itemId);
+      revisions.set(id, (revisions.get(id) || 0) + 1);
+      return version;
+    },
+
+    /**
+     * Make Edge serve the given versions
+     */
+    applyPublish: (targets: PublishTarget[]): void => {
+      targets.forEach(target => {
+        const item = getItem(target.itemId);
+        if (!item) {
+          return;
+        }
+        const state = item.languages[target.language] || (item.languages[target.language] = { versions: [] });
+        state.versions = [...state.versions.filter(version => version.version !== target.version), target.content];
+        state.published = target.version;
+      });
+    },
+
+    getItem
+  };
+};
+
+export type MockContent = ReturnType<typeof createMockContent>;
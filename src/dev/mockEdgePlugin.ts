@@ -0,0 +1,77 @@
+// dev/mockEdgePlugin.ts
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { IncomingMessage } from 'node:http';
+import type { Plugin } from 'vite';
+import { executeGraphQL } from './graphqlExecutor';
+import { createMockContent, MOCK_EDGE_PATH } from './mockContent';
+import type { MockFixture, PublishTarget } from './mockContent';
+
+const readJsonBody = async <T>(req: IncomingMessage): Promise<T> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}') as T;
+};
+
+const loadFixtures = (fixturesDir: string): MockFixture[] => {
+  return readdirSync(fixturesDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(readFileSync(join(fixturesDir, file), 'utf-8')) as MockFixture);
+};
+
+/**
+ * Local Experience Edge stand-in for the dev host (dev-host.html)
+ * Serves published versions from the fixture pages over GraphQL:
+ * - POST /__mock-edge/graphql: Edge delivery queries
+ * - POST /__mock-edge/publish: { targets, delayMs } makes versions live after the delay
+ * - POST /__mock-edge/reset: reload the fixtures, dropping everything published since
+ */
+export const mockEdgePlugin = (fixturesDir: string): Plugin => ({
+  name: 'mock-edge',
+  apply: 'serve',
+  configureServer(server) {
+    let content = createMockContent(loadFixtures(fixturesDir));
+
+    server.middlewares.use(MOCK_EDGE_PATH, async (req, res) => {
+      const route = (req.url || '').split('?')[0];
+      const send = (status: number, body: unknown) => {
+        res.statusCode = status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.method !== 'POST') {
+        send(405, { errors: [{ message: 'Use POST' }] });
+        return;
+      }
+
+      try {
+        switch (route) {
+          case '/graphql': {
+            const { query } = await readJsonBody<{ query?: string }>(req);
+            send(200, executeGraphQL(query || '', content.deliveryRoots('live')));
+            return;
+          }
+          case '/publish': {
+            const { targets = [], delayMs = 0 } = await readJsonBody<{ targets?: PublishTarget[]; delayMs?: number }>(req);
+            // Edge serves new versions a little after the publish job, like the real cache refresh
+            setTimeout(() => content.applyPublish(targets), delayMs);
+            send(202, { accepted: targets.length });
+            return;
+          }
+          case '/reset':
+            content = createMockContent(loadFixtures(fixturesDir));
+            send(200, { reset: true });
+            return;
+          default:
+            send(404, { errors: [{ message: `Unknown mock Edge route ${route}` }] });
+        }
+      } catch (error) {
+        send(400, { errors: [{ message: error instanceof Error ? error.message : String(error) }] });
+      }
+    });
+  }
+});
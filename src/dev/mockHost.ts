@@ -0,0 +1,127 @@
+// dev/mockHost.ts
+import { CoreSDK } from '@sitecore-marketplace-sdk/core';
+import type { ApplicationContext } from '@sitecore-marketplace-sdk/core';
+import { executeGraphQL } from './graphqlExecutor';
+import type { GraphQLResponse } from './graphqlExecutor';
+import { MOCK_EDGE_PATH } from './mockContent';
+import type { MockContent } from './mockContent';
+
+/** Context IDs the mock host grants, telling live and preview requests apart */
+export const MOCK_CONTEXT_IDS = {
+  live: 'mock-live-context',
+  preview: 'mock-preview-context'
+};
+
+/**
+ * Extension points the mock app is registered for, each on its own route
+ */
+export const MOCK_EXTENSION_POINTS = [
+  { extensionPointId: 'xmc:pages:contextpanel', route: '/panel', label: 'Pages context panel' },
+  { extensionPointId: 'xmc:fullscreen', route: '/dashboard', label: 'Full screen' },
+  { extensionPointId: 'xmc:dashboardblocks', route: '/widget', label: 'Dashboard widget' },
+  { extensionPointId: 'xmc:pages:customfield', route: '/custom-field', label: 'Custom field (unsupported)' }
+];
+
+/**
+ * application.context as Cloud Portal would send it for an installed app
+ */
+const getApplicationContext = (): ApplicationContext => ({
+  id: 'mock-app',
+  url: window.location.origin,
+  name: 'Publishing Status (mock host)',
+  type: 'custom',
+  state: 'active',
+  installationId: 'mock-installation',
+  resourceAccess: [{
+    resourceId: 'xmcloud',
+    tenantId: 'mock-tenant',
+    tenantName: 'Mock Tenant',
+    context: MOCK_CONTEXT_IDS
+  }],
+  extensionPoints: MOCK_EXTENSION_POINTS.map(({ extensionPointId, route }) => ({ extensionPointId, route }))
+});
+
+/**
+ * Request the XMC module sends through the host for GraphQL calls
+ */
+interface HostRequest {
+  path: string;
+  method: string;
+  body?: ArrayBuffer;
+  headers?: Record<string, string>;
+}
+
+interface HostResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface MockHostOptions {
+  content: MockContent;
+  /** Current pages.context, read on every query */
+  getPagesContext: () => unknown;
+  /** Called with each GraphQL request the app makes, for the request log */
+  onRequest?: (entry: { endpoint: string; query: string; response: GraphQLResponse }) => void;
+}
+
+/**
+ * Answer the app's Marketplace SDK requests from the mock content, as XM Cloud would
+ * Authoring and preview run in the page; live queries go to the dev server's Edge stand-in
+ */
+export const startMockHost = (iframe: HTMLIFrameElement, { content, getPagesContext, onRequest }: MockHostOptions) => {
+  const origin = window.location.origin;
+  const sdk = new CoreSDK({ target: iframe.contentWindow!, targetOrigin: origin, selfOrigin: origin });
+  sdk.initialize({ type: 'host', targetOrigin: origin, selfOrigin: origin, version: '1' });
+
+  sdk.onRequest('application.context', () => getApplicationContext());
+  sdk.onRequest('pages.context', () => getPagesContext());
+  sdk.onRequest('host.user', () => ({ id: 'mock-user', email: 'editor@example.com', name: 'Mock Editor' }));
+
+  sdk.onRequest<HostRequest, HostResponse>('host.request', async (request): Promise<HostResponse> => {
+    const url = new URL(request.path, origin);
+    const contextId = url.searchParams.get('sitecoreContextId');
+    const { query = '' } = JSON.parse(new TextDecoder().decode(request.body || new ArrayBuffer(0)) || '{}') as { query?: string };
+
+    let endpoint: string;
+    let response: GraphQLResponse;
+    if (url.pathname.includes('/authoring/graphql')) {
+      endpoint = 'Authoring';
+      response = executeGraphQL(query, content.authoringRoots());
+    } else if (contextId === MOCK_CONTEXT_IDS.live) {
+      endpoint = 'Live';
+      const edgeResponse = await fetch(`${MOCK_EDGE_PATH}/graphql`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query })
+      });
+      response = await edgeResponse.json() as GraphQLResponse;
+    } else if (contextId === MOCK_CONTEXT_IDS.preview) {
+      endpoint = 'Preview';
+      response = executeGraphQL(query, content.deliveryRoots('preview'));
+    } else {
+      return { status: 404, statusText: 'Not Found', headers: {}, body: `No mock endpoint for ${request.path}` };
+    }
+
+    onRequest?.({ endpoint, query, response });
+    return {
+      status: 200,
+      statusText: 'OK',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(response)
+    };
+  });
+
+  sdk.connect();
+
+  return {
+    /** Send pages.context to subscribers, as Pages does on navigation and saves */
+    emitPagesContext: () => {
+      if (sdk.isConnected()) {
+        sdk.emit('pages.context', getPagesContext());
+      }
+    },
+    destroy: () => sdk.destroy()
+  };
+};
@@ -0,0 +1,62 @@
+// hooks/useAppView.ts
+import { useEffect, useState } from 'react';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+import { resolveAppView } from '../utils/extensionPoints';
+import type { ResolvedAppView } from '../utils/extensionPoints';
+
+export interface UseAppViewResult extends ResolvedAppView {
+  /** Whether the hosting extension point is still being worked out */
+  loading: boolean;
+}
+
+/**
+ * Hook for choosing the view to render in the hosting extension point
+ * Reads the extension points from application.context; an explicit ?view= in the iframe URL
+ * is used straight away
+ */
+export const useAppView = (): UseAppViewResult => {
+  const { client, error, isInitialized } = useMarketplaceClient();
+  const [resolved, setResolved] = useState<ResolvedAppView | null>(() =>
+    new URLSearchParams(window.location.search).has('view') ? resolveAppView(null, window.location) : null
+  );
+
+  useEffect(() => {
+    if (error) {
+      console.error('Error initializing Marketplace client:', error);
+      setResolved(current => current ?? resolveAppView(null, window.location));
+      return;
+    }
+    if (!isInitialized || !client) {
+      return;
+    }
+
+    console.log('Marketplace client initialized successfully.');
+    let cancelled = false;
+    client
+      .query('application.context')
+      .then((res) => {
+        console.log('Success retrieving application.context:', res.data);
+        const appView = resolveAppView(res.data, window.location);
+        console.log(`🧭 Extension point: ${appView.extensionPointId || 'unknown'}, view: ${appView.view || 'unsupported'}`);
+        if (!cancelled) {
+          setResolved(appView);
+        }
+      })
+      .catch((err) => {
+        console.error('Error retrieving application.context:', err);
+        if (!cancelled) {
+          setResolved(current => current ?? resolveAppView(null, window.location));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, error, isInitialized]);
+
+  return {
+    view: resolved?.view ?? null,
+    extensionPointId: resolved?.extensionPointId ?? null,
+    loading: !resolved
+  };
+};
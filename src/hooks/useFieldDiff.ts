@@ -0,0 +1,109 @@
+// hooks/useFieldDiff.ts
+import { useState, useCallback } from 'react';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+import {
+  getItemVersionFields,
+  getLiveItemFields,
+  getResourceContextIds
+} from '../utils/graphqlQueries';
+import { DEFAULT_LANGUAGE } from '../utils/dataProcessing';
+import { diffFieldValues } from '../utils/fieldDiff';
+import type { FieldChange, FieldValue } from '../utils/fieldDiff';
+import type { ProcessedItemInfo } from '../types/itemInformation';
+
+/**
+ * Version to compare: the version published to Experience Edge, or an authoring version number
+ */
+export type DiffVersion = 'published' | number;
+
+export interface FieldDiffResult {
+  itemId: string;
+  /** Label of the older side, e.g. "Published (v2)" */
+  fromLabel: string;
+  /** Label of the newer side, e.g. "v3" */
+  toLabel: string;
+  changes: FieldChange[];
+}
+
+export interface UseFieldDiffResult {
+  result: FieldDiffResult | null;
+  loading: boolean;
+  error: string | null;
+  /** Load field values for both versions of the item and compare them */
+  compare: (item: ProcessedItemInfo, from: DiffVersion, to: DiffVersion) => Promise<void>;
+  clear: () => void;
+}
+
+/**
+ * Hook for comparing the field values of two versions of an item
+ */
+export const useFieldDiff = (): UseFieldDiffResult => {
+  const { client, isInitialized } = useMarketplaceClient();
+  const [result, setResult] = useState<FieldDiffResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const compare = useCallback(async (item: ProcessedItemInfo, from: DiffVersion, to: DiffVersion) => {
+    if (!client || !isInitialized) {
+      setError('Marketplace client not initialized');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { previewContextId, liveContextId } = await getResourceContextIds(client);
+      if (!previewContextId) {
+        throw new Error('Sitecore context ID not found - comparing versions requires XM Cloud authoring access');
+      }
+      const language = item.language || DEFAULT_LANGUAGE;
+
+      const loadVersion = async (version: DiffVersion): Promise<{ label: string; fields: FieldValue[] }> => {
+        if (version === 'published') {
+          const live = await getLiveItemFields(client, item.id, language, liveContextId);
+          if (!live) {
+            return { label: 'Not published', fields: [] };
+          }
+          return { label: `Published (v${live.version})`, fields: live.fields };
+        }
+
+        const fields = await getItemVersionFields(client, item.id, language, version, previewContextId);
+        if (!fields) {
+          throw new Error(`Version ${version} of ${item.name} was not found`);
+        }
+        return { label: `v${version}`, fields };
+      };
+
+      const [fromSide, toSide] = await Promise.all([loadVersion(from), loadVersion(to)]);
+      const changes = diffFieldValues(fromSide.fields, toSide.fields);
+      console.log(`🔎 Compared ${fromSide.label} and ${toSide.label} of ${item.id}:`, changes);
+
+      setResult({
+        itemId: item.id,
+        fromLabel: fromSide.label,
+        toLabel: toSide.label,
+        changes
+      });
+    } catch (err) {
+      console.error('❌ Error comparing item versions:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+      setResult(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [client, isInitialized]);
+
+  const clear = useCallback(() => {
+    setResult(null);
+    setError(null);
+  }, []);
+
+  return {
+    result,
+    loading,
+    error,
+    compare,
+    clear
+  };
+};
@@ -1,21 +1,78 @@
 // hooks/useItemInformation.ts
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+import type { PagesContext } from '@sitecore-marketplace-sdk/client';
 import { 
   getItemsFromAuthoring, 
   getItemsFromLive, 
-  resolveLocalDatasourcePaths 
+  getItemsFromPreview,
+  getSiteLanguages,
+  getResourceContextIds,
+  resolveLocalDatasourcePaths,
+  resolveQueryDatasources,
+  getItemFieldsFromAuthoring,
+  getLayoutFieldsFromAuthoring,
+  LIVE_ACCESS_NOT_GRANTED_MESSAGE
 } from '../utils/graphqlQueries';
+import { invalidateItemCache } from '../utils/itemCache';
 import { 
   extractItemIdsWithLocalPaths,
+  extractLanguagesFromContext,
+  orderLanguages,
+  addProvenance,
+  formatGuidWithoutHyphens,
+  DEFAULT_LANGUAGE,
   processItemData, 
+  describeQueryFailures,
+  mergeProcessedItems,
   createItemInformationResponse
 } from '../utils/dataProcessing';
+import { crawlReferences, DEFAULT_CRAWL_OPTIONS } from '../utils/dependencyCrawler';
+import type { CrawledItem } from '../utils/dependencyCrawler';
 import type { 
   ItemInformationResponse, 
-  ProcessedItemInfo
+  LayoutFieldsResponse,
+  ProcessedItemInfo,
+  ReferenceProvenance
 } from '../types/itemInformation';
 
+export interface UseItemInformationOptions {
+  /**
+   * How many levels of field references to follow from the page and its datasources
+   * @default 1
+   */
+  crawlDepth?: number;
+  /**
+   * Maximum number of items to check, including the page and its datasources
+   * @default 200
+   */
+  maxItems?: number;
+  /**
+   * Also query the Experience Edge preview endpoint for a three-way master/preview/live comparison
+   * @default false
+   */
+  includePreview?: boolean;
+  /**
+   * Refetch when the Pages editor navigates to another page, language or version, or saves the page
+   * @default true
+   */
+  autoRefresh?: boolean;
+}
+
+/** Wait for rapid pages.context events (e.g. a save followed by a version change) to settle */
+const AUTO_REFRESH_DEBOUNCE_MS = 500;
+
+/**
+ * Identify the page state that should trigger a refetch when it changes
+ */
+const getPageContextKey = (context: PagesContext | undefined): string | null => {
+  const pageInfo = context?.pageInfo;
+  if (!pageInfo?.id) {
+    return null;
+  }
+  return [pageInfo.id, pageInfo.language, pageInfo.version, pageInfo.revision].join('|');
+};
+
 export interface UseItemInformationResult {
   /** The processed item information response */
   data: ItemInformationResponse | null;
@@ -25,20 +82,37 @@ export interface UseItemInformationResult {
   loading: boolean;
   /** Error state */
   error: string | null;
+  /** Whether items shown from expired cache entries are being refreshed */
+  isRevalidating: boolean;
   /** Function to manually refetch data */
   refetch: () => Promise<void>;
-  /** Function to refetch only a specific set of items */
+  /** Function to refetch only a specific set of items, merging them into the current data */
   refetchItems: (itemIds: string[]) => Promise<void>;
   /** Function to force refresh (clears cache and refetches) */
   forceRefresh: () => void;
 }
 
-export const useItemInformation = (): UseItemInformationResult => {
+export const useItemInformation = (options: UseItemInformationOptions = {}): UseItemInformationResult => {
+  const crawlDepth = options.crawlDepth ?? DEFAULT_CRAWL_OPTIONS.maxDepth;
+  const maxItems = options.maxItems ?? DEFAULT_CRAWL_OPTIONS.maxItems;
+  const includePreview = options.includePreview ?? false;
+  const autoRefresh = options.autoRefresh ?? true;
+
   const { client, error: clientError, isInitialized } = useMarketplaceClient();
   const [data, setData] = useState<ItemInformationResponse | null>(null);
   const [items, setItems] = useState<ProcessedItemInfo[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Items served from expired cache entries, refreshed in the background
+  const [staleItemIds, setStaleItemIds] = useState<string[]>([]);
+  // Languages from the last full fetch, reused when refetching specific items
+  const languagesRef = useRef<string[]>([DEFAULT_LANGUAGE]);
+  // Items from the last fetch, so specific refetches can be merged into them
+  const itemsRef = useRef<ProcessedItemInfo[]>([]);
+  // Warnings from the last full fetch, kept when refetching specific items
+  const warningsRef = useRef<string[]>([]);
+  // Fetches in progress; a full fetch cancels them all so results for an old page are never shown
+  const activeFetchesRef = useRef(new Set<AbortController>());
 
   const fetchItemInformation = useCallback(async (specificItemIds?: string[]) => {
     if (!client || !isInitialized) {
@@ -46,7 +120,19 @@ export const useItemInformation = (): UseItemInformationResult => {
       return;
     }
 
-    setLoading(true);
+    // Refetching specific items updates rows in place instead of reloading the whole table
+    const isPartialRefetch = Boolean(specificItemIds && specificItemIds.length > 0 && itemsRef.current.length > 0);
+
+    if (!specificItemIds) {
+      activeFetchesRef.current.forEach(activeFetch => activeFetch.abort());
+      activeFetchesRef.current.clear();
+    }
+    const controller = new AbortController();
+    activeFetchesRef.current.add(controller);
+
+    if (!isPartialRefetch) {
+      setLoading(true);
+    }
     setError(null);
 
     try {
@@ -54,12 +140,41 @@ export const useItemInformation = (): UseItemInformationResult => {
       let currentItemId: string | undefined;
       let pageContext: unknown = null;
       let localPathsToResolve: string[] = [];
+      let queriesToResolve: string[] = [];
       let currentPagePath = '';
+      let warnings = isPartialRefetch ? warningsRef.current : [];
+      // Items resolved from query datasources, mapped to the query
+      const queryResolvedIds = new Map<string, string>();
+      // Items found by crawling field references
+      const crawledItems = new Map<string, CrawledItem>();
+      // Where each item was found, used to classify it and show where it is used
+      let provenance: Record<string, ReferenceProvenance[]> = {};
+      // Where each local path and query was found, carried over to the items they resolve to
+      let unresolvedProvenance: Record<string, ReferenceProvenance[]> = {};
+      let languages = languagesRef.current;
+      let siteName = '';
+      let needsSiteLanguages = false;
+
+      // Get application context to extract the preview and live context IDs (official approach)
+      let sitecoreContextId: string | undefined;
+      let liveContextId: string | undefined;
+      try {
+        const contextIds = await getResourceContextIds(client);
+        sitecoreContextId = contextIds.previewContextId;
+        liveContextId = contextIds.liveContextId;
+        console.log('Extracted sitecore context IDs:', { sitecoreContextId, liveContextId });
+      } catch (error) {
+        console.error('Failed to get application context:', error);
+      }
+
+      if (!liveContextId) {
+        throw new Error(LIVE_ACCESS_NOT_GRANTED_MESSAGE);
+      }
 
       if (specificItemIds && specificItemIds.length > 0) {
         itemIds = specificItemIds;
-        // For specific items, assume the first one is current (could be improved)
-        currentItemId = specificItemIds[0];
+        // Item types are kept from the existing items when merging; without them, assume the first one is current
+        currentItemId = isPartialRefetch ? undefined : specificItemIds[0];
       } else {
         // Get current context to identify items
         const { data: contextData } = await client.query('pages.context');
@@ -77,14 +192,30 @@ export const useItemInformation = (): UseItemInformationResult => {
           path: pageInfo?.path as string
         });
         
+        // The effective layout is __Renderings merged with the __Final Renderings delta, so
+        // datasources added, moved or removed in the final layout are taken into account
+        const languageInfo = extractLanguagesFromContext(pageContext);
+        let layoutFields: LayoutFieldsResponse | null = null;
+        if (currentPageId && sitecoreContextId) {
+          const layouts = await getLayoutFieldsFromAuthoring(client, [currentPageId], sitecoreContextId, languageInfo.currentLanguage);
+          layoutFields = layouts.items[formatGuidWithoutHyphens(currentPageId)]?.[languageInfo.currentLanguage] || null;
+          if (layouts.failures.length > 0) {
+            warnings = [...warnings, `${describeQueryFailures([layouts]).join('; ')}; datasources are read from the presentation details instead`];
+          }
+        }
+
         // Extract ALL items from context (current + editable items)
-        const extractionResult = extractItemIdsWithLocalPaths(pageContext);
+        const extractionResult = extractItemIdsWithLocalPaths(pageContext, layoutFields);
         itemIds = extractionResult.itemIds;
         localPathsToResolve = extractionResult.localPathsToResolve;
+        queriesToResolve = extractionResult.queriesToResolve;
         currentPagePath = extractionResult.currentPagePath;
+        provenance = extractionResult.provenance;
+        unresolvedProvenance = extractionResult.unresolvedProvenance;
         
         console.log('All items from context:', itemIds);
         console.log('Local paths to resolve:', localPathsToResolve);
+        console.log('Queries to resolve:', queriesToResolve);
         console.log('Current page path:', currentPagePath);
         
         if (itemIds.length === 0) {
@@ -94,31 +225,23 @@ export const useItemInformation = (): UseItemInformationResult => {
         // The first item should be the current page item (extractItemIds puts it first)
         currentItemId = itemIds[0];
         console.log('Current item ID identified as:', currentItemId);
+
+        // Current page language first, followed by the other site languages
+        languages = orderLanguages(languageInfo.currentLanguage, languageInfo.siteLanguages);
+        siteName = languageInfo.siteName;
+        needsSiteLanguages = languageInfo.siteLanguages.length === 0;
       }
 
       console.log('Fetching information for initial items:', itemIds);
       console.log('Current item ID identified as:', currentItemId);
 
-      // Get application context to extract sitecoreContextId (official approach)
-      let sitecoreContextId: string | undefined;
-      try {
-        const { data: appContext } = await client.query('application.context');
-        console.log('Application context retrieved:', appContext);
-        
-        // Extract sitecoreContextId according to official documentation
-        sitecoreContextId = appContext?.resourceAccess?.[0]?.context?.preview;
-        
-        if (!sitecoreContextId) {
-          console.error('Sitecore Context ID not found in application context. Make sure your app is configured to use XM Cloud APIs.');
-          // Try alternative locations as fallback
-          sitecoreContextId = appContext?.resourceAccess?.[0]?.context?.live ||
-                              (appContext as Record<string, unknown>)?.sitecoreContextId as string;
-        }
-        
-        console.log('Extracted sitecore context ID:', sitecoreContextId);
-      } catch (error) {
-        console.error('Failed to get application context:', error);
+      // Fall back to the authoring site query when pages context has no site languages
+      if (needsSiteLanguages && siteName && sitecoreContextId) {
+        const siteLanguages = await getSiteLanguages(client, siteName, sitecoreContextId);
+        languages = orderLanguages(languages[0], siteLanguages);
       }
+      languagesRef.current = languages;
+      console.log('🌐 Querying languages:', languages);
 
       // Resolve local datasource paths to item IDs if needed
       if (localPathsToResolve.length > 0 && sitecoreContextId) {
@@ -128,12 +251,18 @@ export const useItemInformation = (): UseItemInformationResult => {
             client, 
             localPathsToResolve, 
             currentPagePath, 
-            sitecoreContextId
+            sitecoreContextId,
+            languages[0]
           );
           
           // Add resolved item IDs to the list
-          Object.values(resolvedPaths).forEach(resolvedId => {
-            if (resolvedId && !itemIds.includes(resolvedId)) {
+          Object.entries(resolvedPaths).forEach(([localPath, resolvedPathId]) => {
+            if (!resolvedPathId) {
+              return;
+            }
+            const resolvedId = formatGuidWithoutHyphens(resolvedPathId);
+            (unresolvedProvenance[localPath] || []).forEach(record => addProvenance(provenance, resolvedId, record));
+            if (!itemIds.includes(resolvedId)) {
               console.log(`✅ Adding resolved datasource item: ${resolvedId}`);
               itemIds.push(resolvedId);
             }
@@ -145,32 +274,120 @@ export const useItemInformation = (): UseItemInformationResult => {
         }
       }
 
+      // Evaluate query datasources relative to the current page
+      if (queriesToResolve.length > 0) {
+        if (sitecoreContextId) {
+          console.log('🔍 Resolving query datasources:', queriesToResolve);
+          const queryResolution = await resolveQueryDatasources(
+            client,
+            queriesToResolve,
+            currentPagePath,
+            sitecoreContextId,
+            languages[0]
+          );
+
+          Object.entries(queryResolution.resolved).forEach(([query, resolvedIds]) => {
+            resolvedIds.forEach(resolvedId => {
+              (unresolvedProvenance[query] || []).forEach(record => addProvenance(provenance, resolvedId, record));
+              if (!itemIds.includes(resolvedId)) {
+                console.log(`✅ Adding query-resolved datasource item: ${resolvedId}`);
+                itemIds.push(resolvedId);
+                queryResolvedIds.set(resolvedId, query);
+              }
+            });
+          });
+          warnings = [...warnings, ...queryResolution.warnings];
+        } else {
+          warnings = [...warnings, `${queriesToResolve.length} query datasource(s) were not evaluated because no Sitecore context ID is available`];
+        }
+      }
+
+      // Follow references in item fields (datasource -> author profile, carousel -> slides, ...)
+      // Media used by the page and its datasources is included even when crawling is disabled
+      if (!specificItemIds && sitecoreContextId) {
+        const contextId = sitecoreContextId;
+        const crawl = await crawlReferences(
+          itemIds,
+          (ids) => getItemFieldsFromAuthoring(client, ids, contextId, languages[0]),
+          { maxDepth: crawlDepth, maxItems, includeMedia: DEFAULT_CRAWL_OPTIONS.includeMedia }
+        );
+
+        crawl.discovered.forEach(crawledItem => {
+          addProvenance(provenance, crawledItem.id, {
+            source: crawledItem.source,
+            sourceItemId: crawledItem.referencedBy,
+            fieldName: crawledItem.fieldName
+          });
+          if (!itemIds.includes(crawledItem.id)) {
+            itemIds.push(crawledItem.id);
+            crawledItems.set(crawledItem.id, crawledItem);
+          }
+        });
+
+        if (crawl.truncated) {
+          warnings = [...warnings, `Reference crawl stopped after ${maxItems} items; some deeper references are not shown`];
+        }
+        if (crawl.failures.length > 0) {
+          warnings = [...warnings, ...describeQueryFailures([crawl])];
+        }
+      }
+
+      // The SDK cannot abort requests, so skip the remaining queries once a newer fetch has started
+      controller.signal.throwIfAborted();
+
       // Query all items (from context) for both authoring and live data
       console.log('Querying authoring and live data for', itemIds.length, 'items...');
       console.log('🔍 Checking for target item 9C8262E4-6456-4946-B04E-D5873874615E in final list:', 
                   itemIds.includes('9C8262E4-6456-4946-B04E-D5873874615E') ? '✅ FOUND' : '❌ MISSING');
       
-      const [authoringResult, liveResult] = await Promise.all([
-        getItemsFromAuthoring(client, itemIds, sitecoreContextId),
-        getItemsFromLive(client, itemIds, sitecoreContextId)
+      const [authoringResult, liveResult, previewResult] = await Promise.all([
+        getItemsFromAuthoring(client, itemIds, sitecoreContextId, languages, { allowStale: true }),
+        getItemsFromLive(client, itemIds, liveContextId, languages, { allowStale: true }),
+        includePreview
+          ? getItemsFromPreview(client, itemIds, sitecoreContextId, languages, { allowStale: true })
+          : Promise.resolve(undefined)
       ]);
+      controller.signal.throwIfAborted();
 
       console.log('Final authoring result for', itemIds.length, 'items:', authoringResult);
       console.log('Final live result for', itemIds.length, 'items:', liveResult);
+      if (previewResult) {
+        console.log('Final preview result for', itemIds.length, 'items:', previewResult);
+      }
+      warnings = [...warnings, ...describeQueryFailures([authoringResult, liveResult, previewResult])];
+      const staleIds = [...new Set([authoringResult, liveResult, previewResult].flatMap(result => result?.staleItemIds || []))];
 
       // Process the data
       const processedItems = processItemData(
         authoringResult,
         liveResult,
         itemIds,
-        currentItemId
-      );
+        currentItemId,
+        languages,
+        provenance,
+        previewResult
+      ).map(item => {
+        const crawledItem = crawledItems.get(item.id);
+        return {
+          ...item,
+          resolvedFromQuery: queryResolvedIds.get(item.id),
+          referenceDepth: crawledItem?.depth,
+          referencedBy: crawledItem?.referencedBy
+        };
+      });
+
+      const finalItems = isPartialRefetch
+        ? mergeProcessedItems(itemsRef.current, processedItems)
+        : processedItems;
 
       // Create the complete response
-      const itemInformationResponse = createItemInformationResponse(processedItems);
+      const itemInformationResponse = createItemInformationResponse(finalItems, languages, warnings);
 
+      itemsRef.current = finalItems;
+      warningsRef.current = warnings;
       setData(itemInformationResponse);
-      setItems(processedItems);
+      setItems(finalItems);
+      setStaleItemIds(staleIds);
 
       console.log('Processed item information:', {
         totalItems: itemIds.length,
@@ -180,17 +397,36 @@ export const useItemInformation = (): UseItemInformationResult => {
       });
 
     } catch (err) {
+      if (controller.signal.aborted) {
+        console.log('🚫 Discarding results of a cancelled fetch');
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
       console.error('Error fetching item information:', err);
+      if (isPartialRefetch) {
+        // Keep the rows already shown; a failed refresh of a few items should not empty the table
+        const warning = `${specificItemIds!.length} item(s) could not be refreshed: ${errorMessage}`;
+        setData(prev => prev && { ...prev, warnings: [...prev.warnings, warning] });
+        setStaleItemIds([]);
+        return;
+      }
       setError(errorMessage);
+      itemsRef.current = [];
       setData(null);
       setItems([]);
+      setStaleItemIds([]);
     } finally {
-      setLoading(false);
+      activeFetchesRef.current.delete(controller);
+      // A cancelled fetch leaves the loading state to the fetch that replaced it
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
-  }, [client, isInitialized]);
+  }, [client, isInitialized, crawlDepth, maxItems, includePreview]);
 
+  // Refetching specific items always bypasses the cache, e.g. after publishing or a workflow command
   const refetchItems = useCallback(async (itemIds: string[]) => {
+    invalidateItemCache(itemIds);
     await fetchItemInformation(itemIds);
   }, [fetchItemInformation]);
 
@@ -198,10 +434,12 @@ export const useItemInformation = (): UseItemInformationResult => {
     await fetchItemInformation();
   }, [fetchItemInformation]);
 
-  // Add a mechanism to force refresh when page changes
-  // This is important for when navigating between different pages in Sitecore
+  // Clear the cache and the displayed data, then load everything again
+  // Page navigation is handled by the pages.context subscription below
   const forceRefresh = useCallback(() => {
     console.log('🔄 Force refresh triggered - clearing cached data');
+    invalidateItemCache();
+    itemsRef.current = [];
     setData(null);
     setItems([]);
     setError(null);
@@ -217,11 +455,91 @@ export const useItemInformation = (): UseItemInformationResult => {
     }
   }, [isInitialized, clientError, fetchItemInformation]);
 
+  // Refetch when the Pages editor navigates or saves, debounced so a burst of events causes one fetch
+  useEffect(() => {
+    if (!autoRefresh || !client || !isInitialized) {
+      return;
+    }
+
+    let lastContextKey: string | null = null;
+    let lastPageId: string | undefined;
+    let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+    let unsubscribe: (() => void) | undefined;
+    let disposed = false;
+
+    const handleContextChange = (context: PagesContext) => {
+      const contextKey = getPageContextKey(context);
+      if (!contextKey || contextKey === lastContextKey) {
+        return;
+      }
+
+      const pageId = context.pageInfo?.id;
+      // The first event describes the page the initial load already fetched
+      const isInitialEvent = lastContextKey === null;
+      const isSamePage = pageId === lastPageId;
+      lastContextKey = contextKey;
+      lastPageId = pageId;
+      if (isInitialEvent) {
+        return;
+      }
+
+      clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => {
+        console.log('🧭 Pages context changed, refreshing:', contextKey);
+        // A save or version switch changes the page itself; other pages can still come from the cache
+        if (isSamePage && pageId) {
+          invalidateItemCache([pageId]);
+        }
+        fetchItemInformation();
+      }, AUTO_REFRESH_DEBOUNCE_MS);
+    };
+
+    client.query('pages.context', {
+      subscribe: true,
+      onSuccess: handleContextChange
+    }).then(result => {
+      if (result.data) {
+        handleContextChange(result.data);
+      }
+      if (disposed) {
+        result.unsubscribe?.();
+      } else {
+        unsubscribe = result.unsubscribe;
+      }
+    }).catch(err => {
+      console.error('❌ Error subscribing to pages.context:', err);
+    });
+
+    return () => {
+      disposed = true;
+      clearTimeout(debounceTimer);
+      unsubscribe?.();
+    };
+  }, [autoRefresh, client, isInitialized, fetchItemInformation]);
+
+  // Cancel fetches still running when the component unmounts
+  useEffect(() => {
+    const activeFetches = activeFetchesRef.current;
+    return () => {
+      activeFetches.forEach(activeFetch => activeFetch.abort());
+      activeFetches.clear();
+    };
+  }, []);
+
+  // Stale-while-revalidate: rows from expired cache entries are shown first, then refreshed in place
+  useEffect(() => {
+    if (staleItemIds.length > 0) {
+      console.log('♻️ Revalidating stale items:', staleItemIds);
+      refetchItems(staleItemIds);
+    }
+  }, [staleItemIds, refetchItems]);
+
   return {
     data,
     items,
     loading,
     error,
+    isRevalidating: staleItemIds.length > 0,
     refetch,
     refetchItems,
     forceRefresh
@@ -250,9 +568,15 @@ export const useSpecificItemsInformation = (itemIds: string[]): UseItemInformati
     try {
       console.log('Fetching specific items:', itemIds);
 
+      const { previewContextId, liveContextId } = await getResourceContextIds(client);
+
+      if (!liveContextId) {
+        throw new Error(LIVE_ACCESS_NOT_GRANTED_MESSAGE);
+      }
+
       const [authoringResult, liveResult] = await Promise.all([
-        getItemsFromAuthoring(client, itemIds),
-        getItemsFromLive(client, itemIds)
+        getItemsFromAuthoring(client, itemIds, previewContextId),
+        getItemsFromLive(client, itemIds, liveContextId)
       ]);
 
       const processedItems = processItemData(
@@ -262,7 +586,11 @@ export const useSpecificItemsInformation = (itemIds: string[]): UseItemInformati
         itemIds[0]
       );
 
-      const itemInformationResponse = createItemInformationResponse(processedItems);
+      const itemInformationResponse = createItemInformationResponse(
+        processedItems,
+        undefined,
+        describeQueryFailures([authoringResult, liveResult])
+      );
 
       setData(itemInformationResponse);
       setItems(processedItems);
@@ -291,8 +619,9 @@ export const useSpecificItemsInformation = (itemIds: string[]): UseItemInformati
 
   const forceRefresh = useCallback(async () => {
     console.log('Force refresh triggered');
+    invalidateItemCache(itemIds);
     await fetchSpecificItems();
-  }, [fetchSpecificItems]);
+  }, [fetchSpecificItems, itemIds]);
 
   useEffect(() => {
     if (isInitialized && !clientError && itemIds.length > 0) {
@@ -307,6 +636,7 @@ export const useSpecificItemsInformation = (itemIds: string[]): UseItemInformati
     items,
     loading,
     error,
+    isRevalidating: false,
     refetch,
     refetchItems,
     forceRefresh
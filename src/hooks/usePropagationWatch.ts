@@ -0,0 +1,231 @@
+// hooks/usePropagationWatch.ts
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+import { getItemsFromLive, getResourceContextIds, LIVE_ACCESS_NOT_GRANTED_MESSAGE } from '../utils/graphqlQueries';
+import { DEFAULT_LANGUAGE, formatGuidWithoutHyphens, getLanguagesToPublish } from '../utils/dataProcessing';
+import type { LiveItemResponse, MediaInfo, ProcessedItemInfo } from '../types/itemInformation';
+
+export type PropagationStatus = 'watching' | 'propagated' | 'timed-out' | 'failed';
+
+export interface PropagationWatch {
+  itemId: string;
+  /** Version expected on Experience Edge in the primary language (the latest version when the watch started) */
+  targetVersion: number;
+  /** Version Experience Edge served in the primary language on the last poll */
+  observedVersion: number | null;
+  /** Languages being watched: the ones publishing updates (see getLanguagesToPublish) */
+  languages: string[];
+  /** Languages Edge does not serve the latest version of yet */
+  pendingLanguages: string[];
+  status: PropagationStatus;
+  startedAt: number;
+  attempts: number;
+  /** Time from the start of the watch until Edge served the target version; not recorded for items already live */
+  latencyMs?: number;
+  /** Edge already served the target version and file when the watch started (e.g. a republish) */
+  alreadyLive: boolean;
+  /** Last poll error, or why the watch stopped */
+  error?: string;
+}
+
+export interface UsePropagationWatchResult {
+  /** Watches by item ID, kept after they finish so the outcome stays visible */
+  watches: Record<string, PropagationWatch>;
+  /** Poll Experience Edge until each item's latest version is live */
+  watchItems: (items: ProcessedItemInfo[]) => void;
+  stopWatching: (itemId: string) => void;
+}
+
+const INITIAL_POLL_DELAY_MS = 2000;
+const POLL_BACKOFF_FACTOR = 1.5;
+const MAX_POLL_DELAY_MS = 15000;
+export const PROPAGATION_TIMEOUT_MS = 3 * 60 * 1000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Whether Edge serves the latest file of a media item, by blob ID and size where both sides report them
+ */
+const isFileLive = (media: MediaInfo, liveItem?: LiveItemResponse | null): boolean => {
+  const liveBlobId = liveItem?.blob?.value;
+  const liveSize = liveItem?.size?.value ? parseInt(liveItem.size.value, 10) : undefined;
+  const sameBlob = !media.blobId || !liveBlobId || formatGuidWithoutHyphens(media.blobId) === formatGuidWithoutHyphens(liveBlobId);
+  const sameSize = media.size === undefined || liveSize === undefined || media.size === liveSize;
+  return sameBlob && sameSize;
+};
+
+/**
+ * Latest version of an item in a language when the watch started
+ */
+const getTargetVersion = (item: ProcessedItemInfo, language: string): number =>
+  item.languageVersions?.[language]?.latestVersion ?? item.latestVersion;
+
+/**
+ * Whether Edge already serves the item's latest version and file in every watched language,
+ * so publishing changes nothing it can observe
+ */
+const isAlreadyLive = (item: ProcessedItemInfo): boolean => {
+  const primaryLanguage = item.language || DEFAULT_LANGUAGE;
+  return !item.media?.blobDiffers && getLanguagesToPublish(item).every(language => {
+    const version = item.languageVersions?.[language] ?? (language === primaryLanguage ? item : undefined);
+    return !!version && version.isPublished && !version.isOutdated;
+  });
+};
+
+/**
+ * Hook for watching published items until Experience Edge serves their latest version
+ * Polls with exponential backoff and gives up after PROPAGATION_TIMEOUT_MS
+ * @param onPropagated - Called with the IDs of items once Edge serves them (e.g. refetchItems)
+ */
+export const usePropagationWatch = (
+  onPropagated?: (itemIds: string[]) => Promise<void>
+): UsePropagationWatchResult => {
+  const { client, isInitialized } = useMarketplaceClient();
+  const [watches, setWatches] = useState<Record<string, PropagationWatch>>({});
+  // Watches still polling; removing an ID stops its loop
+  const activeRef = useRef(new Map<string, symbol>());
+
+  const updateWatch = useCallback((itemId: string, update: Partial<PropagationWatch>) => {
+    setWatches(prev => prev[itemId] ? { ...prev, [itemId]: { ...prev[itemId], ...update } } : prev);
+  }, []);
+
+  const stopWatching = useCallback((itemId: string) => {
+    activeRef.current.delete(itemId);
+    setWatches(prev => {
+      const next = { ...prev };
+      delete next[itemId];
+      return next;
+    });
+  }, []);
+
+  const watchItems = useCallback((items: ProcessedItemInfo[]) => {
+    if (!client || !isInitialized || items.length === 0) {
+      return;
+    }
+
+    const startedAt = Date.now();
+    const tokens = new Map(items.map(item => [item.id, Symbol(item.id)]));
+    tokens.forEach((token, itemId) => activeRef.current.set(itemId, token));
+    setWatches(prev => ({
+      ...prev,
+      ...Object.fromEntries(items.map(item => [item.id, {
+        itemId: item.id,
+        targetVersion: item.latestVersion,
+        observedVersion: item.publishedVersion,
+        languages: getLanguagesToPublish(item),
+        pendingLanguages: getLanguagesToPublish(item),
+        status: 'watching' as const,
+        startedAt,
+        attempts: 0,
+        alreadyLive: isAlreadyLive(item)
+      }]))
+    }));
+
+    const isActive = (itemId: string) => activeRef.current.get(itemId) === tokens.get(itemId);
+
+    const finish = (itemId: string, update: Partial<PropagationWatch>) => {
+      if (isActive(itemId)) {
+        activeRef.current.delete(itemId);
+        updateWatch(itemId, update);
+      }
+    };
+
+    const watchItem = async (item: ProcessedItemInfo, liveContextId: string): Promise<boolean> => {
+      const primaryLanguage = item.language || DEFAULT_LANGUAGE;
+      // Every language publishing updated has to be live, not just the one shown in the table
+      const languages = getLanguagesToPublish(item);
+      // Edge cannot show when an item it already served was republished, so no latency is measured for it
+      const alreadyLive = isAlreadyLive(item);
+      let delay = INITIAL_POLL_DELAY_MS;
+      let attempts = 0;
+
+      while (isActive(item.id)) {
+        if (Date.now() - startedAt + delay > PROPAGATION_TIMEOUT_MS) {
+          finish(item.id, {
+            status: 'timed-out',
+            error: `Experience Edge still did not serve the latest version after ${Math.round(PROPAGATION_TIMEOUT_MS / 1000)}s. Publishing may be queued; refresh later to check again.`
+          });
+          return false;
+        }
+
+        await wait(delay);
+        delay = Math.min(delay * POLL_BACKOFF_FACTOR, MAX_POLL_DELAY_MS);
+        attempts++;
+        if (!isActive(item.id)) {
+          return false;
+        }
+
+        const result = await getItemsFromLive(client, [item.id], liveContextId, languages, { bypassCache: true });
+        const failure = result.failures[0];
+        if (failure) {
+          // Keep polling through transient errors; the timeout still applies
+          console.warn(`⚠️ Propagation poll for ${item.id} failed:`, failure.error);
+          updateWatch(item.id, { attempts, error: failure.error });
+          continue;
+        }
+
+        const liveItems = result.items[formatGuidWithoutHyphens(item.id)] || {};
+        const observedVersion = liveItems[primaryLanguage]?.version || null;
+        const pendingLanguages = languages.filter(language => {
+          const liveItem = liveItems[language];
+          if ((liveItem?.version || null) !== getTargetVersion(item, language)) {
+            return true;
+          }
+          // A replaced media file keeps its version, so wait for Edge to serve the new file too
+          return language === primaryLanguage && !!item.media?.blobDiffers && !isFileLive(item.media, liveItem);
+        });
+        console.log(`📡 Edge serves ${item.id} v${observedVersion ?? '-'} (waiting for ${pendingLanguages.join(', ') || 'nothing'}, attempt ${attempts})`);
+
+        if (pendingLanguages.length === 0) {
+          finish(item.id, {
+            status: 'propagated',
+            observedVersion,
+            pendingLanguages,
+            attempts,
+            latencyMs: alreadyLive ? undefined : Date.now() - startedAt,
+            error: undefined
+          });
+          return true;
+        }
+        updateWatch(item.id, { attempts, observedVersion, pendingLanguages, error: undefined });
+      }
+
+      return false;
+    };
+
+    const run = async () => {
+      try {
+        const { liveContextId } = await getResourceContextIds(client);
+        if (!liveContextId) {
+          throw new Error(LIVE_ACCESS_NOT_GRANTED_MESSAGE);
+        }
+
+        // Each row is refreshed as soon as its own item is live, without waiting for slower ones
+        await Promise.all(items.map(async item => {
+          if (await watchItem(item, liveContextId) && onPropagated) {
+            console.log('🔄 Refreshing propagated item:', item.id);
+            await onPropagated([item.id]);
+          }
+        }));
+      } catch (error) {
+        console.error('❌ Error watching publish propagation:', error);
+        const message = error instanceof Error ? error.message : String(error);
+        items.forEach(item => finish(item.id, { status: 'failed', error: message }));
+      }
+    };
+
+    run();
+  }, [client, isInitialized, onPropagated, updateWatch]);
+
+  // Stop polling when the component unmounts
+  useEffect(() => {
+    const active = activeRef.current;
+    return () => active.clear();
+  }, []);
+
+  return {
+    watches,
+    watchItems,
+    stopWatching
+  };
+};
@@ -0,0 +1,140 @@
+// hooks/usePublishing.ts
+import { useState, useCallback } from 'react';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+import {
+  publishItem,
+  getPublishingStatus,
+  getResourceContextIds
+} from '../utils/graphqlQueries';
+import type { PublishMode } from '../utils/graphqlQueries';
+import { getLanguagesToPublish } from '../utils/dataProcessing';
+import { invalidateItemCache } from '../utils/itemCache';
+import { runWithConcurrency } from '../utils/queryBatching';
+import type { ProcessedItemInfo } from '../types/itemInformation';
+
+export interface PublishOptions {
+  /** Also publish the item's subitems */
+  includeSubitems: boolean;
+  /** Smart publish or full republish */
+  mode: PublishMode;
+}
+
+export interface PublishItemResult {
+  itemId: string;
+  success: boolean;
+  operationId?: string;
+  error?: string;
+}
+
+export interface UsePublishingResult {
+  /** IDs of items with a publishing job in progress */
+  publishingItemIds: string[];
+  /** Whether any publishing job is in progress */
+  isPublishing: boolean;
+  /** Publish the given items in every outdated language and wait for the jobs to complete, reporting each result as it finishes */
+  publishItems: (
+    items: ProcessedItemInfo[],
+    options: PublishOptions,
+    onItemComplete?: (result: PublishItemResult) => void
+  ) => Promise<PublishItemResult[]>;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_TIMEOUT_MS = 5 * 60 * 1000;
+/** Maximum number of publishing jobs started and polled at once */
+const PUBLISH_CONCURRENCY = 3;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Hook for publishing items to Experience Edge and refreshing them once the jobs complete
+ * @param onPublished - Called with the IDs of successfully published items (e.g. refetchItems)
+ */
+export const usePublishing = (
+  onPublished?: (itemIds: string[]) => Promise<void>
+): UsePublishingResult => {
+  const { client, isInitialized } = useMarketplaceClient();
+  const [publishingItemIds, setPublishingItemIds] = useState<string[]>([]);
+
+  const publishItems = useCallback(async (
+    items: ProcessedItemInfo[],
+    options: PublishOptions,
+    onItemComplete?: (result: PublishItemResult) => void
+  ): Promise<PublishItemResult[]> => {
+    if (!client || !isInitialized) {
+      return items.map(item => ({ itemId: item.id, success: false, error: 'Marketplace client not initialized' }));
+    }
+
+    const itemIds = items.map(item => item.id);
+    setPublishingItemIds(prev => [...prev, ...itemIds.filter(id => !prev.includes(id))]);
+
+    try {
+      const { previewContextId } = await getResourceContextIds(client);
+      if (!previewContextId) {
+        throw new Error('Sitecore context ID not found - publishing requires XM Cloud authoring access');
+      }
+
+      const publishSingleItem = async (item: ProcessedItemInfo): Promise<PublishItemResult> => {
+        try {
+          const languages = getLanguagesToPublish(item);
+          console.log(`📤 Publishing ${item.id} in ${languages.join(', ')}`);
+          const operationId = await publishItem(client, item.id, {
+            languages,
+            includeSubitems: options.includeSubitems,
+            mode: options.mode
+          }, previewContextId);
+
+          // Poll the publishing job until it completes
+          const startedAt = Date.now();
+          while (Date.now() - startedAt < POLL_TIMEOUT_MS) {
+            await wait(POLL_INTERVAL_MS);
+            const status = await getPublishingStatus(client, operationId, previewContextId);
+            console.log(`⏳ Publishing ${item.id} (${operationId}):`, status);
+
+            if (status.isFailed) {
+              return { itemId: item.id, success: false, operationId, error: `Publishing job failed (${status.state})` };
+            }
+            if (status.isDone) {
+              return { itemId: item.id, success: true, operationId };
+            }
+          }
+
+          return { itemId: item.id, success: false, operationId, error: 'Timed out waiting for the publishing job' };
+        } catch (error) {
+          console.error(`❌ Error publishing item ${item.id}:`, error);
+          return { itemId: item.id, success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+      };
+
+      const results = await runWithConcurrency(items, PUBLISH_CONCURRENCY, async item => {
+        const result = await publishSingleItem(item);
+        onItemComplete?.(result);
+        return result;
+      });
+
+      const publishedIds = results.filter(result => result.success).map(result => result.itemId);
+      if (publishedIds.length > 0) {
+        // Cached live status is out of date for every hook, not just the one refreshed below
+        invalidateItemCache(publishedIds);
+      }
+      if (publishedIds.length > 0 && onPublished) {
+        console.log('🔄 Refreshing published items:', publishedIds);
+        await onPublished(publishedIds);
+      }
+
+      return results;
+    } catch (error) {
+      console.error('❌ Error publishing items:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      return itemIds.map(itemId => ({ itemId, success: false, error: message }));
+    } finally {
+      setPublishingItemIds(prev => prev.filter(id => !itemIds.includes(id)));
+    }
+  }, [client, isInitialized, onPublished]);
+
+  return {
+    publishingItemIds,
+    isPublishing: publishingItemIds.length > 0,
+    publishItems
+  };
+};
@@ -0,0 +1,262 @@
+// hooks/useSiteDashboard.ts
+import { useState, useCallback, useRef } from 'react';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+import {
+  getContentTreeItems,
+  getLayoutFieldsFromAuthoring,
+  getItemsFromAuthoring,
+  getItemsFromLive,
+  getItemFieldsFromAuthoring,
+  getResourceContextIds,
+  resolveLocalDatasourcePaths,
+  resolveQueryDatasources,
+  LIVE_ACCESS_NOT_GRANTED_MESSAGE
+} from '../utils/graphqlQueries';
+import {
+  addProvenance,
+  describeQueryFailures,
+  extractLayoutDatasources,
+  formatGuidWithoutHyphens,
+  generateSummary,
+  processItemData
+} from '../utils/dataProcessing';
+import { crawlReferences } from '../utils/dependencyCrawler';
+import { runWithConcurrency } from '../utils/queryBatching';
+import type {
+  ItemInformationSummary,
+  ProcessedItemInfo,
+  ReferenceProvenance
+} from '../types/itemInformation';
+
+export interface SiteDashboardScanOptions {
+  /** Content root to walk, e.g. /sitecore/content/tenant/site/Home */
+  rootPath?: string;
+  /** Specific items to check instead of walking a content root */
+  pageIds?: string[];
+  /** Language the tree is walked and datasources are resolved in */
+  language: string;
+  /** Languages whose publishing status is checked (defaults to `language` only) */
+  languages?: string[];
+}
+
+export interface SiteDashboardData {
+  /** Pages and their dependencies (rendering datasources and media) */
+  items: ProcessedItemInfo[];
+  /** IDs of the items that have a layout, i.e. pages */
+  pageIds: string[];
+  /** Languages whose publishing status was checked, starting with the scan language */
+  languages: string[];
+  summary: ItemInformationSummary;
+  warnings: string[];
+  /** ISO timestamp of when the scan finished */
+  scannedAt: string;
+}
+
+export interface UseSiteDashboardResult {
+  data: SiteDashboardData | null;
+  loading: boolean;
+  /** Description of the scan step in progress */
+  progress: string | null;
+  error: string | null;
+  /** Whether the Marketplace client is ready to scan */
+  isReady: boolean;
+  scan: (options: SiteDashboardScanOptions) => Promise<void>;
+}
+
+/** Upper bound on content tree items walked in one scan */
+export const MAX_DASHBOARD_TREE_ITEMS = 2000;
+/** Maximum number of pages whose local and query datasources are resolved at once */
+const DATASOURCE_RESOLUTION_CONCURRENCY = 3;
+
+/**
+ * A page whose datasources include local paths or queries, resolved against its path
+ */
+interface PageDatasources {
+  pageId: string;
+  pagePath: string;
+  localPaths: string[];
+  queries: string[];
+}
+
+/**
+ * Hook for computing publishing status across a site's content tree or a given set of pages
+ * Walks the tree, finds pages by their layout, adds their datasources (resolving local paths
+ * and queries against each page) and media, then computes status the same way as the page view
+ */
+export const useSiteDashboard = (): UseSiteDashboardResult => {
+  const { client, isInitialized } = useMarketplaceClient();
+  const [data, setData] = useState<SiteDashboardData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest scan may update state
+  const scanIdRef = useRef(0);
+
+  const scan = useCallback(async ({ rootPath, pageIds: requestedPageIds, language, languages }: SiteDashboardScanOptions) => {
+    if (!client || !isInitialized) {
+      setError('Marketplace client not initialized');
+      return;
+    }
+
+    const scanId = ++scanIdRef.current;
+    const isCurrent = () => scanId === scanIdRef.current;
+    const report = (message: string) => {
+      console.log(`📊 ${message}`);
+      if (isCurrent()) {
+        setProgress(message);
+      }
+    };
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { previewContextId, liveContextId } = await getResourceContextIds(client);
+      if (!previewContextId) {
+        throw new Error('Sitecore context ID not found - the dashboard requires XM Cloud authoring access');
+      }
+      if (!liveContextId) {
+        throw new Error(LIVE_ACCESS_NOT_GRANTED_MESSAGE);
+      }
+
+      const statusLanguages = Array.from(new Set([language, ...(languages || [])]));
+      const warnings: string[] = [];
+      const treePaths: Record<string, string> = {};
+      let candidateIds: string[];
+
+      if (requestedPageIds && requestedPageIds.length > 0) {
+        candidateIds = requestedPageIds.map(formatGuidWithoutHyphens);
+      } else if (rootPath) {
+        report(`Walking the content tree under ${rootPath}...`);
+        const tree = await getContentTreeItems(client, rootPath, previewContextId, language, MAX_DASHBOARD_TREE_ITEMS);
+        if (!tree.root) {
+          throw new Error(`No item found at ${rootPath} in language "${language}"`);
+        }
+        if (tree.truncated) {
+          warnings.push(`Only the first ${MAX_DASHBOARD_TREE_ITEMS} of ${tree.totalCount} items under ${rootPath} were scanned`);
+        }
+        tree.items.forEach(item => {
+          treePaths[item.itemId] = item.path;
+        });
+        candidateIds = tree.items.map(item => item.itemId);
+      } else {
+        throw new Error('Enter a content root or at least one page ID to scan');
+      }
+
+      // Pages are the items with a shared or final layout
+      report(`Reading layouts of ${candidateIds.length} items...`);
+      const layouts = await getLayoutFieldsFromAuthoring(client, candidateIds, previewContextId, language);
+      warnings.push(...describeQueryFailures([layouts]));
+
+      const pageIds: string[] = [];
+      const provenance: Record<string, ReferenceProvenance[]> = {};
+      const pagesToResolve: PageDatasources[] = [];
+      candidateIds.forEach(candidateId => {
+        const layout = layouts.items[candidateId]?.[language];
+        if (!layout?.renderings?.value && !layout?.finalRenderings?.value) {
+          return;
+        }
+
+        pageIds.push(candidateId);
+        const { ids, localPaths, queries } = extractLayoutDatasources(layout.renderings?.value, layout.finalRenderings?.value);
+        ids.forEach(id => addProvenance(provenance, id, { source: 'rendering-datasource', sourceItemId: candidateId }));
+        if (localPaths.length > 0 || queries.length > 0) {
+          pagesToResolve.push({ pageId: candidateId, pagePath: treePaths[candidateId] || layout.path, localPaths, queries });
+        }
+      });
+
+      // Local paths and queries are relative to the page that uses them, so each page is resolved separately
+      if (pagesToResolve.length > 0) {
+        report(`Resolving local and query datasources on ${pagesToResolve.length} pages...`);
+        let unresolvedPaths = 0;
+        await runWithConcurrency(pagesToResolve, DATASOURCE_RESOLUTION_CONCURRENCY, async ({ pageId, pagePath, localPaths, queries }) => {
+          const [resolvedPaths, queryResolution] = await Promise.all([
+            resolveLocalDatasourcePaths(client, localPaths, pagePath, previewContextId, language),
+            resolveQueryDatasources(client, queries, pagePath, previewContextId, language)
+          ]);
+
+          localPaths.forEach(localPath => {
+            const resolvedId = resolvedPaths[localPath];
+            if (!resolvedId) {
+              unresolvedPaths++;
+              return;
+            }
+            addProvenance(provenance, formatGuidWithoutHyphens(resolvedId), {
+              // Full content paths are regular datasources; anything else lives under the page's Data folder
+              source: localPath.startsWith('/sitecore/') ? 'rendering-datasource' : 'local-datasource',
+              sourceItemId: pageId
+            });
+          });
+          Object.values(queryResolution.resolved).flat().forEach(resolvedId => {
+            addProvenance(provenance, resolvedId, { source: 'query-datasource', sourceItemId: pageId });
+          });
+          warnings.push(...queryResolution.warnings.map(warning => `${pagePath}: ${warning}`));
+        });
+        if (unresolvedPaths > 0) {
+          warnings.push(`${unresolvedPaths} local datasource path(s) could not be found`);
+        }
+      }
+
+      const itemIds = Array.from(new Set([...pageIds, ...Object.keys(provenance)]));
+
+      // Media used by pages and datasources are dependencies too; deeper references are left to the page view
+      report(`Finding media used by ${itemIds.length} pages and datasources...`);
+      const crawl = await crawlReferences(
+        itemIds,
+        (ids) => getItemFieldsFromAuthoring(client, ids, previewContextId, language),
+        { maxDepth: 0, maxItems: MAX_DASHBOARD_TREE_ITEMS * 2, includeMedia: true }
+      );
+      warnings.push(...describeQueryFailures([crawl]));
+      crawl.discovered.forEach(crawledItem => {
+        addProvenance(provenance, crawledItem.id, {
+          source: crawledItem.source,
+          sourceItemId: crawledItem.referencedBy,
+          fieldName: crawledItem.fieldName
+        });
+        if (!itemIds.includes(crawledItem.id)) {
+          itemIds.push(crawledItem.id);
+        }
+      });
+
+      report(`Checking publishing status of ${itemIds.length} items...`);
+      const [authoringResult, liveResult] = await Promise.all([
+        getItemsFromAuthoring(client, itemIds, previewContextId, statusLanguages),
+        getItemsFromLive(client, itemIds, liveContextId, statusLanguages)
+      ]);
+      warnings.push(...describeQueryFailures([authoringResult, liveResult]));
+
+      const items = processItemData(authoringResult, liveResult, itemIds, undefined, statusLanguages, provenance);
+
+      if (isCurrent()) {
+        setData({
+          items,
+          pageIds,
+          languages: statusLanguages,
+          summary: generateSummary(items),
+          warnings,
+          scannedAt: new Date().toISOString()
+        });
+      }
+    } catch (err) {
+      console.error('❌ Error scanning site:', err);
+      if (isCurrent()) {
+        setError(err instanceof Error ? err.message : 'Unknown error occurred');
+        setData(null);
+      }
+    } finally {
+      if (isCurrent()) {
+        setLoading(false);
+        setProgress(null);
+      }
+    }
+  }, [client, isInitialized]);
+
+  return {
+    data,
+    loading,
+    progress,
+    error,
+    isReady: !!client && isInitialized,
+    scan
+  };
+};
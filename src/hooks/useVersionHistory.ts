@@ -0,0 +1,57 @@
+// hooks/useVersionHistory.ts
+import { useState, useCallback } from 'react';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+import { getItemVersionHistory, getResourceContextIds } from '../utils/graphqlQueries';
+import { DEFAULT_LANGUAGE } from '../utils/dataProcessing';
+import type { ItemVersionInfo, ProcessedItemInfo } from '../types/itemInformation';
+
+export interface UseVersionHistoryResult {
+  /** Versions of the item, newest first */
+  versions: ItemVersionInfo[];
+  loading: boolean;
+  error: string | null;
+  load: (item: ProcessedItemInfo) => Promise<void>;
+}
+
+/**
+ * Hook for loading all versions of an item in its primary language
+ */
+export const useVersionHistory = (): UseVersionHistoryResult => {
+  const { client, isInitialized } = useMarketplaceClient();
+  const [versions, setVersions] = useState<ItemVersionInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (item: ProcessedItemInfo) => {
+    if (!client || !isInitialized) {
+      setError('Marketplace client not initialized');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { previewContextId } = await getResourceContextIds(client);
+      if (!previewContextId) {
+        throw new Error('Sitecore context ID not found - version history requires XM Cloud authoring access');
+      }
+
+      const history = await getItemVersionHistory(client, item.id, item.language || DEFAULT_LANGUAGE, previewContextId);
+      console.log(`🕓 Version history for ${item.id}:`, history);
+      setVersions(history);
+    } catch (err) {
+      console.error('❌ Error loading version history:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [client, isInitialized]);
+
+  return {
+    versions,
+    loading,
+    error,
+    load
+  };
+};
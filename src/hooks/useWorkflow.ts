@@ -0,0 +1,82 @@
+// hooks/useWorkflow.ts
+import { useState, useCallback } from 'react';
+import type { ClientSDK } from '@sitecore-marketplace-sdk/client';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+import {
+  getWorkflowCommands,
+  executeWorkflowCommand,
+  getResourceContextIds
+} from '../utils/graphqlQueries';
+import { DEFAULT_LANGUAGE } from '../utils/dataProcessing';
+import type { ProcessedItemInfo, WorkflowCommand } from '../types/itemInformation';
+
+export interface UseWorkflowResult {
+  /** IDs of items with a workflow command in progress */
+  executingItemIds: string[];
+  /** Load the workflow commands the current user can execute on the item's latest version */
+  loadCommands: (item: ProcessedItemInfo) => Promise<WorkflowCommand[]>;
+  /** Execute a workflow command on the item's latest version, then refresh the item */
+  executeCommand: (item: ProcessedItemInfo, command: WorkflowCommand) => Promise<void>;
+}
+
+/**
+ * Get the authoring context ID, failing if the app has no authoring access
+ */
+const requireContextId = async (client: ClientSDK): Promise<string> => {
+  const { previewContextId } = await getResourceContextIds(client);
+  if (!previewContextId) {
+    throw new Error('Sitecore context ID not found - workflow commands require XM Cloud authoring access');
+  }
+  return previewContextId;
+};
+
+/**
+ * Hook for moving items through workflow from the status table
+ * @param onCommandExecuted - Called with the ID of the item after a command succeeds (e.g. refetchItems)
+ */
+export const useWorkflow = (
+  onCommandExecuted?: (itemIds: string[]) => Promise<void>
+): UseWorkflowResult => {
+  const { client, isInitialized } = useMarketplaceClient();
+  const [executingItemIds, setExecutingItemIds] = useState<string[]>([]);
+
+  const loadCommands = useCallback(async (item: ProcessedItemInfo): Promise<WorkflowCommand[]> => {
+    if (!client || !isInitialized || !item.workflow) {
+      return [];
+    }
+
+    const contextId = await requireContextId(client);
+    const commands = await getWorkflowCommands(client, item.workflow.workflowId, item.workflow.stateId, contextId);
+    console.log(`🔀 Workflow commands for ${item.id}:`, commands);
+    return commands;
+  }, [client, isInitialized]);
+
+  const executeCommand = useCallback(async (item: ProcessedItemInfo, command: WorkflowCommand): Promise<void> => {
+    if (!client || !isInitialized) {
+      throw new Error('Marketplace client not initialized');
+    }
+
+    setExecutingItemIds(prev => [...prev.filter(id => id !== item.id), item.id]);
+
+    try {
+      const contextId = await requireContextId(client);
+      await executeWorkflowCommand(client, {
+        itemId: item.id,
+        language: item.language || DEFAULT_LANGUAGE,
+        version: item.latestVersion
+      }, command.commandId, contextId);
+
+      if (onCommandExecuted) {
+        await onCommandExecuted([item.id]);
+      }
+    } finally {
+      setExecutingItemIds(prev => prev.filter(id => id !== item.id));
+    }
+  }, [client, isInitialized, onCommandExecuted]);
+
+  return {
+    executingItemIds,
+    loadCommands,
+    executeCommand
+  };
+};
@@ -0,0 +1,136 @@
+// test/fixtures.ts
+import type { MockFixture, MockItem } from '../dev/mockContent';
+
+/**
+ * Item IDs used across the fixtures, in the compact uppercase form the app keys items by
+ */
+export const IDS = {
+  page: '2B4D6F81A3C54E7A9B1D3F5A7C9E1B2D',
+  hero: '7C1D3E5F60714829A3B4C5D6E7F8091A',
+  promo: '8D2E4F6071824A93B4C5D6E7F8091A2B',
+  banner: '9E3F507182934BA485D6E7F8091A2B3C',
+  footer: 'AF40618293A44CB596E7F8091A2B3C4D',
+  teaser: 'B051729304B54DC6A7F8091A2B3C4D5E',
+  author: 'C16283A415C64ED7B8091A2B3C4D5E6F'
+};
+
+export const PAGE_PATH = '/sitecore/content/Demo/Demo/Home/News/Launch Article';
+
+export const FOOTER_PATH = '/sitecore/content/Demo/Demo/Data/Shared/Footer';
+
+export const DEVICE_ID = 'fe5d7fdf-89c0-4d99-9aa3-b5fbd009c9f3';
+
+export const AUTHORS_QUERY = 'query:./ancestor-or-self::*[@@templatename=\'Site\']/Data/Authors/*[@Name=\'Carla\'|@Name=\'Dirk\']';
+
+/**
+ * Presentation details as Pages sends them in pages.context, covering the datasource formats
+ * the app has to understand:
+ * - a local: path, resolved under the page's Data folder
+ * - pipe-separated GUIDs in braces, upper and lower case
+ * - a full content path
+ * - a query: datasource containing a pipe, which must not be split
+ * - a rendering without a datasource, and a datasource used twice
+ * - renderings nested under a dynamic placeholder, with a lowercase GUID without braces
+ */
+export const PRESENTATION_DETAILS = {
+  devices: [
+    {
+      id: DEVICE_ID,
+      layoutId: '96e5f4ba-a2cf-4a4c-a4e7-64da88226362',
+      renderings: [
+        { id: 'b0c1d2e3-0001-4000-8000-000000000010', instanceId: 'r-hero', placeholderKey: 'headless-main', dataSource: 'local:/Data/Hero' },
+        { id: 'b0c1d2e3-0001-4000-8000-000000000011', instanceId: 'r-promos', placeholderKey: 'headless-main', dataSource: '{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B} | {9e3f5071-8293-4ba4-85d6-e7f8091a2b3c}' },
+        { id: 'b0c1d2e3-0001-4000-8000-000000000012', instanceId: 'r-footer', placeholderKey: 'headless-footer', dataSource: FOOTER_PATH },
+        { id: 'b0c1d2e3-0001-4000-8000-000000000013', instanceId: 'r-authors', placeholderKey: 'headless-main', dataSource: AUTHORS_QUERY },
+        { id: 'b0c1d2e3-0001-4000-8000-000000000014', instanceId: 'r-breadcrumb', placeholderKey: 'headless-header' },
+        { id: 'b0c1d2e3-0001-4000-8000-000000000015', instanceId: 'r-promo-again', placeholderKey: 'headless-footer', dataSource: '{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B}' }
+      ],
+      placeholders: [
+        {
+          key: '/headless-main/container-1',
+          renderings: [
+            { id: 'b0c1d2e3-0001-4000-8000-000000000016', uid: 'r-teaser', componentName: 'Teaser', dataSource: 'b0517293-04b5-4dc6-a7f8-091a2b3c4d5e' }
+          ]
+        }
+      ]
+    }
+  ]
+};
+
+/**
+ * pages.context for the article page, with presentation details as an object
+ */
+export const createPagesContext = (presentationDetails: unknown = PRESENTATION_DETAILS) => ({
+  siteInfo: { name: 'Demo', languages: ['en', 'nl'] },
+  pageInfo: {
+    id: '2b4d6f81-a3c5-4e7a-9b1d-3f5a7c9e1b2d',
+    name: 'Launch Article',
+    path: PAGE_PATH,
+    language: 'en',
+    version: 2,
+    presentationDetails
+  }
+});
+
+const contentItem = (
+  itemId: string,
+  name: string,
+  path: string,
+  templateName: string,
+  languages: MockItem['languages']
+): MockItem => ({
+  itemId,
+  name,
+  path,
+  template: { templateId: 'a1b2c3d4-0001-4000-8000-000000000001', name: templateName },
+  languages
+});
+
+const versions = (count: number, updatedBy = 'sitecore\\carla') => Array.from({ length: count }, (_, index) => ({
+  version: index + 1,
+  updated: `2025090${index + 1}T100000Z`,
+  updatedBy,
+  fields: { Title: `Version ${index + 1}` }
+}));
+
+/**
+ * The article page and its datasources as a mock content fixture (see src/dev), in English:
+ * - page: version 2 with version 1 published (outdated)
+ * - hero, promo and teaser: up to date
+ * - banner: never published
+ * - footer: version 3 with version 1 published (outdated)
+ */
+export const ARTICLE_FIXTURE: MockFixture = {
+  name: 'Launch Article',
+  description: 'Article page with every datasource format',
+  site: { name: 'Demo', languages: ['en', 'nl'] },
+  pageId: IDS.page,
+  items: [
+    {
+      ...contentItem(IDS.page, 'Launch Article', PAGE_PATH, 'Article Page', {
+        en: { versions: versions(2), published: 1 },
+        nl: { versions: versions(1), published: 1 }
+      }),
+      presentationDetails: PRESENTATION_DETAILS
+    },
+    contentItem(IDS.hero, 'Hero', `${PAGE_PATH}/Data/Hero`, 'Hero', {
+      en: { versions: versions(1), published: 1 },
+      nl: { versions: versions(1) }
+    }),
+    contentItem(IDS.promo, 'Spring Promo', '/sitecore/content/Demo/Demo/Data/Promos/Spring Promo', 'Promo', {
+      en: { versions: versions(1), published: 1 }
+    }),
+    contentItem(IDS.banner, 'Summer Banner', '/sitecore/content/Demo/Demo/Data/Promos/Summer Banner', 'Promo', {
+      en: { versions: versions(1, 'sitecore\\bram') }
+    }),
+    contentItem(IDS.footer, 'Footer', FOOTER_PATH, 'Footer', {
+      en: { versions: versions(3), published: 1 }
+    }),
+    contentItem(IDS.teaser, 'Newsletter Teaser', '/sitecore/content/Demo/Demo/Data/Teasers/Newsletter Teaser', 'Teaser', {
+      en: { versions: versions(2), published: 2 }
+    }),
+    contentItem(IDS.author, 'Carla', '/sitecore/content/Demo/Demo/Data/Authors/Carla', 'Author', {
+      en: { versions: versions(1), published: 1 }
+    })
+  ]
+};
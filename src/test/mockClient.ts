@@ -0,0 +1,83 @@
+// test/mockClient.ts
+import { vi } from 'vitest';
+import type { ClientSDK } from '@sitecore-marketplace-sdk/client';
+import { executeGraphQL } from '../dev/graphqlExecutor';
+import type { GraphQLResponse } from '../dev/graphqlExecutor';
+import type { MockContent } from '../dev/mockContent';
+
+export type GraphQLEndpoint = 'authoring' | 'live' | 'preview';
+
+/**
+ * GraphQL request the app sent through client.mutate
+ */
+export interface MockGraphQLRequest {
+  endpoint: GraphQLEndpoint;
+  query: string;
+  sitecoreContextId?: string;
+}
+
+/**
+ * Response body of an XMC GraphQL endpoint; errors may carry the path of the alias they belong to
+ */
+export interface MockGraphQLResponse {
+  data?: Record<string, unknown> | null;
+  errors?: Array<{ message: string; path?: string[] }>;
+}
+
+export type MockGraphQLHandler = (request: MockGraphQLRequest) => MockGraphQLResponse | Promise<MockGraphQLResponse>;
+
+export const CONTEXT_IDS = {
+  preview: 'test-preview-context',
+  live: 'test-live-context'
+};
+
+const ENDPOINTS: Record<string, GraphQLEndpoint> = {
+  'xmc.authoring.graphql': 'authoring',
+  'xmc.live.graphql': 'live',
+  'xmc.preview.graphql': 'preview'
+};
+
+/**
+ * ClientSDK stand-in: XMC GraphQL mutations go to the handler and application.context
+ * grants the test context IDs. `mutate` and `query` are spies for asserting on requests
+ */
+export const createMockClient = (
+  handler: MockGraphQLHandler,
+  resourceContext: { preview?: string; live?: string } = CONTEXT_IDS
+) => {
+  const mutate = vi.fn(async (key: string, options: { params: { query?: { sitecoreContextId?: string }; body: { query: string } } }) => {
+    const endpoint = ENDPOINTS[key];
+    if (!endpoint) {
+      throw new Error(`Unexpected mutation ${key}`);
+    }
+    // The SDK resolves with the parsed response body under `data`
+    return { data: await handler({ endpoint, query: options.params.body.query, sitecoreContextId: options.params.query?.sitecoreContextId }) };
+  });
+
+  const query = vi.fn(async (key: string) => {
+    if (key !== 'application.context') {
+      throw new Error(`Unexpected query ${key}`);
+    }
+    return { data: { resourceAccess: [{ resourceId: 'xmcloud', tenantId: 'test-tenant', context: resourceContext }] } };
+  });
+
+  return { client: { mutate, query } as unknown as ClientSDK, mutate, query };
+};
+
+/**
+ * Handler answering queries from mock content (see src/dev), like the local mock host does
+ */
+export const createContentHandler = (content: MockContent): MockGraphQLHandler => ({ endpoint, query }): GraphQLResponse => {
+  return executeGraphQL(query, endpoint === 'authoring' ? content.authoringRoots() : content.deliveryRoots(endpoint));
+};
+
+/**
+ * Aliased item lookups in a multi-item query, in query order
+ */
+export const getQueriedItems = (query: string): Array<{ alias: string; id: string; language?: string }> => {
+  return Array.from(query.matchAll(/(\w+):\s*item\(([^)]*)\)/g)).map(([, alias, args]) => ({
+    alias,
+    id: (/(?:itemId|path):\s*"\{?([^"}]+)\}?"/.exec(args)?.[1] || '').replace(/-/g, '').toUpperCase(),
+    language: /language:\s*"([^"]+)"/.exec(args)?.[1]
+  }));
+};
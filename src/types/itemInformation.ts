@@ -1,6 +1,36 @@
 // types/itemInformation.ts
 
-export type ItemType = 'current' | 'datasource' | 'link' | 'reference';
+export type ItemType = 'current' | 'datasource' | 'link' | 'reference' | 'media';
+
+/**
+ * Where a referenced item ID was found
+ */
+export type ReferenceSource =
+  | 'rendering-datasource'
+  | 'local-datasource'
+  | 'query-datasource'
+  | 'general-link'
+  | 'rich-text'
+  | 'multilist'
+  | 'media-field'
+  | 'field';
+
+/**
+ * Where a referenced item is used: the item holding the reference and the field or rendering
+ */
+export interface ReferenceProvenance {
+  source: ReferenceSource;
+  /** ID of the item holding the reference (the page for rendering datasources) */
+  sourceItemId: string;
+  /** Field containing the reference (field references only) */
+  fieldName?: string;
+  /** Rendering instance UID (rendering datasources only) */
+  renderingUid?: string;
+  /** Rendering/component name, or rendering ID when no name is available */
+  renderingName?: string;
+  placeholder?: string;
+  device?: string;
+}
 
 export interface ProcessedItemInfo {
   id: string;
@@ -8,12 +38,100 @@ export interface ProcessedItemInfo {
   path: string;
   latestVersion: number;
   publishedVersion: number | null;
+  /** Version on the Experience Edge preview endpoint; undefined when preview data was not fetched */
+  previewVersion?: number | null;
   isPublished: boolean;
   isOutdated: boolean;
   versionDifference: number;
   itemType: ItemType;
   template?: string;
   language?: string;
+  /** Every kind of place the item was found; drives the item type */
+  referenceSources?: ReferenceSource[];
+  /** Every place the item is used on the page */
+  provenance?: ReferenceProvenance[];
+  /** The `query:` datasource this item was resolved from, if any */
+  resolvedFromQuery?: string;
+  /** Number of field reference hops from the page and its datasources (crawled items only) */
+  referenceDepth?: number;
+  /** ID of the item whose fields referenced this item (crawled items only) */
+  referencedBy?: string;
+  /** Per-language version and status, keyed by language name */
+  languageVersions?: Record<string, LanguageVersionInfo>;
+  /** File details for media library items */
+  media?: MediaInfo;
+  /** Workflow state of the latest version in the primary language */
+  workflow?: WorkflowInfo;
+  /** Why some of the item's data could not be loaded (its status may be incomplete) */
+  loadError?: string;
+  /** ISO timestamp from __Updated of the latest version in the primary language */
+  updatedAt?: string;
+  /** User who last edited the latest version in the primary language */
+  updatedBy?: string;
+}
+
+/**
+ * Workflow and current workflow state of an item version
+ */
+export interface WorkflowInfo {
+  workflowId: string;
+  workflowName: string;
+  stateId: string;
+  stateName: string;
+  /** Whether the state is final, i.e. the version can be published */
+  isFinal: boolean;
+}
+
+/**
+ * One version of an item in one language, as listed in the version history
+ */
+export interface ItemVersionInfo {
+  version: number;
+  /** ISO timestamp from __Created */
+  createdAt?: string;
+  createdBy?: string;
+  /** ISO timestamp from __Updated */
+  updatedAt?: string;
+  updatedBy?: string;
+  workflowState?: string;
+  isFinalState?: boolean;
+}
+
+export interface WorkflowCommand {
+  commandId: string;
+  displayName: string;
+}
+
+export interface MediaInfo {
+  extension?: string;
+  mimeType?: string;
+  /** Size of the latest version's file in bytes */
+  size?: number;
+  /** Blob ID of the latest version's file */
+  blobId?: string;
+  /** Size of the published file in bytes, when Experience Edge returns it */
+  publishedSize?: number;
+  /** Media URL from Experience Edge, used for thumbnails */
+  url?: string;
+  /** The published version matches the latest version but its file was replaced since publishing */
+  blobDiffers: boolean;
+}
+
+export interface LanguageVersionInfo {
+  language: string;
+  latestVersion: number;
+  publishedVersion: number | null;
+  /** Version on the Experience Edge preview endpoint; undefined when preview data was not fetched */
+  previewVersion?: number | null;
+  isPublished: boolean;
+  isOutdated: boolean;
+  versionDifference: number;
+  /** Workflow state of the latest version in this language */
+  workflow?: WorkflowInfo;
+  /** ISO timestamp from __Updated of the latest version in this language */
+  updatedAt?: string;
+  /** User who last edited the latest version in this language */
+  updatedBy?: string;
 }
 
 export interface ItemInformationSummary {
@@ -27,6 +145,12 @@ export interface ItemInformationResponse {
   currentItem: ProcessedItemInfo;
   referencedItems: ProcessedItemInfo[];
   summary: ItemInformationSummary;
+  /** Languages queried, the first one being the language shown in the main tables */
+  languages: string[];
+  /** Non-fatal problems found while collecting items (e.g. unsupported query datasources) */
+  warnings: string[];
+  /** ISO timestamp of when the data was loaded */
+  fetchedAt: string;
 }
 
 export interface AuthoringItemResponse {
@@ -40,10 +164,33 @@ export interface AuthoringItemResponse {
   language?: {
     name: string;
   };
+  workflow?: {
+    workflow: {
+      workflowId: string;
+      displayName: string;
+    } | null;
+    workflowState: {
+      stateId: string;
+      displayName: string;
+      final: boolean;
+    } | null;
+  } | null;
+  /** Media file fields, requested by alias */
+  extension?: { value: string } | null;
+  mimeType?: { value: string } | null;
+  size?: { value: string } | null;
+  blob?: { value: string } | null;
+  /** Statistics fields of the version, requested by alias */
+  updated?: { value: string } | null;
+  updatedBy?: { value: string } | null;
   fields?: {
     nodes: Array<{
       name: string;
       value: string;
+      /** Present when the query requests the template field definition */
+      templateField?: {
+        type: string;
+      };
     }>;
   };
 }
@@ -55,6 +202,16 @@ export interface LiveItemResponse {
   language?: {
     name: string;
   };
+  /** Media items only: URL and file fields */
+  url?: {
+    url: string;
+  } | null;
+  size?: {
+    value: string;
+  } | null;
+  blob?: {
+    value: string;
+  } | null;
 }
 
 export interface GraphQLAuthoringResponse {
@@ -81,6 +238,39 @@ export interface GraphQLLiveResponse {
   }>;
 }
 
+/**
+ * A chunk of items an endpoint query failed for
+ */
+export interface ChunkFailure {
+  /** Endpoint name, e.g. "Authoring" or "Live" */
+  endpoint: string;
+  itemIds: string[];
+  error: string;
+}
+
+/**
+ * Items from one endpoint keyed by item ID (uppercase, no hyphens), then language
+ * null means the endpoint has no such item; items from failed chunks are absent
+ */
+export type ItemsByIdAndLanguage<T> = Record<string, Record<string, T | null>>;
+
+export interface BatchedQueryResult<T> {
+  items: ItemsByIdAndLanguage<T>;
+  failures: ChunkFailure[];
+  /** Items served from expired cache entries, which should be revalidated */
+  staleItemIds?: string[];
+}
+
+/**
+ * Layout fields of an item, used to find pages and their rendering datasources
+ */
+export interface LayoutFieldsResponse {
+  itemId: string;
+  path: string;
+  renderings: { value: string } | null;
+  finalRenderings: { value: string } | null;
+}
+
 export interface ItemQueryResult {
   data?: {
     data?: Record<string, unknown>;
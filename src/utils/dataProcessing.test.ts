@@ -0,0 +1,385 @@
+// utils/dataProcessing.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  createItemInformationResponse,
+  extractItemIdsWithLocalPaths,
+  extractLayoutDatasources,
+  formatGuidWithHyphens,
+  formatGuidWithoutHyphens,
+  getLanguagesToPublish,
+  getPublishingStatus,
+  isValidGuid,
+  mergeProcessedItems,
+  parseDatasourceValue,
+  parseSitecoreDate,
+  processItemData
+} from './dataProcessing';
+import type { AuthoringItemResponse, BatchedQueryResult, LiveItemResponse, ProcessedItemInfo } from '../types/itemInformation';
+import { AUTHORS_QUERY, createPagesContext, DEVICE_ID, FOOTER_PATH, IDS, PAGE_PATH, PRESENTATION_DETAILS } from '../test/fixtures';
+
+describe('GUID helpers', () => {
+  it('accepts GUIDs with or without braces in any case', () => {
+    expect(isValidGuid('{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B}')).toBe(true);
+    expect(isValidGuid('8d2e4f60-7182-4a93-b4c5-d6e7f8091a2b')).toBe(true);
+    expect(isValidGuid('8D2E4F6071824A93B4C5D6E7F8091A2B')).toBe(false);
+    expect(isValidGuid('local:/Data/Hero')).toBe(false);
+  });
+
+  it('formats GUIDs to the compact and hyphenated forms', () => {
+    expect(formatGuidWithoutHyphens('{8d2e4f60-7182-4a93-b4c5-d6e7f8091a2b}')).toBe(IDS.promo);
+    expect(formatGuidWithHyphens(IDS.promo)).toBe('8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B');
+    expect(formatGuidWithHyphens('not-a-guid')).toBe('not-a-guid');
+  });
+
+  it('parses Sitecore dates', () => {
+    expect(parseSitecoreDate('20250131T153000Z')).toBe('2025-01-31T15:30:00Z');
+    expect(parseSitecoreDate('')).toBeUndefined();
+    expect(parseSitecoreDate(null)).toBeUndefined();
+  });
+});
+
+describe('parseDatasourceValue', () => {
+  it('normalizes GUID datasources', () => {
+    expect(parseDatasourceValue('{9e3f5071-8293-4ba4-85d6-e7f8091a2b3c}')).toEqual({
+      directIds: [IDS.banner],
+      localPaths: [],
+      queries: []
+    });
+  });
+
+  it('splits pipe-separated datasources of mixed formats', () => {
+    const result = parseDatasourceValue(' {8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B} | local:/Data/Hero |' + FOOTER_PATH + '||unknown ');
+
+    expect(result.directIds).toEqual([IDS.promo]);
+    expect(result.localPaths).toEqual(['Data/Hero', FOOTER_PATH]);
+    expect(result.queries).toEqual([]);
+  });
+
+  it('keeps query datasources whole, even when they contain pipes', () => {
+    expect(parseDatasourceValue(AUTHORS_QUERY)).toEqual({ directIds: [], localPaths: [], queries: [AUTHORS_QUERY] });
+  });
+
+  it('returns nothing for empty values', () => {
+    expect(parseDatasourceValue('')).toEqual({ directIds: [], localPaths: [], queries: [] });
+  });
+});
+
+describe('extractLayoutDatasources', () => {
+  it('collects GUID datasources, local paths and queries from shared and final layouts', () => {
+    const layoutXml = [
+      '<r xmlns:p="p" xmlns:s="s" p:p="1">',
+      `<d id="{${DEVICE_ID}}" l="{96E5F4BA-A2CF-4A4C-A4E7-64DA88226362}">`,
+      '<r uid="{A}" ds="{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B}" ph="headless-main" />',
+      '<r uid="{B}" s:ds="{8d2e4f60-7182-4a93-b4c5-d6e7f8091a2b}|{9E3F5071-8293-4BA4-85D6-E7F8091A2B3C}" s:ph="headless-main" />',
+      '<r uid="{C}" s:ds="local:/Data/Hero" s:ph="headless-main" />',
+      `<r uid="{D}" s:ds="${AUTHORS_QUERY.replace(/'/g, '&apos;')}" s:ph="headless-main" />`,
+      '<r uid="{E}" s:ds="" s:ph="headless-footer" />',
+      '</d></r>'
+    ].join('');
+
+    expect(extractLayoutDatasources(layoutXml)).toEqual({
+      ids: [IDS.promo, IDS.banner],
+      localPaths: ['Data/Hero'],
+      queries: [AUTHORS_QUERY]
+    });
+  });
+
+  it('only returns datasources on the merged layout', () => {
+    const sharedLayout = [
+      `<r><d id="{${DEVICE_ID}}">`,
+      '<r uid="{A}" ds="{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B}" ph="headless-main" />',
+      '<r uid="{B}" ds="local:/Data/Hero" ph="headless-main" />',
+      '</d></r>'
+    ].join('');
+    const finalLayout = [
+      `<r xmlns:p="p" xmlns:s="s" p:p="1"><d id="{${DEVICE_ID}}">`,
+      '<r uid="{A}" s:ds="{9E3F5071-8293-4BA4-85D6-E7F8091A2B3C}" />',
+      '<r uid="{B}" p:d="1" />',
+      '</d></r>'
+    ].join('');
+
+    expect(extractLayoutDatasources(sharedLayout, finalLayout)).toEqual({ ids: [IDS.banner], localPaths: [], queries: [] });
+  });
+
+  it('returns nothing for malformed layout XML', () => {
+    expect(extractLayoutDatasources('<r><d id="x"><r uid="{A}" ds="{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B}">')).toEqual({ ids: [], localPaths: [], queries: [] });
+  });
+});
+
+describe('extractItemIdsWithLocalPaths', () => {
+  it('finds the page and every datasource format in presentation details', () => {
+    const result = extractItemIdsWithLocalPaths(createPagesContext());
+
+    expect(result.itemIds).toEqual([IDS.page, IDS.promo, IDS.banner, IDS.teaser]);
+    expect(result.localPathsToResolve).toEqual(['Data/Hero', FOOTER_PATH]);
+    expect(result.queriesToResolve).toEqual([AUTHORS_QUERY]);
+    expect(result.currentPagePath).toBe(PAGE_PATH);
+  });
+
+  it('parses presentation details sent as a JSON string', () => {
+    const fromString = extractItemIdsWithLocalPaths(createPagesContext(JSON.stringify(PRESENTATION_DETAILS)));
+    const fromObject = extractItemIdsWithLocalPaths(createPagesContext());
+
+    expect(fromString).toEqual(fromObject);
+  });
+
+  it('records where each datasource is used, including nested placeholders', () => {
+    const { provenance, unresolvedProvenance } = extractItemIdsWithLocalPaths(createPagesContext());
+
+    expect(provenance[IDS.promo]).toEqual([
+      expect.objectContaining({ source: 'rendering-datasource', renderingUid: 'r-promos', placeholder: 'headless-main', device: DEVICE_ID }),
+      expect.objectContaining({ source: 'rendering-datasource', renderingUid: 'r-promo-again', placeholder: 'headless-footer' })
+    ]);
+    expect(provenance[IDS.teaser]).toEqual([{
+      source: 'rendering-datasource',
+      sourceItemId: IDS.page,
+      renderingUid: 'r-teaser',
+      renderingName: 'Teaser',
+      placeholder: '/headless-main/container-1',
+      device: DEVICE_ID
+    }]);
+    expect(unresolvedProvenance['Data/Hero']).toEqual([expect.objectContaining({ source: 'local-datasource', renderingUid: 'r-hero' })]);
+    expect(unresolvedProvenance[FOOTER_PATH]).toEqual([expect.objectContaining({ source: 'rendering-datasource', renderingUid: 'r-footer' })]);
+    expect(unresolvedProvenance[AUTHORS_QUERY]).toEqual([expect.objectContaining({ source: 'query-datasource', renderingUid: 'r-authors' })]);
+  });
+
+  it('reads datasources from the merged shared and final layout when layout fields are given', () => {
+    const layoutFields = {
+      itemId: IDS.page,
+      path: PAGE_PATH,
+      renderings: { value: `<r><d id="{${DEVICE_ID}}"><r uid="{A}" ds="{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B}" ph="headless-main" /><r uid="{B}" ds="local:/Data/Hero" ph="headless-main" /></d></r>` },
+      finalRenderings: { value: `<r xmlns:p="p" xmlns:s="s" p:p="1"><d id="{${DEVICE_ID}}"><r uid="{B}" p:d="1" /><r uid="{C}" s:ds="{9E3F5071-8293-4BA4-85D6-E7F8091A2B3C}" s:ph="headless-main" p:before="r[@uid='{A}']" /></d></r>` }
+    };
+
+    const result = extractItemIdsWithLocalPaths(createPagesContext(), layoutFields);
+
+    expect(result.itemIds).toEqual([IDS.page, IDS.banner, IDS.promo]);
+    expect(result.localPathsToResolve).toEqual([]);
+    expect(result.queriesToResolve).toEqual([]);
+    expect(result.provenance[IDS.banner]).toEqual([expect.objectContaining({ source: 'rendering-datasource', renderingUid: 'C', placeholder: 'headless-main' })]);
+  });
+
+  it('falls back to presentation details when the page has no layout fields', () => {
+    expect(extractItemIdsWithLocalPaths(createPagesContext(), { itemId: IDS.page, path: PAGE_PATH, renderings: null, finalRenderings: null }))
+      .toEqual(extractItemIdsWithLocalPaths(createPagesContext()));
+  });
+
+  it('returns only the page when presentation details cannot be parsed', () => {
+    const result = extractItemIdsWithLocalPaths(createPagesContext('{"devices": ['));
+
+    expect(result.itemIds).toEqual([IDS.page]);
+    expect(result.localPathsToResolve).toEqual([]);
+  });
+
+  it('falls back to the site or root item ID without page info', () => {
+    expect(extractItemIdsWithLocalPaths({ siteInfo: { id: '{7c1d3e5f-6071-4829-a3b4-c5d6e7f8091a}' } }).itemIds).toEqual([IDS.hero]);
+    expect(extractItemIdsWithLocalPaths({ itemId: '7c1d3e5f-6071-4829-a3b4-c5d6e7f8091a' }).itemIds).toEqual([IDS.hero]);
+  });
+
+  it('returns nothing for an invalid context', () => {
+    expect(extractItemIdsWithLocalPaths(null).itemIds).toEqual([]);
+    expect(extractItemIdsWithLocalPaths({ pageInfo: { path: PAGE_PATH } }).itemIds).toEqual([]);
+  });
+});
+
+/**
+ * Authoring response for one item version
+ */
+const authoringItem = (overrides: Partial<AuthoringItemResponse> & { version: number }): AuthoringItemResponse => ({
+  itemId: '',
+  name: 'Item',
+  path: '/sitecore/content/Demo/Demo/Data/Item',
+  template: { name: 'Promo' },
+  language: { name: 'en' },
+  ...overrides
+});
+
+const liveItem = (version: number, overrides: Partial<LiveItemResponse> = {}): LiveItemResponse => ({
+  id: '',
+  name: 'Item',
+  version,
+  language: { name: 'en' },
+  ...overrides
+});
+
+const batch = <T>(items: BatchedQueryResult<T>['items'], failures: BatchedQueryResult<T>['failures'] = []): BatchedQueryResult<T> => ({ items, failures });
+
+describe('processItemData', () => {
+  const authoring = batch<AuthoringItemResponse>({
+    [IDS.page]: { en: authoringItem({ name: 'Launch Article', path: PAGE_PATH, version: 2, updated: { value: '20250902T100000Z' } }), nl: authoringItem({ version: 1 }) },
+    [IDS.promo]: { en: authoringItem({ name: 'Spring Promo', version: 1 }), nl: null },
+    [IDS.banner]: { en: authoringItem({ name: 'Summer Banner', version: 1 }), nl: null }
+  });
+  const live = batch<LiveItemResponse>({
+    [IDS.page]: { en: liveItem(1), nl: liveItem(1) },
+    [IDS.promo]: { en: liveItem(1), nl: null },
+    [IDS.banner]: { en: null, nl: null }
+  });
+
+  it('compares latest and published versions per item and language', () => {
+    const [page, promo, banner] = processItemData(authoring, live, [IDS.page, IDS.promo, IDS.banner], IDS.page, ['en', 'nl']);
+
+    expect(page).toMatchObject({ name: 'Launch Article', itemType: 'current', latestVersion: 2, publishedVersion: 1, isOutdated: true, versionDifference: 1, updatedAt: '2025-09-02T10:00:00Z' });
+    expect(page.languageVersions?.nl).toMatchObject({ latestVersion: 1, publishedVersion: 1, isOutdated: false });
+    expect(promo).toMatchObject({ isPublished: true, isOutdated: false });
+    expect(banner).toMatchObject({ isPublished: false, publishedVersion: null, versionDifference: 1 });
+    expect(banner.loadError).toBeUndefined();
+    expect([page, promo, banner].map(getPublishingStatus)).toEqual(['Outdated', 'Up-to-date', 'Not Published']);
+  });
+
+  it('types items by how they were referenced', () => {
+    const provenance = extractItemIdsWithLocalPaths(createPagesContext()).provenance;
+    const [, promo] = processItemData(authoring, live, [IDS.page, IDS.promo], IDS.page, ['en'], provenance);
+
+    expect(promo.itemType).toBe('datasource');
+    expect(promo.referenceSources).toEqual(['rendering-datasource']);
+    expect(promo.provenance).toHaveLength(2);
+  });
+
+  it('flags items from failed query chunks without dropping the rest', () => {
+    const partialLive = batch<LiveItemResponse>(
+      { [IDS.page]: { en: liveItem(1) } },
+      [{ endpoint: 'Live', itemIds: ['8d2e4f60-7182-4a93-b4c5-d6e7f8091a2b'], error: 'Timeout' }]
+    );
+    const [page, promo] = processItemData(authoring, partialLive, [IDS.page, IDS.promo], IDS.page, ['en']);
+
+    expect(page.loadError).toBeUndefined();
+    expect(promo.loadError).toBe('Live: Timeout');
+    expect(getPublishingStatus(promo)).toBe('Load Failed');
+  });
+
+  it('tells items missing from preview apart from preview not being queried', () => {
+    const preview = batch<LiveItemResponse>({ [IDS.page]: { en: liveItem(2) }, [IDS.banner]: { en: null } });
+    const [page, promo, banner] = processItemData(authoring, live, [IDS.page, IDS.promo, IDS.banner], IDS.page, ['en'], {}, preview);
+
+    expect(page.previewVersion).toBe(2);
+    expect(promo.previewVersion).toBeUndefined();
+    expect(banner.previewVersion).toBeNull();
+  });
+
+  it('detects a replaced media file when the version is unchanged', () => {
+    const mediaId = 'D2739B4C5E6F4A7B8C9D0E1F2A3B4C5D';
+    const media = processItemData(
+      batch({ [mediaId]: { en: authoringItem({ path: '/sitecore/media library/Project/Demo/hero', version: 1, extension: { value: 'jpg' }, size: { value: '2048' }, blob: { value: '{A7C3E9F1-2B4D-4F6A-8C0E-1D3F5A7B9C2E}' } }) } }),
+      batch({ [mediaId]: { en: liveItem(1, { url: { url: '/-/media/project/demo/hero.jpg' }, size: { value: '1024' }, blob: { value: '{a7c3e9f1-2b4d-4f6a-8c0e-1d3f5a7b9c2e}' } }) } }),
+      [mediaId]
+    )[0];
+
+    expect(media.itemType).toBe('media');
+    expect(media.media).toEqual({
+      extension: 'jpg',
+      mimeType: undefined,
+      size: 2048,
+      publishedSize: 1024,
+      blobId: '{A7C3E9F1-2B4D-4F6A-8C0E-1D3F5A7B9C2E}',
+      url: '/-/media/project/demo/hero.jpg',
+      blobDiffers: true
+    });
+  });
+
+  it('names items neither endpoint returned', () => {
+    const [missing] = processItemData(batch({}), batch({}), [IDS.footer]);
+
+    expect(missing).toMatchObject({ name: 'Unknown Item', latestVersion: 0, isPublished: false });
+  });
+});
+
+describe('getPublishingStatus', () => {
+  const base = { isPublished: true, isOutdated: true, publishedVersion: 1, latestVersion: 2 };
+  const draft = { workflowId: 'wf', workflowName: 'Sample Workflow', stateId: 'draft', stateName: 'Draft', isFinal: false };
+
+  it('checks statuses in priority order', () => {
+    expect(getPublishingStatus({ ...base, loadError: 'Live: Timeout', workflow: draft })).toBe('Load Failed');
+    expect(getPublishingStatus({ ...base, workflow: draft, previewVersion: 1 })).toBe('Awaiting Approval');
+    expect(getPublishingStatus({ ...base, previewVersion: 1 })).toBe('Preview Out of Sync');
+    expect(getPublishingStatus({ ...base, workflow: { ...draft, isFinal: true } })).toBe('Approved, Not Published');
+    expect(getPublishingStatus({ ...base, isPublished: false, isOutdated: false, publishedVersion: null })).toBe('Not Published');
+    expect(getPublishingStatus(base)).toBe('Outdated');
+    expect(getPublishingStatus({ ...base, isOutdated: false, publishedVersion: 2 })).toBe('Up-to-date');
+  });
+});
+
+describe('getLanguagesToPublish', () => {
+  const version = (language: string, latestVersion: number, publishedVersion: number | null) => ({
+    language,
+    latestVersion,
+    publishedVersion,
+    isPublished: publishedVersion !== null,
+    isOutdated: publishedVersion !== null && publishedVersion < latestVersion,
+    versionDifference: latestVersion - (publishedVersion ?? 0)
+  });
+
+  it('publishes the primary language and every outdated or unpublished language', () => {
+    const languageVersions = {
+      en: version('en', 2, 2),
+      nl: version('nl', 3, 1),
+      de: version('de', 1, null),
+      fr: version('fr', 0, null),
+      'da-DK': { ...version('da-DK', 2, 1), workflow: { workflowId: 'wf', workflowName: 'Sample Workflow', stateId: 'draft', stateName: 'Draft', isFinal: false } }
+    };
+
+    expect(getLanguagesToPublish({ language: 'en', languageVersions })).toEqual(['en', 'nl', 'de']);
+  });
+
+  it('falls back to the default language without language versions', () => {
+    expect(getLanguagesToPublish({})).toEqual(['en']);
+  });
+});
+
+describe('createItemInformationResponse', () => {
+  const item = (id: string, overrides: Partial<ProcessedItemInfo> = {}): ProcessedItemInfo => ({
+    id,
+    name: id,
+    path: '',
+    latestVersion: 1,
+    publishedVersion: 1,
+    isPublished: true,
+    isOutdated: false,
+    versionDifference: 0,
+    itemType: 'datasource',
+    ...overrides
+  });
+
+  it('separates the current item from referenced items and summarizes them', () => {
+    const response = createItemInformationResponse([
+      item(IDS.promo),
+      item(IDS.page, { itemType: 'current', isOutdated: true }),
+      item(IDS.banner, { isPublished: false, publishedVersion: null })
+    ], ['en', 'nl'], ['Live data could not be loaded for 1 item(s): Timeout']);
+
+    expect(response.currentItem.id).toBe(IDS.page);
+    expect(response.referencedItems.map(entry => entry.id)).toEqual([IDS.promo, IDS.banner]);
+    expect(response.summary).toEqual({ totalItems: 3, publishedItems: 2, unpublishedItems: 1, outdatedItems: 1 });
+    expect(response.languages).toEqual(['en', 'nl']);
+    expect(response.warnings).toHaveLength(1);
+  });
+
+  it('uses the first item as current when none is marked', () => {
+    const response = createItemInformationResponse([item(IDS.promo), item(IDS.banner)]);
+
+    expect(response.currentItem.id).toBe(IDS.promo);
+    expect(response.referencedItems.map(entry => entry.id)).toEqual([IDS.banner]);
+  });
+
+  it('returns a placeholder current item for an empty list', () => {
+    expect(createItemInformationResponse([]).currentItem).toMatchObject({ id: 'unknown', name: 'No Current Item' });
+  });
+});
+
+describe('mergeProcessedItems', () => {
+  it('replaces refreshed items but keeps how they were found', () => {
+    const existing: ProcessedItemInfo[] = [
+      { id: IDS.promo, name: 'Promo', path: '', latestVersion: 1, publishedVersion: 1, isPublished: true, isOutdated: false, versionDifference: 0, itemType: 'datasource', referenceSources: ['rendering-datasource'] }
+    ];
+    const refreshed: ProcessedItemInfo[] = [
+      { ...existing[0], latestVersion: 2, isOutdated: true, versionDifference: 1, itemType: 'reference', referenceSources: undefined },
+      { ...existing[0], id: IDS.banner }
+    ];
+
+    const merged = mergeProcessedItems(existing, refreshed);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ latestVersion: 2, isOutdated: true, itemType: 'datasource', referenceSources: ['rendering-datasource'] });
+    expect(merged[1].id).toBe(IDS.banner);
+  });
+});
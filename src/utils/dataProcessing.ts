@@ -1,13 +1,27 @@
 // utils/dataProcessing.ts
 import type { 
   ProcessedItemInfo, 
+  LanguageVersionInfo,
   ItemInformationResponse,
   ItemInformationSummary,
   AuthoringItemResponse,
   LiveItemResponse,
   ItemType,
-  ItemQueryResult
+  ReferenceSource,
+  ReferenceProvenance,
+  MediaInfo,
+  WorkflowInfo,
+  BatchedQueryResult,
+  LayoutFieldsResponse
 } from '../types/itemInformation';
+import { getFieldReferenceParser } from './fieldParsers';
+import { mergeLayouts, parsePresentationDetails } from './layoutParser';
+import type { LayoutDevice } from './layoutParser';
+
+/**
+ * Language used when neither the page context nor the site provides one
+ */
+export const DEFAULT_LANGUAGE = 'en';
 
 /**
  * Normalize item ID to uppercase without braces or hyphens (for internal use)
@@ -33,27 +47,47 @@ export const formatGuidWithoutHyphens = (guid: string): string => {
   return guid.replace(/[{}-]/g, '').toUpperCase();
 };
 
+/**
+ * Convert a Sitecore date field value (e.g. 20240131T153000Z) to an ISO timestamp
+ */
+export const parseSitecoreDate = (value?: string | null): string | undefined => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})/);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute, second] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}Z`;
+};
+
 /**
  * Check if a string is a valid GUID format
  */
-const isValidGuid = (str: string): boolean => {
+export const isValidGuid = (str: string): boolean => {
   const guidRegex = /^[{]?[0-9A-Fa-f]{8}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{12}[}]?$/;
   return guidRegex.test(str);
 };
 
 /**
- * Parse datasource value and extract item IDs and local paths
- * Returns object with directIds (GUIDs) and localPaths (need resolution)
+ * Parse datasource value and extract item IDs, local paths and queries
+ * Returns object with directIds (GUIDs), localPaths and queries (both need resolution)
  */
-const parseDatasourceValue = (datasource: string): { directIds: string[], localPaths: string[] } => {
+export const parseDatasourceValue = (datasource: string): { directIds: string[], localPaths: string[], queries: string[] } => {
   const directIds: string[] = [];
   const localPaths: string[] = [];
+  const queries: string[] = [];
   
   if (!datasource || typeof datasource !== 'string') {
-    return { directIds, localPaths };
+    return { directIds, localPaths, queries };
   }
   
   console.log(`🔍 Parsing datasource value: "${datasource}"`);
+
+  // Query datasources may contain pipes themselves, so they are never split
+  if (datasource.trim().startsWith('query:')) {
+    queries.push(datasource.trim());
+    console.log(`  🎯 Found query datasource: "${datasource.trim()}" - needs evaluation`);
+    return { directIds, localPaths, queries };
+  }
   
   // Handle multiple datasources separated by pipes
   const datasources = datasource.split('|').map(ds => ds.trim()).filter(ds => ds.length > 0);
@@ -73,106 +107,119 @@ const parseDatasourceValue = (datasource: string): { directIds: string[], localP
       // Sitecore content path - needs to be resolved via GraphQL
       localPaths.push(ds); // Store full path for resolution
       console.log(`  🎯 Found content path datasource: "${ds}" - needs resolution`);
-    } else if (ds.startsWith('query:')) {
-      // Query-based datasource - complex resolution needed
-      console.log(`  🎯 Found query datasource: "${ds}" - complex resolution needed`);
-      // TODO: Handle query-based datasources
     } else if (ds.length > 0) {
       // Unknown format - log for debugging
       console.log(`  ⚠️ Unknown datasource format: "${ds}"`);
     }
   }
   
-  return { directIds, localPaths };
+  return { directIds, localPaths, queries };
 };
 
 /**
- * Extract all datasource item IDs from presentation details structure
- * Returns both direct GUID references and local paths that need resolution
+ * Find the datasources on a page's effective layout: its shared layout (__Renderings)
+ * merged with its final layout (__Final Renderings)
+ * GUID datasources are returned as item IDs; local paths and queries need resolution against the page
  */
-const extractDatasourcesFromPresentationDetails = (presentationDetails: unknown): { directIds: string[], localPaths: string[] } => {
-  const directIds: string[] = [];
-  const localPaths: string[] = [];
-  
-  if (!presentationDetails) {
-    return { directIds, localPaths };
-  }
-  
+export const extractLayoutDatasources = (
+  sharedLayout?: string | null,
+  finalLayout?: string | null
+): { ids: string[]; localPaths: string[]; queries: string[] } => {
+  const ids = new Set<string>();
+  const localPaths = new Set<string>();
+  const queries = new Set<string>();
+
   try {
-    // Parse the presentation details (could be string or object)
-    let details: Record<string, unknown>;
-    if (typeof presentationDetails === 'string') {
-      details = JSON.parse(presentationDetails) as Record<string, unknown>;
-    } else {
-      details = presentationDetails as Record<string, unknown>;
-    }
-    
-    // Navigate the presentation structure to find renderings and their datasources
-    if (details.devices && Array.isArray(details.devices)) {
-      for (const device of details.devices) {
-        if (device.renderings && Array.isArray(device.renderings)) {
-          for (const rendering of device.renderings) {
-            if (rendering.dataSource || rendering.datasource) {
-              const datasourceValue = rendering.dataSource || rendering.datasource;
-              console.log(`📄 Found rendering datasource: "${datasourceValue}"`);
-              
-              const { directIds: renderingDirectIds, localPaths: renderingLocalPaths } = parseDatasourceValue(datasourceValue);
-              
-              // Collect direct IDs
-              renderingDirectIds.forEach(id => {
-                if (!directIds.includes(id)) {
-                  directIds.push(id);
-                }
-              });
-              
-              // Collect local paths
-              renderingLocalPaths.forEach(path => {
-                if (!localPaths.includes(path)) {
-                  localPaths.push(path);
-                }
-              });
-            }
-          }
-        }
-        
-        // Also check placeholders for nested datasources
-        if (device.placeholders && Array.isArray(device.placeholders)) {
-          for (const placeholder of device.placeholders) {
-            // Recursively process placeholder renderings
-            if (placeholder.renderings && Array.isArray(placeholder.renderings)) {
-              for (const rendering of placeholder.renderings) {
-                if (rendering.dataSource || rendering.datasource) {
-                  const datasourceValue = rendering.dataSource || rendering.datasource;
-                  console.log(`📄 Found placeholder rendering datasource: "${datasourceValue}"`);
-                  
-                  const { directIds: placeholderDirectIds, localPaths: placeholderLocalPaths } = parseDatasourceValue(datasourceValue);
-                  
-                  // Collect direct IDs
-                  placeholderDirectIds.forEach(id => {
-                    if (!directIds.includes(id)) {
-                      directIds.push(id);
-                    }
-                  });
-                  
-                  // Collect local paths
-                  placeholderLocalPaths.forEach(path => {
-                    if (!localPaths.includes(path)) {
-                      localPaths.push(path);
-                    }
-                  });
-                }
-              }
-            }
-          }
-        }
-      }
+    mergeLayouts(sharedLayout, finalLayout).forEach(device => {
+      device.renderings.forEach(rendering => {
+        const parsed = parseDatasourceValue(rendering.dataSource || '');
+        parsed.directIds.forEach(id => ids.add(normalizeItemId(id)));
+        parsed.localPaths.forEach(path => localPaths.add(path));
+        parsed.queries.forEach(query => queries.add(query));
+      });
+    });
+  } catch (error) {
+    console.warn('Error parsing layout XML:', error);
+  }
+
+  return { ids: Array.from(ids), localPaths: Array.from(localPaths), queries: Array.from(queries) };
+};
+
+/**
+ * Whether layout fields were loaded and the page has a shared or final layout
+ */
+const hasLayoutFields = (layoutFields?: LayoutFieldsResponse | null): layoutFields is LayoutFieldsResponse => {
+  return !!(layoutFields?.renderings?.value || layoutFields?.finalRenderings?.value);
+};
+
+/**
+ * Datasources found in presentation details, with provenance for each datasource value
+ */
+interface PresentationDatasources {
+  directIds: string[];
+  localPaths: string[];
+  queries: string[];
+  /** Provenance keyed by direct ID, local path or query */
+  provenance: Record<string, ReferenceProvenance[]>;
+}
+
+/**
+ * Extract all datasource item IDs from the page's effective layout: its layout fields merged
+ * per device when they were loaded, otherwise the presentation details (JSON or layout XML)
+ * Returns direct GUID references plus local paths and queries that need resolution,
+ * each with the rendering, placeholder and device it was found on
+ */
+const extractDatasourcesFromPresentationDetails = (
+  presentationDetails: unknown,
+  pageItemId: string = '',
+  layoutFields?: LayoutFieldsResponse | null
+): PresentationDatasources => {
+  const result: PresentationDatasources = { directIds: [], localPaths: [], queries: [], provenance: {} };
+
+  const collect = (list: string[], value: string, record: ReferenceProvenance) => {
+    if (!list.includes(value)) {
+      list.push(value);
     }
+    (result.provenance[value] || (result.provenance[value] = [])).push(record);
+  };
+
+  let devices: LayoutDevice[] = [];
+  try {
+    devices = hasLayoutFields(layoutFields)
+      ? mergeLayouts(layoutFields.renderings?.value, layoutFields.finalRenderings?.value)
+      : parsePresentationDetails(presentationDetails);
   } catch (error) {
     console.warn('Error parsing presentation details:', error);
   }
-  
-  console.log(`📋 Extracted ${directIds.length} direct datasource IDs and ${localPaths.length} local paths from presentation details`);
-  return { directIds, localPaths };
+
+  devices.forEach(device => {
+    device.renderings.forEach(rendering => {
+      if (!rendering.dataSource) {
+        return;
+      }
+      console.log(`📄 Found rendering datasource: "${rendering.dataSource}"`);
+
+      const baseRecord = {
+        sourceItemId: pageItemId,
+        renderingUid: rendering.uid || undefined,
+        renderingName: rendering.componentName || rendering.renderingId,
+        placeholder: rendering.placeholder || undefined,
+        device: device.name || device.id || undefined
+      };
+
+      const { directIds, localPaths, queries } = parseDatasourceValue(rendering.dataSource);
+      directIds.forEach(id => collect(result.directIds, id, { ...baseRecord, source: 'rendering-datasource' }));
+      localPaths.forEach(path => collect(result.localPaths, path, {
+        ...baseRecord,
+        // Full content paths are regular datasources; anything else lives under the page's Data folder
+        source: path.startsWith('/sitecore/') ? 'rendering-datasource' : 'local-datasource'
+      }));
+      queries.forEach(query => collect(result.queries, query, { ...baseRecord, source: 'query-datasource' }));
+    });
+  });
+
+  console.log(`📋 Extracted ${result.directIds.length} direct datasource IDs, ${result.localPaths.length} local paths and ${result.queries.length} queries from presentation details`);
+  return result;
 };
 
 /**
@@ -181,9 +228,26 @@ const extractDatasourcesFromPresentationDetails = (presentationDetails: unknown)
 export interface ExtractedItemInfo {
   itemIds: string[];
   localPathsToResolve: string[];
+  queriesToResolve: string[];
   currentPagePath: string;
+  /** Where each direct item ID was found, keyed by item ID */
+  provenance: Record<string, ReferenceProvenance[]>;
+  /** Where each local path and query was found, keyed by the path or query */
+  unresolvedProvenance: Record<string, ReferenceProvenance[]>;
 }
 
+/**
+ * Record where an item was found (IDs are normalized)
+ */
+export const addProvenance = (
+  provenance: Record<string, ReferenceProvenance[]>,
+  itemId: string,
+  record: ReferenceProvenance
+): void => {
+  const id = normalizeItemId(itemId);
+  (provenance[id] || (provenance[id] = [])).push(record);
+};
+
 /**
  * Extract item IDs from pages context including datasources from presentation details
  */
@@ -194,17 +258,21 @@ export const extractItemIds = (pageContext: unknown): string[] => {
 
 /**
  * Enhanced version that returns more detailed information for local path resolution
+ * @param layoutFields - The page's __Renderings and __Final Renderings; when given, datasources
+ * come from their merged layout instead of the presentation details in pages context
  */
-export const extractItemIdsWithLocalPaths = (pageContext: unknown): ExtractedItemInfo => {
+export const extractItemIdsWithLocalPaths = (pageContext: unknown, layoutFields?: LayoutFieldsResponse | null): ExtractedItemInfo => {
   console.log('Pages context:', pageContext);
   
   if (!pageContext || typeof pageContext !== 'object') {
     console.warn('Invalid page context provided');
-    return { itemIds: [], localPathsToResolve: [], currentPagePath: '' };
+    return { itemIds: [], localPathsToResolve: [], queriesToResolve: [], currentPagePath: '', provenance: {}, unresolvedProvenance: {} };
   }
 
   const context = pageContext as Record<string, unknown>;
   const itemIds: string[] = [];
+  const provenance: Record<string, ReferenceProvenance[]> = {};
+  const unresolvedProvenance: Record<string, ReferenceProvenance[]> = {};
   let currentItemId: string | null = null;
   let currentPagePath = '';
 
@@ -222,22 +290,31 @@ export const extractItemIdsWithLocalPaths = (pageContext: unknown): ExtractedIte
     
     console.log('Found current item ID from pageInfo:', currentItemId);
     
-    // Extract datasources from presentation details
-    if (pageInfo.presentationDetails) {
+    // Extract datasources from the page's layout
+    if (pageInfo.presentationDetails || hasLayoutFields(layoutFields)) {
       console.log('🔍 Extracting datasources from presentation details...');
-      const { directIds, localPaths } = extractDatasourcesFromPresentationDetails(pageInfo.presentationDetails);
+      const pageItemId = typeof currentItemId === 'string' ? normalizeItemId(currentItemId) : '';
+      const datasources = extractDatasourcesFromPresentationDetails(pageInfo.presentationDetails, pageItemId, layoutFields);
+      const { directIds, localPaths, queries } = datasources;
+
+      // Local paths and queries keep their provenance until they are resolved to IDs
+      [...localPaths, ...queries].forEach(value => {
+        unresolvedProvenance[value] = datasources.provenance[value] || [];
+      });
       
       // Add direct GUID datasources
       directIds.forEach(id => {
+        (datasources.provenance[id] || []).forEach(record => addProvenance(provenance, id, record));
         if (!itemIds.includes(id)) {
           console.log(`📝 Found direct datasource item: ${id}`);
           itemIds.push(id);
         }
       });
       
-      // Return info about local paths that need resolution
-      if (localPaths.length > 0) {
+      // Return info about local paths and queries that need resolution
+      if (localPaths.length > 0 || queries.length > 0) {
         console.log(`🔍 Found ${localPaths.length} local paths to resolve:`, localPaths);
+        console.log(`🔍 Found ${queries.length} queries to resolve:`, queries);
         
         // Add main item first
         if (currentItemId && typeof currentItemId === 'string') {
@@ -250,7 +327,10 @@ export const extractItemIdsWithLocalPaths = (pageContext: unknown): ExtractedIte
         return { 
           itemIds, 
           localPathsToResolve: localPaths, 
-          currentPagePath 
+          queriesToResolve: queries,
+          currentPagePath,
+          provenance,
+          unresolvedProvenance
         };
       }
     }
@@ -279,78 +359,371 @@ export const extractItemIdsWithLocalPaths = (pageContext: unknown): ExtractedIte
     }
   } else {
     console.warn('Could not extract current item ID from page context');
-    return { itemIds: [], localPathsToResolve: [], currentPagePath: '' };
+    return { itemIds: [], localPathsToResolve: [], queriesToResolve: [], currentPagePath: '', provenance: {}, unresolvedProvenance: {} };
   }
 
   console.log('Extracted item IDs:', itemIds);
-  return { itemIds, localPathsToResolve: [], currentPagePath };
+  return { itemIds, localPathsToResolve: [], queriesToResolve: [], currentPagePath, provenance, unresolvedProvenance };
+};
+
+/**
+ * Language information discovered from pages context
+ */
+export interface ContextLanguageInfo {
+  currentLanguage: string;
+  siteLanguages: string[];
+  siteName: string;
+}
+
+/**
+ * Extract the current page language and the site's languages from pages context
+ */
+export const extractLanguagesFromContext = (pageContext: unknown): ContextLanguageInfo => {
+  const context = (pageContext && typeof pageContext === 'object' ? pageContext : {}) as Record<string, unknown>;
+  const pageInfo = (context.pageInfo || {}) as Record<string, unknown>;
+  const siteInfo = (context.siteInfo || {}) as Record<string, unknown>;
+
+  const currentLanguage = (typeof pageInfo.language === 'string' && pageInfo.language) || DEFAULT_LANGUAGE;
+
+  const rawLanguages = Array.isArray(siteInfo.languages) && siteInfo.languages.length > 0
+    ? siteInfo.languages
+    : siteInfo.supportedLanguages;
+
+  const siteLanguages = Array.isArray(rawLanguages)
+    ? rawLanguages.filter((language): language is string => typeof language === 'string' && language.length > 0)
+    : [];
+
+  console.log('🌐 Languages from context:', { currentLanguage, siteLanguages });
+
+  return {
+    currentLanguage,
+    siteLanguages,
+    siteName: (siteInfo.name as string) || ''
+  };
+};
+
+/**
+ * Order languages so the current language comes first, removing duplicates
+ */
+export const orderLanguages = (currentLanguage: string, siteLanguages: string[]): string[] => {
+  const languages = [currentLanguage];
+  siteLanguages.forEach(language => {
+    if (!languages.some(existing => existing.toLowerCase() === language.toLowerCase())) {
+      languages.push(language);
+    }
+  });
+  return languages;
+};
+
+export const MEDIA_LIBRARY_PATH = '/sitecore/media library/';
+
+/**
+ * Check whether an item lives in the media library
+ */
+export const isMediaItemPath = (path?: string): boolean => {
+  return !!path && path.toLowerCase().startsWith(MEDIA_LIBRARY_PATH);
 };
 
 /**
- * Determine item type based on context and relationships
+ * Determine item type based on context and where the item was referenced from
+ * Media library items and Image/File references are media; otherwise datasource sources
+ * win over links, which win over plain field references
  */
-export const determineItemType = (itemId: string, currentItemId?: string): ItemType => {
+export const determineItemType = (
+  itemId: string,
+  currentItemId?: string,
+  sources: ReferenceSource[] = [],
+  path?: string
+): ItemType => {
   if (itemId === currentItemId) {
     return 'current';
   }
-  
-  // TODO: Implement logic to determine if item is datasource, link, or reference
-  // This would require analyzing the item's relationship to the current item
-  
-  // Placeholder logic
+
+  if (isMediaItemPath(path) || sources.includes('media-field')) {
+    return 'media';
+  }
+
+  if (sources.some(source => source === 'rendering-datasource' || source === 'local-datasource' || source === 'query-datasource')) {
+    return 'datasource';
+  }
+
+  if (sources.some(source => source === 'general-link' || source === 'rich-text')) {
+    return 'link';
+  }
+
   return 'reference';
 };
 
 /**
- * Process raw GraphQL responses into ProcessedItemInfo objects
+ * Build the alias used for an item/language pair in multi-item queries
  */
-export const processItemData = (
-  authoringResult: ItemQueryResult,
-  liveResult: ItemQueryResult,
-  itemIds: string[],
-  currentItemId?: string
-): ProcessedItemInfo[] => {
-  const processedItems: ProcessedItemInfo[] = [];
-
-  // Validate both responses
-  const authoringValidation = validateResponse(authoringResult);
-  const liveValidation = validateResponse(liveResult);
+export const getItemAlias = (itemIndex: number, languageIndex: number): string => {
+  return `item${itemIndex}_${languageIndex}`;
+};
 
-  if (!authoringValidation.isValid) {
-    console.error('Authoring data validation failed:', authoringValidation.errors);
+/**
+ * Read the workflow state of an authoring item, if it is in a workflow
+ */
+const createWorkflowInfo = (authoringItem?: AuthoringItemResponse): WorkflowInfo | undefined => {
+  const workflow = authoringItem?.workflow?.workflow;
+  const state = authoringItem?.workflow?.workflowState;
+  if (!workflow || !state) {
+    return undefined;
   }
 
-  if (!liveValidation.isValid) {
-    console.error('Live data validation failed:', liveValidation.errors);
+  return {
+    workflowId: workflow.workflowId,
+    workflowName: workflow.displayName,
+    stateId: state.stateId,
+    stateName: state.displayName,
+    isFinal: state.final
+  };
+};
+
+/**
+ * Whether an item's latest version is unpublished because it has not reached a final workflow state
+ * Publishing cannot help until the version is approved
+ */
+export const isAwaitingApproval = (
+  item: Pick<LanguageVersionInfo, 'isPublished' | 'isOutdated' | 'workflow'>
+): boolean => {
+  return !!item.workflow && !item.workflow.isFinal && (item.isOutdated || !item.isPublished);
+};
+
+/**
+ * Languages to publish an item in: every language whose latest version is unpublished or
+ * outdated and not awaiting approval, plus the primary language so republishing still works
+ */
+export const getLanguagesToPublish = (item: Pick<ProcessedItemInfo, 'language' | 'languageVersions'>): string[] => {
+  const primaryLanguage = item.language || DEFAULT_LANGUAGE;
+  const outdatedLanguages = Object.values(item.languageVersions || {})
+    .filter(version => version.latestVersion > 0 && (!version.isPublished || version.isOutdated) && !isAwaitingApproval(version))
+    .map(version => version.language);
+
+  return [primaryLanguage, ...outdatedLanguages.filter(language => language !== primaryLanguage)];
+};
+
+/**
+ * Whether the latest version is approved (final workflow state) but not yet on Edge
+ */
+export const isApprovedNotPublished = (
+  item: Pick<LanguageVersionInfo, 'isPublished' | 'isOutdated' | 'workflow'>
+): boolean => {
+  return !!item.workflow?.isFinal && (item.isOutdated || !item.isPublished);
+};
+
+/**
+ * Whether the Edge preview endpoint serves a different version than master
+ * Always false when preview data was not fetched
+ */
+export const isPreviewOutOfSync = (
+  item: Pick<LanguageVersionInfo, 'latestVersion' | 'previewVersion'>
+): boolean => {
+  return item.previewVersion !== undefined && item.previewVersion !== item.latestVersion;
+};
+
+/**
+ * Publishing status shown for an item, in the order the statuses are checked
+ */
+export type PublishingStatus =
+  | 'Load Failed'
+  | 'Awaiting Approval'
+  | 'Preview Out of Sync'
+  | 'Approved, Not Published'
+  | 'Not Published'
+  | 'Outdated'
+  | 'Up-to-date';
+
+/**
+ * Version fields needed to work out a publishing status
+ */
+export type PublishingStatusFields = Pick<ProcessedItemInfo, 'isPublished' | 'isOutdated' | 'publishedVersion' | 'latestVersion' | 'previewVersion' | 'workflow' | 'loadError'>;
+
+/**
+ * Work out the single publishing status to show for an item or language version
+ */
+export const getPublishingStatus = (item: PublishingStatusFields): PublishingStatus => {
+  // Without data from every endpoint the other statuses cannot be trusted
+  if (item.loadError) {
+    return 'Load Failed';
+  }
+  // Checked next: publishing will not help until the latest version is approved
+  if (isAwaitingApproval(item)) {
+    return 'Awaiting Approval';
+  }
+  if (isPreviewOutOfSync(item)) {
+    return 'Preview Out of Sync';
+  }
+  if (isApprovedNotPublished(item)) {
+    return 'Approved, Not Published';
+  }
+  if (!item.isPublished) {
+    return 'Not Published';
   }
+  return item.isOutdated ? 'Outdated' : 'Up-to-date';
+};
+
+/**
+ * Calculate version status for a single item in a single language
+ * @param previewItem - Item from the Edge preview endpoint; pass null when preview was queried but the item is missing
+ */
+const createLanguageVersionInfo = (
+  language: string,
+  authoringItem?: AuthoringItemResponse,
+  liveItem?: LiveItemResponse,
+  previewItem?: LiveItemResponse | null
+): LanguageVersionInfo => {
+  const latestVersion = authoringItem?.version || 0;
+  const publishedVersion = liveItem?.version || null;
+  const isPublished = publishedVersion !== null;
+  const isOutdated = isPublished && publishedVersion < latestVersion;
+
+  return {
+    language,
+    latestVersion,
+    publishedVersion,
+    previewVersion: previewItem === undefined ? undefined : previewItem?.version || null,
+    isPublished,
+    isOutdated,
+    versionDifference: isPublished ? latestVersion - publishedVersion : latestVersion,
+    workflow: createWorkflowInfo(authoringItem),
+    updatedAt: parseSitecoreDate(authoringItem?.updated?.value),
+    updatedBy: authoringItem?.updatedBy?.value || undefined
+  };
+};
+
+const parseFileSize = (value?: string | null): number | undefined => {
+  const size = value ? parseInt(value, 10) : NaN;
+  return isNaN(size) ? undefined : size;
+};
+
+/**
+ * Build media details for a media library item, comparing the latest and published blobs
+ * The blob can be replaced without creating a new version, so a matching version number
+ * does not guarantee the published file is current
+ */
+const createMediaInfo = (
+  versionInfo: LanguageVersionInfo,
+  authoringItem?: AuthoringItemResponse,
+  liveItem?: LiveItemResponse
+): MediaInfo => {
+  const size = parseFileSize(authoringItem?.size?.value);
+  const publishedSize = parseFileSize(liveItem?.size?.value);
+  const blobId = authoringItem?.blob?.value || undefined;
+  const publishedBlobId = liveItem?.blob?.value || undefined;
+
+  const isSameVersion = versionInfo.isPublished && !versionInfo.isOutdated;
+  const blobIdDiffers = !!blobId && !!publishedBlobId && formatGuidWithoutHyphens(blobId) !== formatGuidWithoutHyphens(publishedBlobId);
+  const sizeDiffers = size !== undefined && publishedSize !== undefined && size !== publishedSize;
+
+  return {
+    extension: authoringItem?.extension?.value || undefined,
+    mimeType: authoringItem?.mimeType?.value || undefined,
+    size,
+    publishedSize,
+    blobId,
+    url: liveItem?.url?.url || undefined,
+    blobDiffers: isSameVersion && (blobIdDiffers || sizeDiffers)
+  };
+};
+
+/**
+ * Describe the failed queries an item was part of, if any
+ */
+const getItemLoadError = (
+  itemId: string,
+  results: Array<BatchedQueryResult<unknown> | undefined>
+): string | undefined => {
+  const messages = results
+    .flatMap(result => result?.failures || [])
+    .filter(failure => failure.itemIds.some(id => normalizeItemId(id) === itemId))
+    .map(failure => `${failure.endpoint}: ${failure.error}`);
+
+  return messages.length > 0 ? messages.join('; ') : undefined;
+};
+
+/**
+ * Build one warning per failed query chunk so partial loads are visible in the panel
+ */
+export const describeQueryFailures = (results: Array<Pick<BatchedQueryResult<unknown>, 'failures'> | undefined>): string[] => {
+  return results
+    .flatMap(result => result?.failures || [])
+    .map(failure => `${failure.endpoint} data could not be loaded for ${failure.itemIds.length} item(s): ${failure.error}`);
+};
+
+/**
+ * Process batched query results into ProcessedItemInfo objects
+ * The first language is the primary one and drives the top-level version fields
+ */
+export const processItemData = (
+  authoringResult: BatchedQueryResult<AuthoringItemResponse>,
+  liveResult: BatchedQueryResult<LiveItemResponse>,
+  itemIds: string[],
+  currentItemId?: string,
+  languages: string[] = [DEFAULT_LANGUAGE],
+  provenance: Record<string, ReferenceProvenance[]> = {},
+  previewResult?: BatchedQueryResult<LiveItemResponse>
+): ProcessedItemInfo[] => {
+  const processedItems: ProcessedItemInfo[] = [];
 
   itemIds.forEach((itemId, index) => {
-    const authoringItem = authoringValidation.data?.[`item${index}`] as AuthoringItemResponse | undefined;
-    const liveItem = liveValidation.data?.[`item${index}`] as LiveItemResponse | undefined;
+    const normalizedId = normalizeItemId(itemId);
+    const languageVersions: Record<string, LanguageVersionInfo> = {};
+    let primaryAuthoringItem: AuthoringItemResponse | undefined;
+    let primaryLiveItem: LiveItemResponse | undefined;
+    const previewItems = previewResult?.items[normalizedId];
+
+    languages.forEach((language, languageIndex) => {
+      const authoringItem = authoringResult.items[normalizedId]?.[language] || undefined;
+      const liveItem = liveResult.items[normalizedId]?.[language] || undefined;
+      // null (rather than undefined) marks an item missing from preview; failed or skipped preview queries are ignored
+      const previewItem = previewItems ? previewItems[language] ?? null : undefined;
+
+      if (languageIndex === 0) {
+        primaryAuthoringItem = authoringItem;
+        primaryLiveItem = liveItem;
+      }
 
-    console.log(`Processing item ${index} (${itemId}):`);
-    console.log('  Authoring item:', authoringItem);
-    console.log('  Live item:', liveItem);
+      languageVersions[language] = createLanguageVersionInfo(language, authoringItem, liveItem, previewItem);
+    });
 
-    const latestVersion = authoringItem?.version || 0;
-    const publishedVersion = liveItem?.version || null;
-    const isPublished = publishedVersion !== null;
-    const isOutdated = isPublished && publishedVersion < latestVersion;
+    const primaryLanguage = languages[0];
+    const primaryVersion = languageVersions[primaryLanguage];
+    const itemProvenance = provenance[normalizeItemId(itemId)];
+    const referenceSources = itemProvenance
+      ? Array.from(new Set(itemProvenance.map(record => record.source)))
+      : undefined;
+    const path = primaryAuthoringItem?.path || '';
+    const itemType = determineItemType(itemId, currentItemId, referenceSources, path);
 
-    console.log(`  Latest version: ${latestVersion}, Published version: ${publishedVersion}`);
+    console.log(`Processing item ${index} (${itemId}):`);
+    console.log('  Authoring item:', primaryAuthoringItem);
+    console.log('  Live item:', primaryLiveItem);
+    console.log(`  Latest version: ${primaryVersion.latestVersion}, Published version: ${primaryVersion.publishedVersion}`);
 
     processedItems.push({
       id: itemId,
-      name: authoringItem?.name || liveItem?.name || 'Unknown Item',
-      path: authoringItem?.path || '',
-      latestVersion,
-      publishedVersion,
-      isPublished,
-      isOutdated,
-      versionDifference: isPublished ? latestVersion - publishedVersion : latestVersion,
-      itemType: determineItemType(itemId, currentItemId),
-      template: authoringItem?.template?.name,
-      language: authoringItem?.language?.name || liveItem?.language?.name || 'en'
+      name: primaryAuthoringItem?.name || primaryLiveItem?.name || 'Unknown Item',
+      path,
+      latestVersion: primaryVersion.latestVersion,
+      publishedVersion: primaryVersion.publishedVersion,
+      previewVersion: primaryVersion.previewVersion,
+      isPublished: primaryVersion.isPublished,
+      isOutdated: primaryVersion.isOutdated,
+      versionDifference: primaryVersion.versionDifference,
+      itemType,
+      referenceSources,
+      provenance: itemProvenance,
+      template: primaryAuthoringItem?.template?.name,
+      language: primaryAuthoringItem?.language?.name || primaryLiveItem?.language?.name || primaryLanguage,
+      languageVersions,
+      workflow: primaryVersion.workflow,
+      loadError: getItemLoadError(normalizedId, [authoringResult, liveResult, previewResult]),
+      updatedAt: parseSitecoreDate(primaryAuthoringItem?.updated?.value),
+      updatedBy: primaryAuthoringItem?.updatedBy?.value || undefined,
+      media: itemType === 'media' || isMediaItemPath(path)
+        ? createMediaInfo(primaryVersion, primaryAuthoringItem, primaryLiveItem)
+        : undefined
     });
   });
 
@@ -369,11 +742,49 @@ export const generateSummary = (items: ProcessedItemInfo[]): ItemInformationSumm
   };
 };
 
+/**
+ * Fields describing how an item was found, which only a full fetch can determine
+ */
+const DISCOVERY_FIELDS = [
+  'itemType',
+  'referenceSources',
+  'provenance',
+  'resolvedFromQuery',
+  'referenceDepth',
+  'referencedBy'
+] as const;
+
+/**
+ * Replace existing items with freshly processed ones (matched by ID), keeping how they were found
+ * (see DISCOVERY_FIELDS). Items that were not in the existing list are appended
+ */
+export const mergeProcessedItems = (
+  existingItems: ProcessedItemInfo[],
+  updatedItems: ProcessedItemInfo[]
+): ProcessedItemInfo[] => {
+  const updatedById = new Map(updatedItems.map(item => [item.id, item]));
+
+  const merged = existingItems.map(item => {
+    const updated = updatedById.get(item.id);
+    if (!updated) {
+      return item;
+    }
+    updatedById.delete(item.id);
+
+    const discovery = Object.fromEntries(DISCOVERY_FIELDS.map(field => [field, item[field]]));
+    return { ...updated, ...discovery } as ProcessedItemInfo;
+  });
+
+  return [...merged, ...updatedById.values()];
+};
+
 /**
  * Create complete ItemInformationResponse from processed items
  */
 export const createItemInformationResponse = (
-  items: ProcessedItemInfo[]
+  items: ProcessedItemInfo[],
+  languages: string[] = [DEFAULT_LANGUAGE],
+  warnings: string[] = []
 ): ItemInformationResponse => {
   const currentItem = items.find(item => item.itemType === 'current');
   const referencedItems = items.filter(item => item.itemType !== 'current');
@@ -395,45 +806,54 @@ export const createItemInformationResponse = (
       itemType: 'current'
     },
     referencedItems: finalReferencedItems,
-    summary: generateSummary(items)
+    summary: generateSummary(items),
+    languages,
+    warnings,
+    fetchedAt: new Date().toISOString()
   };
 };
 
 /**
- * Helper function to validate GraphQL response structure
+ * Item reference found in a field value
  */
-const validateResponse = (response: ItemQueryResult): {
-  isValid: boolean;
-  errors: string[];
-  data: Record<string, unknown> | null;
-} => {
-  const errors: string[] = [];
+export interface FieldReference {
+  id: string;
+  source: ReferenceSource;
+  fieldName: string;
+  /** Whether the field references the item as media (image, file or media link) */
+  isMedia: boolean;
+}
 
-  if (response.error) {
-    errors.push(`Response error: ${String(response.error)}`);
-    return { isValid: false, errors, data: null };
-  }
+/**
+ * Extract item references from item fields, recording what kind of field each came from
+ * Each field is parsed according to its template field type, so GUIDs in fields that
+ * cannot hold references (e.g. rendering parameters) are ignored
+ */
+export const extractFieldReferences = (item: AuthoringItemResponse): FieldReference[] => {
+  const references: FieldReference[] = [];
 
-  if (!response.data?.data) {
-    errors.push('No data in response');
-    return { isValid: false, errors, data: null };
+  if (!item.fields?.nodes) {
+    return references;
   }
 
-  if (response.data.errors && response.data.errors.length > 0) {
-    response.data.errors.forEach((error: unknown) => {
-      if (typeof error === 'object' && error !== null && 'message' in error) {
-        errors.push(`GraphQL error: ${String((error as { message: unknown }).message)}`);
-      } else {
-        errors.push(`GraphQL error: ${String(error)}`);
+  item.fields.nodes.forEach(field => {
+    if (!field.value) {
+      return;
+    }
+
+    const parser = getFieldReferenceParser(field.templateField?.type, field.value);
+    if (!parser) {
+      return;
+    }
+
+    parser.parse(field.value).forEach(({ id, isMedia }) => {
+      if (!references.some(reference => reference.id === id && reference.fieldName === field.name)) {
+        references.push({ id, source: parser.source, fieldName: field.name, isMedia });
       }
     });
-  }
+  });
 
-  return {
-    isValid: errors.length === 0,
-    errors,
-    data: response.data.data as Record<string, unknown>
-  };
+  return references;
 };
 
 /**
@@ -441,29 +861,7 @@ const validateResponse = (response: ItemQueryResult): {
  * This would analyze the item's fields to find references to other items
  */
 export const extractDatasourceReferences = (item: AuthoringItemResponse): string[] => {
-  const references: string[] = [];
-  
-  if (!item.fields?.nodes) {
-    return references;
-  }
-
-  // Look for fields that might contain item references
-  item.fields.nodes.forEach(field => {
-    // Check for GUID patterns in field values (Sitecore item IDs)
-    const guidRegex = /\{?[0-9A-Fa-f]{8}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{12}\}?/g;
-    const matches = field.value.match(guidRegex);
-    
-    if (matches) {
-      matches.forEach(match => {
-        const cleanGuid = match.replace(/[{}]/g, '').toUpperCase();
-        if (!references.includes(cleanGuid)) {
-          references.push(cleanGuid);
-        }
-      });
-    }
-  });
-
-  return references;
+  return Array.from(new Set(extractFieldReferences(item).map(reference => reference.id)));
 };
 
 /**
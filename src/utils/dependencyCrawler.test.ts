@@ -0,0 +1,99 @@
+// utils/dependencyCrawler.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import { crawlReferences } from './dependencyCrawler';
+import type { AuthoringItemResponse, BatchedQueryResult } from '../types/itemInformation';
+
+const id = (index: number) => `E0F1A2B300014000800${String(index).padStart(13, '0')}`;
+
+const ITEMS = {
+  page: id(1),
+  article: id(2),
+  hero: id(3),
+  thumbnail: id(4),
+  author: id(5),
+  photo: id(6),
+  profile: id(7),
+  missing: id(8)
+};
+
+/**
+ * Field values per item: a multilist of related items and an optional image
+ * page -> article, hero; article -> author, page (a cycle), thumbnail; author -> profile, photo;
+ * profile -> article (another cycle) and an item that does not exist
+ */
+const GRAPH: Record<string, { related: string[]; image?: string }> = {
+  [ITEMS.page]: { related: [ITEMS.article], image: ITEMS.hero },
+  [ITEMS.article]: { related: [ITEMS.author, ITEMS.page], image: ITEMS.thumbnail },
+  [ITEMS.hero]: { related: [] },
+  [ITEMS.thumbnail]: { related: [] },
+  [ITEMS.author]: { related: [ITEMS.profile], image: ITEMS.photo },
+  [ITEMS.photo]: { related: [] },
+  [ITEMS.profile]: { related: [ITEMS.article, ITEMS.missing] }
+};
+
+const toAuthoringItem = (itemId: string): AuthoringItemResponse => ({
+  itemId,
+  name: itemId,
+  path: `/sitecore/content/${itemId}`,
+  version: 1,
+  fields: {
+    nodes: [
+      { name: 'Related', value: GRAPH[itemId].related.map(relatedId => `{${relatedId}}`).join('|'), templateField: { type: 'Multilist' } },
+      ...(GRAPH[itemId].image ? [{ name: 'Image', value: `<image mediaid="{${GRAPH[itemId].image}}" />`, templateField: { type: 'Image' } }] : [])
+    ]
+  }
+});
+
+/**
+ * Loads items from the graph; items listed in failingIds come back as a failed chunk
+ */
+const createFetcher = (failingIds: string[] = []) => vi.fn(async (itemIds: string[]): Promise<BatchedQueryResult<AuthoringItemResponse>> => {
+  const failed = itemIds.filter(itemId => failingIds.includes(itemId));
+  return {
+    items: Object.fromEntries(itemIds
+      .filter(itemId => GRAPH[itemId] && !failed.includes(itemId))
+      .map(itemId => [itemId, { en: toAuthoringItem(itemId) }])),
+    failures: failed.length > 0 ? [{ endpoint: 'Reference fields', itemIds: failed, error: 'Request timed out' }] : []
+  };
+});
+
+const discoveredIds = (result: Awaited<ReturnType<typeof crawlReferences>>) => result.discovered.map(item => item.id);
+
+describe('crawlReferences', () => {
+  it('follows references up to maxDepth, then only media', async () => {
+    const result = await crawlReferences([ITEMS.page], createFetcher(), { maxDepth: 1, maxItems: 100, includeMedia: true });
+
+    expect(discoveredIds(result)).toEqual([ITEMS.article, ITEMS.hero, ITEMS.thumbnail]);
+    expect(result.discovered[2]).toMatchObject({ depth: 2, referencedBy: ITEMS.article, source: 'media-field', fieldName: 'Image', isMedia: true });
+    expect(result.truncated).toBe(false);
+  });
+
+  it('does not crawl at depth 0 without media', async () => {
+    const fetchItems = createFetcher();
+    const result = await crawlReferences([ITEMS.page], fetchItems, { maxDepth: 0, maxItems: 100, includeMedia: false });
+
+    expect(result.discovered).toEqual([]);
+    expect(fetchItems).toHaveBeenCalledTimes(1);
+  });
+
+  it('visits each item once through reference cycles and drops missing items', async () => {
+    const result = await crawlReferences([ITEMS.page], createFetcher(), { maxDepth: 10, maxItems: 100, includeMedia: true });
+
+    expect(discoveredIds(result).sort()).toEqual([ITEMS.article, ITEMS.hero, ITEMS.thumbnail, ITEMS.author, ITEMS.photo, ITEMS.profile].sort());
+    expect(result.discovered.find(item => item.id === ITEMS.profile)).toMatchObject({ depth: 3, referencedBy: ITEMS.author, source: 'multilist' });
+  });
+
+  it('stops at maxItems, counting the starting items', async () => {
+    const result = await crawlReferences([ITEMS.page], createFetcher(), { maxDepth: 10, maxItems: 3, includeMedia: true });
+
+    expect(discoveredIds(result)).toEqual([ITEMS.article, ITEMS.hero]);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('keeps items whose fields failed to load without following them', async () => {
+    const result = await crawlReferences([ITEMS.page], createFetcher([ITEMS.article]), { maxDepth: 10, maxItems: 100, includeMedia: true });
+
+    expect(discoveredIds(result)).toEqual([ITEMS.hero, ITEMS.article]);
+    expect(result.failures).toEqual([{ endpoint: 'Reference fields', itemIds: [ITEMS.article], error: 'Request timed out' }]);
+  });
+});
@@ -0,0 +1,125 @@
+// utils/dependencyCrawler.ts
+import type { AuthoringItemResponse, BatchedQueryResult, ChunkFailure, ReferenceSource } from '../types/itemInformation';
+import { extractFieldReferences, formatGuidWithoutHyphens } from './dataProcessing';
+
+export interface CrawlOptions {
+  /** How many levels of references to follow from the starting items (0 disables crawling) */
+  maxDepth: number;
+  /** Maximum total number of items, including the starting items */
+  maxItems: number;
+  /** Also follow media references (images, files, media links) from items at maxDepth */
+  includeMedia: boolean;
+}
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+  maxDepth: 1,
+  maxItems: 200,
+  includeMedia: true
+};
+
+/**
+ * An item found by following field references
+ */
+export interface CrawledItem {
+  id: string;
+  /** Number of reference hops from the starting items */
+  depth: number;
+  /** ID of the item whose fields referenced this item */
+  referencedBy: string;
+  /** Kind of field the reference was found in */
+  source: ReferenceSource;
+  /** Name of the field the reference was found in */
+  fieldName?: string;
+  /** Whether the field references the item as media */
+  isMedia?: boolean;
+}
+
+export interface CrawlResult {
+  discovered: CrawledItem[];
+  /** Whether the crawl stopped early because maxItems was reached */
+  truncated: boolean;
+  /** Chunks whose fields could not be loaded; references below those items are missing */
+  failures: ChunkFailure[];
+}
+
+/**
+ * Follow item references found in field values, level by level, up to maxDepth
+ * Items already seen are skipped, so reference cycles terminate. References that do not
+ * resolve to an item are dropped; references to items whose fields failed to load are kept,
+ * but not followed.
+ * @param rootItemIds - Items the crawl starts from (the page and its datasources)
+ * @param fetchItems - Loads items with their fields in a single language (see getItemFieldsFromAuthoring)
+ * @param options - Depth and item count limits
+ */
+export const crawlReferences = async (
+  rootItemIds: string[],
+  fetchItems: (itemIds: string[]) => Promise<BatchedQueryResult<AuthoringItemResponse>>,
+  options: CrawlOptions = DEFAULT_CRAWL_OPTIONS
+): Promise<CrawlResult> => {
+  const visited = new Set(rootItemIds.map(formatGuidWithoutHyphens));
+  const discovered: CrawledItem[] = [];
+  const failures: ChunkFailure[] = [];
+  let truncated = false;
+
+  let frontier: CrawledItem[] = rootItemIds.map(id => ({ id, depth: 0, referencedBy: '', source: 'field' }));
+
+  for (let depth = 0; frontier.length > 0; depth++) {
+    console.log(`🕸️ Crawling ${frontier.length} items at depth ${depth}`);
+    const fetched = await fetchItems(frontier.map(item => item.id));
+    failures.push(...fetched.failures);
+    const getFetchedItem = (id: string) => Object.values(fetched.items[formatGuidWithoutHyphens(id)] || {})[0] || null;
+    const failedIds = new Set(fetched.failures.flatMap(failure => failure.itemIds.map(formatGuidWithoutHyphens)));
+
+    // Items at this level only count once they are confirmed to exist, or could not be checked
+    const existing = frontier.filter(item => getFetchedItem(item.id));
+    if (depth > 0) {
+      discovered.push(...existing, ...frontier.filter(item => failedIds.has(formatGuidWithoutHyphens(item.id))));
+    }
+
+    // Items at maxDepth only contribute the media they use; media items are never followed
+    const mediaOnly = depth >= options.maxDepth;
+    if (depth > options.maxDepth || (mediaOnly && !options.includeMedia)) {
+      break;
+    }
+
+    const next: CrawledItem[] = [];
+    for (const item of existing) {
+      if (item.isMedia) {
+        continue;
+      }
+      const references = extractFieldReferences(getFetchedItem(item.id) as AuthoringItemResponse);
+
+      for (const reference of references) {
+        if (mediaOnly && !reference.isMedia) {
+          continue;
+        }
+        const referenceId = formatGuidWithoutHyphens(reference.id);
+        if (visited.has(referenceId)) {
+          continue;
+        }
+        if (visited.size >= options.maxItems) {
+          truncated = true;
+          break;
+        }
+        visited.add(referenceId);
+        next.push({
+          id: referenceId,
+          depth: depth + 1,
+          referencedBy: item.id,
+          source: reference.source,
+          fieldName: reference.fieldName,
+          isMedia: reference.isMedia
+        });
+      }
+
+      if (truncated) {
+        break;
+      }
+    }
+
+    frontier = next;
+  }
+
+  console.log(`🕸️ Crawl found ${discovered.length} referenced items${truncated ? ' (truncated)' : ''}`);
+  return { discovered, truncated, failures };
+};
@@ -0,0 +1,135 @@
+// utils/extensionPoints.ts
+import type { ApplicationContext } from '@sitecore-marketplace-sdk/client';
+
+/**
+ * Top-level views the app can render
+ */
+export type AppView = 'panel' | 'dashboard' | 'widget';
+
+/**
+ * How an extension point is shown by the app
+ */
+export interface ExtensionPointInfo {
+  label: string;
+  /** View rendered in this extension point, or null when it isn't supported */
+  view: AppView | null;
+  description: string;
+}
+
+/**
+ * Extension points a Marketplace app can be hosted in, keyed by extensionPointId
+ */
+export const EXTENSION_POINTS: Record<string, ExtensionPointInfo> = {
+  'xmc:pages:contextpanel': {
+    label: 'Page builder context panel',
+    view: 'panel',
+    description: 'Publishing status of the page being edited and everything it references'
+  },
+  'xmc:fullscreen': {
+    label: 'Full screen',
+    view: 'dashboard',
+    description: 'Site-wide dashboard of outdated and unpublished pages and dependencies'
+  },
+  'standalone': {
+    label: 'Standalone',
+    view: 'dashboard',
+    description: 'Site-wide dashboard, opened from the Cloud Portal'
+  },
+  'xmc:dashboardblocks': {
+    label: 'Dashboard widget',
+    view: 'widget',
+    description: 'Up-to-date, outdated and unpublished counts for a site root or a set of pages'
+  },
+  'xmc:pages:customfield': {
+    label: 'Page builder custom field',
+    view: null,
+    description: 'Not supported - publishing status is about items, not a single field value'
+  }
+};
+
+const APP_VIEWS: AppView[] = ['panel', 'dashboard', 'widget'];
+
+/**
+ * Result of working out where the app is hosted
+ */
+export interface ResolvedAppView {
+  /** View to render, or null when the host is not supported */
+  view: AppView | null;
+  /** Hosting extension point, when it could be identified */
+  extensionPointId: string | null;
+}
+
+const trimTrailingSlashes = (path: string): string => path.replace(/\/+$/, '') || '/';
+
+/**
+ * Check whether an extension point route points at the current iframe URL
+ * The route may be absolute or relative to the app URL; its query parameters must all be present
+ * Returns how many query parameters matched, so the most specific route wins, or -1 when it doesn't match
+ */
+const matchRoute = (route: string, location: Pick<Location, 'origin' | 'pathname' | 'search'>, appUrl?: string): number => {
+  try {
+    const routeUrl = new URL(route, appUrl || location.origin);
+    if (trimTrailingSlashes(routeUrl.pathname) !== trimTrailingSlashes(location.pathname)) {
+      return -1;
+    }
+
+    const currentParams = new URLSearchParams(location.search);
+    const routeParams = Array.from(routeUrl.searchParams.entries());
+    return routeParams.every(([key, value]) => currentParams.get(key) === value) ? routeParams.length : -1;
+  } catch {
+    return -1;
+  }
+};
+
+/**
+ * Identify the hosting extension point from the routes registered for the app
+ * Returns null when none or several equally specific routes point at the current URL
+ */
+export const findHostExtensionPoint = (
+  appContext: ApplicationContext | null | undefined,
+  location: Pick<Location, 'origin' | 'pathname' | 'search'>
+): string | null => {
+  const extensionPoints = appContext?.extensionPoints || [];
+  if (extensionPoints.length === 1) {
+    return extensionPoints[0].extensionPointId;
+  }
+
+  const scored = extensionPoints.map(extensionPoint => {
+    const routes = [extensionPoint.route, ...(extensionPoint.meta || []).map(meta => meta.route)]
+      .filter((route): route is string => !!route);
+    return {
+      extensionPointId: extensionPoint.extensionPointId,
+      score: Math.max(-1, ...routes.map(route => matchRoute(route, location, appContext?.url)))
+    };
+  });
+  const bestScore = Math.max(-1, ...scored.map(({ score }) => score));
+  const matches = scored.filter(({ score }) => score >= 0 && score === bestScore);
+
+  return matches.length === 1 ? matches[0].extensionPointId : null;
+};
+
+/**
+ * Decide which view to render
+ * An explicit ?view= wins, then the identified extension point; with neither the page
+ * view is shown, as the context panel is the app's primary extension point
+ */
+export const resolveAppView = (
+  appContext: ApplicationContext | null | undefined,
+  location: Pick<Location, 'origin' | 'pathname' | 'search'>
+): ResolvedAppView => {
+  const extensionPointId = findHostExtensionPoint(appContext, location);
+  const requestedView = new URLSearchParams(location.search).get('view');
+
+  if (requestedView) {
+    return {
+      view: APP_VIEWS.includes(requestedView as AppView) ? requestedView as AppView : null,
+      extensionPointId
+    };
+  }
+
+  if (extensionPointId) {
+    return { view: EXTENSION_POINTS[extensionPointId]?.view ?? null, extensionPointId };
+  }
+
+  return { view: 'panel', extensionPointId: null };
+};
@@ -0,0 +1,86 @@
+// utils/fieldDiff.test.ts
+import { describe, expect, it } from 'vitest';
+import { diffFieldValues, diffText, isRichTextField, tokenizeText } from './fieldDiff';
+
+describe('diffText', () => {
+  it('marks replaced words between the common words', () => {
+    expect(diffText('The quick fox', 'The slow fox')).toEqual([
+      { type: 'equal', text: 'The ' },
+      { type: 'removed', text: 'quick' },
+      { type: 'added', text: 'slow' },
+      { type: 'equal', text: ' fox' }
+    ]);
+  });
+
+  it('merges consecutive tokens of the same type', () => {
+    expect(diffText('Spring sale', 'Spring sale ends today')).toEqual([
+      { type: 'equal', text: 'Spring sale' },
+      { type: 'added', text: ' ends today' }
+    ]);
+    expect(diffText('Read the full article', 'Read')).toEqual([
+      { type: 'equal', text: 'Read' },
+      { type: 'removed', text: ' the full article' }
+    ]);
+  });
+
+  it('returns one equal segment for unchanged values and nothing for two empty values', () => {
+    expect(diffText('Unchanged', 'Unchanged')).toEqual([{ type: 'equal', text: 'Unchanged' }]);
+    expect(diffText('', '')).toEqual([]);
+  });
+
+  it('keeps HTML tags as single tokens in rich text', () => {
+    expect(tokenizeText('<p class="lead">Hello world</p>', true)).toEqual(['<p class="lead">', 'Hello', ' ', 'world', '</p>']);
+    expect(diffText('<p>Hello world</p>', '<p>Hello <strong>world</strong></p>', true)).toEqual([
+      { type: 'equal', text: '<p>Hello ' },
+      { type: 'added', text: '<strong>' },
+      { type: 'equal', text: 'world' },
+      { type: 'added', text: '</strong>' },
+      { type: 'equal', text: '</p>' }
+    ]);
+  });
+
+  it('shows very large values as a whole replacement', () => {
+    const oldText = Array.from({ length: 1500 }, (_, index) => `old${index}`).join(' ');
+    const newText = Array.from({ length: 1500 }, (_, index) => `new${index}`).join(' ');
+
+    expect(diffText(oldText, newText)).toEqual([
+      { type: 'removed', text: oldText },
+      { type: 'added', text: newText }
+    ]);
+  });
+});
+
+describe('diffFieldValues', () => {
+  it('classifies fields, ignores standard fields and lists changes first', () => {
+    const changes = diffFieldValues(
+      [
+        { name: 'Title', value: 'Launch' },
+        { name: 'Summary', value: 'Old summary' },
+        { name: 'Teaser', value: 'Removed teaser' },
+        { name: '__Updated', value: '20250801T090000Z' }
+      ],
+      [
+        { name: 'Title', value: 'Launch' },
+        { name: 'Summary', value: 'New summary', type: 'Multi-Line Text' },
+        { name: 'Body', value: '<p>New body</p>', type: 'Rich Text' },
+        { name: '__Updated', value: '20250902T100000Z' }
+      ]
+    );
+
+    expect(changes.map(change => [change.fieldName, change.status])).toEqual([
+      ['Summary', 'changed'],
+      ['Body', 'added'],
+      ['Teaser', 'removed'],
+      ['Title', 'unchanged']
+    ]);
+    expect(changes[0].fieldType).toBe('Multi-Line Text');
+  });
+});
+
+describe('isRichTextField', () => {
+  it('uses the field type when known, otherwise looks for markup', () => {
+    expect(isRichTextField({ fieldType: 'Rich Text', oldValue: '', newValue: 'Plain' })).toBe(true);
+    expect(isRichTextField({ fieldType: 'Single-Line Text', oldValue: '', newValue: '<b>Bold</b>' })).toBe(false);
+    expect(isRichTextField({ oldValue: 'Plain', newValue: '<p>Markup</p>' })).toBe(true);
+  });
+});
@@ -0,0 +1,166 @@
+// utils/fieldDiff.ts
+
+/**
+ * Field value keyed by field name, as returned by the authoring or Edge endpoints
+ */
+export interface FieldValue {
+  name: string;
+  value: string;
+  /** Template field type, when known (e.g. "Rich Text") */
+  type?: string;
+}
+
+export type FieldChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface FieldChange {
+  fieldName: string;
+  fieldType?: string;
+  status: FieldChangeStatus;
+  /** Value in the older version (empty when added) */
+  oldValue: string;
+  /** Value in the newer version (empty when removed) */
+  newValue: string;
+}
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+/**
+ * Token count product above which values are shown as a whole replacement instead of a token diff
+ */
+const MAX_DIFF_CELLS = 2_000_000;
+
+/**
+ * Standard fields (__Updated, __Revision, ...) change on every save and are not useful in a diff
+ */
+export const isStandardField = (fieldName: string): boolean => fieldName.startsWith('__');
+
+/**
+ * Compare two sets of field values by field name
+ * Standard fields are ignored. Fields are sorted with changes first, then by name
+ */
+export const diffFieldValues = (oldFields: FieldValue[], newFields: FieldValue[]): FieldChange[] => {
+  const oldByName = new Map(oldFields.filter(field => !isStandardField(field.name)).map(field => [field.name, field]));
+  const newByName = new Map(newFields.filter(field => !isStandardField(field.name)).map(field => [field.name, field]));
+  const fieldNames = Array.from(new Set([...oldByName.keys(), ...newByName.keys()]));
+
+  const statusOrder: Record<FieldChangeStatus, number> = { changed: 0, added: 1, removed: 2, unchanged: 3 };
+
+  return fieldNames
+    .map((fieldName): FieldChange => {
+      const oldField = oldByName.get(fieldName);
+      const newField = newByName.get(fieldName);
+      const oldValue = oldField?.value || '';
+      const newValue = newField?.value || '';
+
+      let status: FieldChangeStatus;
+      if (oldValue === newValue) {
+        status = 'unchanged';
+      } else if (!oldValue) {
+        status = 'added';
+      } else if (!newValue) {
+        status = 'removed';
+      } else {
+        status = 'changed';
+      }
+
+      return {
+        fieldName,
+        fieldType: newField?.type || oldField?.type,
+        status,
+        oldValue,
+        newValue
+      };
+    })
+    .sort((a, b) => statusOrder[a.status] - statusOrder[b.status] || a.fieldName.localeCompare(b.fieldName));
+};
+
+/**
+ * Split text into words and whitespace; HTML tags are kept whole so markup changes show as one token
+ */
+export const tokenizeText = (text: string, isHtml: boolean = false): string[] => {
+  const pattern = isHtml ? /<[^>]+>|[^\s<]+|\s+/g : /[^\s]+|\s+/g;
+  return text.match(pattern) || [];
+};
+
+/**
+ * Merge consecutive segments of the same type
+ */
+const pushSegment = (segments: DiffSegment[], type: DiffSegmentType, text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * Word-level diff of two values using the longest common subsequence of their tokens
+ * @param isHtml - Treat the values as rich text, keeping tags as single tokens
+ */
+export const diffText = (oldText: string, newText: string, isHtml: boolean = false): DiffSegment[] => {
+  if (oldText === newText) {
+    return oldText ? [{ type: 'equal', text: oldText }] : [];
+  }
+
+  const oldTokens = tokenizeText(oldText, isHtml);
+  const newTokens = tokenizeText(newText, isHtml);
+
+  // Very large values are not worth a token diff; show them as replaced
+  if (oldTokens.length * newTokens.length > MAX_DIFF_CELLS) {
+    const segments: DiffSegment[] = [];
+    if (oldText) segments.push({ type: 'removed', text: oldText });
+    if (newText) segments.push({ type: 'added', text: newText });
+    return segments;
+  }
+
+  // lengths[i][j] = LCS length of oldTokens[i..] and newTokens[j..]
+  const lengths: number[][] = Array.from({ length: oldTokens.length + 1 }, () => new Array(newTokens.length + 1).fill(0));
+  for (let i = oldTokens.length - 1; i >= 0; i--) {
+    for (let j = newTokens.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldTokens[i] === newTokens[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldTokens.length && j < newTokens.length) {
+    if (oldTokens[i] === newTokens[j]) {
+      pushSegment(segments, 'equal', oldTokens[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, 'removed', oldTokens[i]);
+      i++;
+    } else {
+      pushSegment(segments, 'added', newTokens[j]);
+      j++;
+    }
+  }
+  while (i < oldTokens.length) {
+    pushSegment(segments, 'removed', oldTokens[i++]);
+  }
+  while (j < newTokens.length) {
+    pushSegment(segments, 'added', newTokens[j++]);
+  }
+
+  return segments;
+};
+
+/**
+ * Whether a field should be diffed as HTML
+ */
+export const isRichTextField = (change: Pick<FieldChange, 'fieldType' | 'oldValue' | 'newValue'>): boolean => {
+  if (change.fieldType) {
+    return change.fieldType.toLowerCase() === 'rich text';
+  }
+  return /<[a-z][^>]*>/i.test(change.oldValue) || /<[a-z][^>]*>/i.test(change.newValue);
+};
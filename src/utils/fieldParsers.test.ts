@@ -0,0 +1,85 @@
+// utils/fieldParsers.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  getFieldReferenceParser,
+  parseGeneralLinkReferences,
+  parseIdListReferences,
+  parseMediaFieldReferences,
+  parseRichTextReferences
+} from './fieldParsers';
+
+const ARTICLE_ID = '8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B';
+const AUTHOR_ID = '9E3F5071-8293-4BA4-85D6-E7F8091A2B3C';
+const IMAGE_ID = 'A1B2C3D4-0001-4000-8000-000000000001';
+
+const compact = (id: string) => id.replace(/-/g, '');
+
+describe('parseGeneralLinkReferences', () => {
+  it('reads internal and media links', () => {
+    expect(parseGeneralLinkReferences(`<link text="Read more" linktype="internal" id="{${ARTICLE_ID}}" />`))
+      .toEqual([{ id: ARTICLE_ID, isMedia: false }]);
+    expect(parseGeneralLinkReferences(`<link linktype="media" id="{${compact(IMAGE_ID).toLowerCase()}}" />`))
+      .toEqual([{ id: IMAGE_ID, isMedia: true }]);
+  });
+
+  it('reads dynamic URLs from older content', () => {
+    expect(parseGeneralLinkReferences(`<link linktype="" url="~/link.aspx?_id=${compact(ARTICLE_ID)}&amp;_z=z" />`))
+      .toEqual([{ id: ARTICLE_ID, isMedia: false }]);
+  });
+
+  it('ignores external, anchor and mailto links', () => {
+    expect(parseGeneralLinkReferences('<link linktype="external" url="https://example.com" />')).toEqual([]);
+    expect(parseGeneralLinkReferences('<link linktype="anchor" anchor="top" />')).toEqual([]);
+    expect(parseGeneralLinkReferences('<link linktype="mailto" url="mailto:info@example.com" />')).toEqual([]);
+  });
+});
+
+describe('parseRichTextReferences', () => {
+  it('reads internal links and media from href and src attributes, once each', () => {
+    const html = [
+      `<p><a href="~/link.aspx?_id=${compact(ARTICLE_ID)}&amp;_z=z">Article</a>`,
+      `<img src="-/media/${compact(IMAGE_ID)}.ashx?h=100" />`,
+      `<a href='/~/link.aspx?_id={${ARTICLE_ID}}'>Again</a>`,
+      `<a href="-/media/Files/Brochure.ashx?id=${AUTHOR_ID}">Brochure</a>`,
+      '<a href="https://example.com">External</a></p>'
+    ].join('');
+
+    expect(parseRichTextReferences(html)).toEqual([
+      { id: ARTICLE_ID, isMedia: false },
+      { id: IMAGE_ID, isMedia: true },
+      { id: AUTHOR_ID, isMedia: true }
+    ]);
+  });
+});
+
+describe('parseMediaFieldReferences', () => {
+  it('reads the media ID of image and file fields', () => {
+    expect(parseMediaFieldReferences(`<image mediaid="{${IMAGE_ID}}" alt="Hero" />`)).toEqual([{ id: IMAGE_ID, isMedia: true }]);
+    expect(parseMediaFieldReferences(`<file mediaid='${compact(IMAGE_ID)}' src="-/media/file.pdf" />`)).toEqual([{ id: IMAGE_ID, isMedia: true }]);
+    expect(parseMediaFieldReferences('<image alt="No media selected" />')).toEqual([]);
+  });
+});
+
+describe('parseIdListReferences', () => {
+  it('reads pipe-separated IDs, skipping duplicates and non-GUIDs', () => {
+    expect(parseIdListReferences(`{${ARTICLE_ID}}|{${AUTHOR_ID}}|{${ARTICLE_ID}}|not-an-id|`)).toEqual([
+      { id: ARTICLE_ID, isMedia: false },
+      { id: AUTHOR_ID, isMedia: false }
+    ]);
+  });
+});
+
+describe('getFieldReferenceParser', () => {
+  it('picks the parser by field type', () => {
+    expect(getFieldReferenceParser('Treelist', '')?.source).toBe('multilist');
+    expect(getFieldReferenceParser('General Link with Search', '')?.source).toBe('general-link');
+    expect(getFieldReferenceParser('Single-Line Text', `{${ARTICLE_ID}}`)).toBeNull();
+  });
+
+  it('detects the parser from the value when the type is unknown', () => {
+    expect(getFieldReferenceParser(undefined, `<image mediaid="{${IMAGE_ID}}" />`)?.source).toBe('media-field');
+    expect(getFieldReferenceParser(undefined, `{${ARTICLE_ID}}|{${AUTHOR_ID}}`)?.source).toBe('multilist');
+    expect(getFieldReferenceParser(undefined, '<p><a href="#top">Top</a></p>')?.source).toBe('rich-text');
+    expect(getFieldReferenceParser(undefined, 'Plain text')).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+// utils/fieldParsers.ts
+import type { ReferenceSource } from '../types/itemInformation';
+
+/**
+ * Item referenced from a field value
+ */
+export interface ParsedFieldReference {
+  /** Hyphenated, uppercase item ID */
+  id: string;
+  /** Whether the value references the item as media (image, file or media link) */
+  isMedia: boolean;
+}
+
+/**
+ * Extracts referenced items from a raw field value
+ */
+export type FieldReferenceParser = (value: string) => ParsedFieldReference[];
+
+/**
+ * Parser to use for a field, and the reference source its IDs are recorded as
+ */
+export interface FieldParserMatch {
+  source: ReferenceSource;
+  parse: FieldReferenceParser;
+}
+
+const GUID_PATTERN = '\\{?[0-9A-Fa-f]{8}-?[0-9A-Fa-f]{4}-?[0-9A-Fa-f]{4}-?[0-9A-Fa-f]{4}-?[0-9A-Fa-f]{12}\\}?';
+
+/**
+ * Normalize a GUID in any Sitecore notation (braces, hyphens, compact) to hyphenated uppercase
+ * Returns null if the value is not a GUID
+ */
+const toItemId = (value: string): string | null => {
+  const clean = value.trim().replace(/[{}-]/g, '').toUpperCase();
+  if (!/^[0-9A-F]{32}$/.test(clean)) {
+    return null;
+  }
+  return `${clean.substring(0, 8)}-${clean.substring(8, 12)}-${clean.substring(12, 16)}-${clean.substring(16, 20)}-${clean.substring(20, 32)}`;
+};
+
+const addUnique = (references: ParsedFieldReference[], value: string | undefined, isMedia: boolean) => {
+  const id = value ? toItemId(value) : null;
+  if (id && !references.some(reference => reference.id === id)) {
+    references.push({ id, isMedia });
+  }
+};
+
+/**
+ * Read the attributes of the first element in an XML field value, keyed by lowercase name
+ */
+const readXmlAttributes = (xml: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const element = xml.trim().match(/^<\w+\b([^>]*)\/?>/);
+  if (!element) {
+    return attributes;
+  }
+
+  const attributeRegex = /([\w-]+)\s*=\s*(["'])(.*?)\2/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributeRegex.exec(element[1])) !== null) {
+    attributes[match[1].toLowerCase()] = match[3];
+  }
+  return attributes;
+};
+
+/**
+ * Get the item ID from a dynamic link (~/link.aspx?_id=...) or media URL (-/media/<id>.ashx, ...ashx?id=...)
+ */
+const getIdFromUrl = (url: string): { id: string; isMedia: boolean } | undefined => {
+  const decoded = url.replace(/&amp;/gi, '&');
+
+  const linkMatch = decoded.match(/link\.aspx\?(?:[^"'#]*&)?_id=([^&"'#]+)/i);
+  if (linkMatch) {
+    return { id: linkMatch[1], isMedia: false };
+  }
+
+  if (/[-~]\/media\//i.test(decoded)) {
+    const queryIdMatch = decoded.match(/\.ashx\?(?:[^"'#]*&)?id=([^&"'#]+)/i);
+    if (queryIdMatch) {
+      return { id: queryIdMatch[1], isMedia: true };
+    }
+    const fileIdMatch = decoded.match(new RegExp(`[-~]/media/(${GUID_PATTERN})\\.ashx`, 'i'));
+    if (fileIdMatch) {
+      return { id: fileIdMatch[1], isMedia: true };
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Rich Text: internal links and media referenced from href/src attributes
+ */
+export const parseRichTextReferences: FieldReferenceParser = (html) => {
+  const references: ParsedFieldReference[] = [];
+  const urlAttributeRegex = /\b(?:href|src)\s*=\s*(["'])(.*?)\1/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = urlAttributeRegex.exec(html)) !== null) {
+    const urlReference = getIdFromUrl(match[2]);
+    addUnique(references, urlReference?.id, urlReference?.isMedia ?? false);
+  }
+
+  return references;
+};
+
+/**
+ * General Link: <link linktype="internal|media" id="{...}" />
+ * External, anchor, mailto and javascript links do not reference items
+ */
+export const parseGeneralLinkReferences: FieldReferenceParser = (xml) => {
+  const references: ParsedFieldReference[] = [];
+  const attributes = readXmlAttributes(xml);
+  const linkType = attributes.linktype?.toLowerCase();
+
+  if (linkType === 'internal' || linkType === 'media') {
+    addUnique(references, attributes.id, linkType === 'media');
+  } else if (attributes.url) {
+    // Older content can store internal links as dynamic URLs
+    const urlReference = getIdFromUrl(attributes.url);
+    addUnique(references, urlReference?.id, urlReference?.isMedia ?? false);
+  }
+
+  return references;
+};
+
+/**
+ * Image and File: <image mediaid="{...}" /> or <file mediaid="{...}" />
+ */
+export const parseMediaFieldReferences: FieldReferenceParser = (xml) => {
+  const references: ParsedFieldReference[] = [];
+  addUnique(references, readXmlAttributes(xml).mediaid, true);
+  return references;
+};
+
+/**
+ * Multilist, Treelist, Droplink and similar: a pipe-separated list of IDs
+ */
+export const parseIdListReferences: FieldReferenceParser = (value) => {
+  const references: ParsedFieldReference[] = [];
+  value.split('|').forEach(part => addUnique(references, part, false));
+  return references;
+};
+
+/**
+ * Field types (lowercase) that store references, mapped to their parser
+ */
+const FIELD_TYPE_PARSERS: Record<string, FieldParserMatch> = {
+  'rich text': { source: 'rich-text', parse: parseRichTextReferences },
+  'general link': { source: 'general-link', parse: parseGeneralLinkReferences },
+  'general link with search': { source: 'general-link', parse: parseGeneralLinkReferences },
+  'image': { source: 'media-field', parse: parseMediaFieldReferences },
+  'file': { source: 'media-field', parse: parseMediaFieldReferences },
+  'checklist': { source: 'multilist', parse: parseIdListReferences },
+  'multilist': { source: 'multilist', parse: parseIdListReferences },
+  'multilist with search': { source: 'multilist', parse: parseIdListReferences },
+  'treelist': { source: 'multilist', parse: parseIdListReferences },
+  'treelist with search': { source: 'multilist', parse: parseIdListReferences },
+  'treelistex': { source: 'multilist', parse: parseIdListReferences },
+  'tag treelist': { source: 'multilist', parse: parseIdListReferences },
+  'droplink': { source: 'multilist', parse: parseIdListReferences },
+  'droptree': { source: 'multilist', parse: parseIdListReferences },
+  'grouped droplink': { source: 'multilist', parse: parseIdListReferences }
+};
+
+/**
+ * Guess the parser from the value's shape, for responses without template field types
+ */
+const detectParserFromValue = (value: string): FieldParserMatch | null => {
+  const trimmed = value.trim();
+
+  if (/^<link\b/i.test(trimmed)) {
+    return FIELD_TYPE_PARSERS['general link'];
+  }
+  if (/^<(image|file)\b/i.test(trimmed)) {
+    return FIELD_TYPE_PARSERS['image'];
+  }
+  if (new RegExp(`^${GUID_PATTERN}(\\|${GUID_PATTERN})*$`).test(trimmed)) {
+    return FIELD_TYPE_PARSERS['multilist'];
+  }
+  if (/<(a|img)\b/i.test(trimmed)) {
+    return FIELD_TYPE_PARSERS['rich text'];
+  }
+
+  return null;
+};
+
+/**
+ * Get the parser for a field by its template field type
+ * Known types that cannot hold references (text, numbers, rendering parameters, ...) return null
+ * @param fieldType - Template field type from the authoring API, if available
+ * @param value - Field value, used to detect the type when none is given
+ */
+export const getFieldReferenceParser = (
+  fieldType: string | undefined,
+  value: string
+): FieldParserMatch | null => {
+  if (!fieldType) {
+    return detectParserFromValue(value);
+  }
+  return FIELD_TYPE_PARSERS[fieldType.trim().toLowerCase()] || null;
+};
@@ -0,0 +1,26 @@
+// utils/fileDownload.ts
+
+/**
+ * Trigger a browser download for text content
+ */
+export const downloadTextFile = (content: string, fileName: string, mimeType: string = 'text/plain'): void => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Build a file-name-safe timestamp (e.g. 2024-12-01T10-30-00)
+ */
+export const getFileTimestamp = (date: Date = new Date()): string => {
+  return date.toISOString().replace(/\.\d+Z$/, '').replace(/:/g, '-');
+};
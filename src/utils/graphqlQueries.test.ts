@@ -0,0 +1,330 @@
+// utils/graphqlQueries.test.ts
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  getItemFieldsFromAuthoring,
+  getItemsFromAuthoring,
+  getItemsFromLive,
+  getItemsFromPreview,
+  getLayoutFieldsFromAuthoring,
+  getResourceContextIds,
+  resolveLocalDatasourcePaths,
+  resolveQueryDatasources
+} from './graphqlQueries';
+import { invalidateItemCache } from './itemCache';
+import { crawlReferences } from './dependencyCrawler';
+import {
+  createItemInformationResponse,
+  describeQueryFailures,
+  extractItemIdsWithLocalPaths,
+  formatGuidWithHyphens,
+  formatGuidWithoutHyphens,
+  getPublishingStatus,
+  processItemData
+} from './dataProcessing';
+import { createMockContent } from '../dev/mockContent';
+import { ARTICLE_FIXTURE, createPagesContext, FOOTER_PATH, IDS, PAGE_PATH } from '../test/fixtures';
+import { CONTEXT_IDS, createContentHandler, createMockClient, getQueriedItems } from '../test/mockClient';
+import type { MockGraphQLHandler } from '../test/mockClient';
+import type { MockItem } from '../dev/mockContent';
+
+const contentHandler = (): MockGraphQLHandler => createContentHandler(createMockContent([ARTICLE_FIXTURE]));
+
+beforeEach(() => {
+  // Item queries are cached per module, so every test starts from the endpoints
+  invalidateItemCache();
+});
+
+describe('getResourceContextIds', () => {
+  it('reads the preview and live context IDs from application context', async () => {
+    const { client } = createMockClient(contentHandler());
+
+    expect(await getResourceContextIds(client)).toEqual({ previewContextId: CONTEXT_IDS.preview, liveContextId: CONTEXT_IDS.live });
+  });
+
+  it('leaves the live context ID out when live access is not granted', async () => {
+    const { client } = createMockClient(contentHandler(), { preview: CONTEXT_IDS.preview });
+
+    expect(await getResourceContextIds(client)).toEqual({ previewContextId: CONTEXT_IDS.preview, liveContextId: undefined });
+  });
+});
+
+describe('resolveLocalDatasourcePaths', () => {
+  it('resolves local paths under the page Data folder and full content paths as they are', async () => {
+    const { client, mutate } = createMockClient(contentHandler());
+
+    const resolved = await resolveLocalDatasourcePaths(client, ['Data/Hero', FOOTER_PATH, 'Data/Missing'], PAGE_PATH, CONTEXT_IDS.preview, 'en');
+
+    expect(resolved).toEqual({
+      'Data/Hero': formatGuidWithHyphens(IDS.hero),
+      [FOOTER_PATH]: formatGuidWithHyphens(IDS.footer),
+      'Data/Missing': null
+    });
+    expect(mutate).toHaveBeenCalledTimes(1);
+    const [key, options] = mutate.mock.calls[0];
+    expect(key).toBe('xmc.authoring.graphql');
+    expect(options.params.query?.sitecoreContextId).toBe(CONTEXT_IDS.preview);
+    expect(options.params.body.query).toContain(`path: "${PAGE_PATH}/Data/Hero"`);
+    expect(options.params.body.query).toContain(`path: "${FOOTER_PATH}"`);
+  });
+
+  it('queries in the given language', async () => {
+    const { client, mutate } = createMockClient(contentHandler());
+
+    expect(await resolveLocalDatasourcePaths(client, ['Data/Hero'], PAGE_PATH, CONTEXT_IDS.preview, 'nl')).toEqual({ 'Data/Hero': expect.any(String) });
+    expect(mutate.mock.calls[0][1].params.body.query).toContain('language: "nl"');
+  });
+
+  it('marks every path unresolved when the request fails', async () => {
+    const { client } = createMockClient(() => {
+      throw new Error('Network error');
+    });
+
+    expect(await resolveLocalDatasourcePaths(client, ['Data/Hero', FOOTER_PATH], PAGE_PATH, CONTEXT_IDS.preview)).toEqual({
+      'Data/Hero': null,
+      [FOOTER_PATH]: null
+    });
+  });
+
+  it('does not query without paths', async () => {
+    const { client, mutate } = createMockClient(contentHandler());
+
+    expect(await resolveLocalDatasourcePaths(client, [], PAGE_PATH, CONTEXT_IDS.preview)).toEqual({});
+    expect(mutate).not.toHaveBeenCalled();
+  });
+});
+
+describe('resolveQueryDatasources', () => {
+  const ROOT_PATH = `${PAGE_PATH}/Large`;
+  const PROMO_TEMPLATE_ID = 'c0d1e2f3-0001-4000-8000-000000000001';
+  const id = (index: number) => `e0f1a2b3-0001-4000-8000-${String(index).padStart(12, '0')}`;
+  const item = (index: number, name: string, templateId: string, templateName: string, path = `${ROOT_PATH}/${name}`): MockItem => ({
+    itemId: id(index),
+    name,
+    path,
+    template: { templateId, name: templateName },
+    languages: { en: { versions: [{ version: 1, fields: {} }] } }
+  });
+
+  /**
+   * A folder under the page with 150 teasers that sort before 50 promos, so the promos are all past the first search page
+   */
+  const largeFolderHandler = () => createContentHandler(createMockContent([{
+    ...ARTICLE_FIXTURE,
+    items: [
+      ...ARTICLE_FIXTURE.items,
+      item(0, 'Large', 'c0d1e2f3-0001-4000-8000-000000000000', 'Folder', ROOT_PATH),
+      ...Array.from({ length: 150 }, (_, index) => item(index + 1, `A Teaser ${index}`, 'c0d1e2f3-0001-4000-8000-000000000002', 'Teaser')),
+      ...Array.from({ length: 50 }, (_, index) => item(index + 151, `Promo ${index}`, PROMO_TEMPLATE_ID, 'Promo'))
+    ]
+  }]));
+
+  it('filters descendants by template ID in the search index', async () => {
+    const query = `query:./Large//*[@@templateid='{${PROMO_TEMPLATE_ID.toUpperCase()}}']`;
+    const { client } = createMockClient(largeFolderHandler());
+
+    const result = await resolveQueryDatasources(client, [query], PAGE_PATH, CONTEXT_IDS.preview);
+
+    expect(result.resolved[query]).toHaveLength(50);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('pages through descendants for filters the index cannot apply', async () => {
+    const query = `query:./Large//*[@@name='Promo 49']`;
+    const { client, mutate } = createMockClient(largeFolderHandler());
+
+    const result = await resolveQueryDatasources(client, [query], PAGE_PATH, CONTEXT_IDS.preview);
+
+    expect(result.resolved[query]).toEqual([formatGuidWithoutHyphens(id(200))]);
+    expect(mutate.mock.calls.filter(([, options]) => options.params.body.query.includes('SearchQueryDescendants'))).toHaveLength(3);
+  });
+});
+
+describe('batched item queries', () => {
+  const itemIds = [IDS.page, IDS.promo, IDS.banner, IDS.teaser];
+
+  it('queries latest, published and preview versions per language', async () => {
+    const { client } = createMockClient(contentHandler());
+
+    const authoring = await getItemsFromAuthoring(client, itemIds, CONTEXT_IDS.preview, ['en', 'nl']);
+    const live = await getItemsFromLive(client, itemIds, CONTEXT_IDS.live, ['en', 'nl']);
+    const preview = await getItemsFromPreview(client, itemIds, CONTEXT_IDS.preview, ['en']);
+
+    expect(authoring.failures).toEqual([]);
+    expect(authoring.items[IDS.page].en?.version).toBe(2);
+    expect(authoring.items[IDS.page].nl?.version).toBe(1);
+    expect(authoring.items[IDS.promo].nl).toBeNull();
+    expect(live.items[IDS.page].en?.version).toBe(1);
+    expect(live.items[IDS.banner].en).toBeNull();
+    expect(preview.items[IDS.banner].en?.version).toBe(1);
+  });
+
+  it('splits large requests into chunks', async () => {
+    const { client, mutate } = createMockClient(contentHandler());
+
+    const result = await getItemsFromAuthoring(client, itemIds, CONTEXT_IDS.preview, ['en', 'nl'], { batch: { chunkSize: 4, concurrency: 1 } });
+
+    expect(mutate).toHaveBeenCalledTimes(2);
+    expect(getQueriedItems(mutate.mock.calls[0][1].params.body.query).map(item => item.id)).toEqual([IDS.page, IDS.page, IDS.promo, IDS.promo]);
+    expect(Object.keys(result.items)).toEqual(itemIds);
+  });
+
+  it('fails only the item a GraphQL error path points at', async () => {
+    const handler = contentHandler();
+    const { client } = createMockClient(async request => {
+      const response = await handler(request);
+      const banner = getQueriedItems(request.query).find(item => item.id === IDS.banner)!;
+      return {
+        data: { ...response.data, [banner.alias]: null },
+        errors: [{ message: 'Item access denied', path: [banner.alias] }]
+      };
+    });
+
+    const result = await getItemsFromLive(client, itemIds, CONTEXT_IDS.live, ['en']);
+
+    expect(result.failures).toEqual([{ endpoint: 'Live', itemIds: [IDS.banner], error: 'Item access denied' }]);
+    expect(result.items[IDS.banner]).toBeUndefined();
+    expect(result.items[IDS.page].en?.version).toBe(1);
+  });
+
+  it('fails the whole chunk for errors without a path', async () => {
+    const handler = contentHandler();
+    const { client } = createMockClient(async request => ({
+      ...await handler(request),
+      errors: [{ message: 'Query complexity too high' }]
+    }));
+
+    const result = await getItemsFromAuthoring(client, [IDS.page, IDS.promo], CONTEXT_IDS.preview, ['en']);
+
+    expect(result.items).toEqual({});
+    expect(result.failures).toEqual([{ endpoint: 'Authoring', itemIds: [IDS.page, IDS.promo], error: 'Query complexity too high' }]);
+  });
+
+  it('fails the whole chunk when the response has no data', async () => {
+    const { client } = createMockClient(() => ({ data: null }));
+
+    const result = await getItemsFromPreview(client, [IDS.page], CONTEXT_IDS.preview, ['en']);
+
+    expect(result.failures).toEqual([{ endpoint: 'Preview', itemIds: [IDS.page], error: 'No data in response' }]);
+  });
+
+  it('serves repeated queries from the cache', async () => {
+    const { client, mutate } = createMockClient(contentHandler());
+
+    await getItemsFromLive(client, itemIds, CONTEXT_IDS.live, ['en']);
+    await getItemsFromLive(client, itemIds, CONTEXT_IDS.live, ['en']);
+    await getItemsFromLive(client, itemIds, CONTEXT_IDS.live, ['en'], { bypassCache: true });
+
+    expect(mutate).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not share cached items between context IDs', async () => {
+    const { client, mutate } = createMockClient(contentHandler());
+
+    await getItemsFromLive(client, itemIds, CONTEXT_IDS.live, ['en']);
+    await getItemsFromLive(client, itemIds, 'other-tenant-live', ['en']);
+
+    expect(mutate).toHaveBeenCalledTimes(2);
+  });
+
+  it('selects the same fields in every language, so cached secondary languages can become primary', async () => {
+    const { client, mutate } = createMockClient(contentHandler());
+
+    await getItemsFromAuthoring(client, [IDS.page], CONTEXT_IDS.preview, ['en', 'nl']);
+
+    expect(mutate.mock.calls[0][1].params.body.query.match(/blob: field\(name: "Blob"\)/g)).toHaveLength(2);
+  });
+
+  it('requires a context ID', async () => {
+    const { client } = createMockClient(contentHandler());
+
+    await expect(getItemsFromAuthoring(client, itemIds, undefined)).rejects.toThrow('sitecoreContextId is required');
+  });
+});
+
+describe('reference crawl', () => {
+  it('queries item fields in chunks', async () => {
+    const { client, mutate } = createMockClient(contentHandler());
+
+    const result = await getItemFieldsFromAuthoring(client, [IDS.page, IDS.promo, IDS.banner], CONTEXT_IDS.preview, 'en', { chunkSize: 2, concurrency: 1 });
+
+    expect(mutate).toHaveBeenCalledTimes(2);
+    expect(result.failures).toEqual([]);
+    expect(result.items[IDS.promo].en?.fields?.nodes.length).toBeGreaterThan(0);
+  });
+
+  it('reports chunks whose fields could not be loaded', async () => {
+    const handler = contentHandler();
+    const { client } = createMockClient(async request => {
+      if (getQueriedItems(request.query).some(item => item.id === IDS.promo)) {
+        throw new Error('Query complexity too high');
+      }
+      return handler(request);
+    });
+
+    const crawl = await crawlReferences(
+      [IDS.page, IDS.promo, IDS.banner],
+      ids => getItemFieldsFromAuthoring(client, ids, CONTEXT_IDS.preview, 'en', { chunkSize: 1, concurrency: 1 }),
+      { maxDepth: 2, maxItems: 200, includeMedia: true }
+    );
+
+    expect(crawl.failures).toEqual([{ endpoint: 'Reference fields', itemIds: [IDS.promo], error: 'Query complexity too high' }]);
+  });
+});
+
+describe('page load pipeline', () => {
+  /**
+   * The steps useItemInformation runs for a page, without React
+   */
+  const loadPage = async (handler: MockGraphQLHandler) => {
+    const { client } = createMockClient(handler);
+    const { previewContextId, liveContextId } = await getResourceContextIds(client);
+    const layouts = await getLayoutFieldsFromAuthoring(client, [IDS.page], previewContextId!, 'en');
+    const extracted = extractItemIdsWithLocalPaths(createPagesContext(), layouts.items[IDS.page]?.en);
+    const itemIds = [...extracted.itemIds];
+
+    const resolved = await resolveLocalDatasourcePaths(client, extracted.localPathsToResolve, extracted.currentPagePath, previewContextId!);
+    Object.values(resolved).forEach(id => {
+      if (id && !itemIds.includes(formatGuidWithoutHyphens(id))) {
+        itemIds.push(formatGuidWithoutHyphens(id));
+      }
+    });
+
+    const languages = ['en'];
+    const authoring = await getItemsFromAuthoring(client, itemIds, previewContextId, languages);
+    const live = await getItemsFromLive(client, itemIds, liveContextId, languages);
+    const items = processItemData(authoring, live, itemIds, itemIds[0], languages, extracted.provenance);
+    return createItemInformationResponse(items, languages, describeQueryFailures([authoring, live]));
+  };
+
+  it('reports the publishing status of the page and every datasource', async () => {
+    const response = await loadPage(contentHandler());
+    const statuses = Object.fromEntries([response.currentItem, ...response.referencedItems].map(item => [item.name, getPublishingStatus(item)]));
+
+    expect(response.currentItem.id).toBe(IDS.page);
+    expect(statuses).toEqual({
+      'Launch Article': 'Outdated',
+      'Spring Promo': 'Up-to-date',
+      'Summer Banner': 'Not Published',
+      'Newsletter Teaser': 'Up-to-date',
+      Hero: 'Up-to-date',
+      Footer: 'Outdated'
+    });
+    expect(response.summary).toEqual({ totalItems: 6, publishedItems: 5, unpublishedItems: 1, outdatedItems: 2 });
+    expect(response.warnings).toEqual([]);
+  });
+
+  it('still loads the page when one live item fails', async () => {
+    const handler = contentHandler();
+    const response = await loadPage(async request => {
+      const response = await handler(request);
+      const promo = request.endpoint === 'live' && getQueriedItems(request.query).find(item => item.id === IDS.promo);
+      return promo ? { data: { ...response.data, [promo.alias]: null }, errors: [{ message: 'Timeout', path: [promo.alias] }] } : response;
+    });
+    const promo = response.referencedItems.find(item => item.id === IDS.promo)!;
+
+    expect(getPublishingStatus(promo)).toBe('Load Failed');
+    expect(promo.loadError).toBe('Live: Timeout');
+    expect(response.referencedItems.filter(item => item.loadError)).toHaveLength(1);
+    expect(response.warnings).toEqual(['Live data could not be loaded for 1 item(s): Timeout']);
+  });
+});
@@ -1,11 +1,67 @@
 // utils/graphqlQueries.ts
 import { ClientSDK } from '@sitecore-marketplace-sdk/client';
-import type { ItemQueryResult } from '../types/itemInformation';
-import { formatGuidWithHyphens } from './dataProcessing';
+import type {
+  ItemQueryResult,
+  AuthoringItemResponse,
+  LiveItemResponse,
+  BatchedQueryResult,
+  WorkflowCommand,
+  ItemVersionInfo,
+  LayoutFieldsResponse
+} from '../types/itemInformation';
+import { formatGuidWithHyphens, formatGuidWithoutHyphens, getItemAlias, parseSitecoreDate, DEFAULT_LANGUAGE } from './dataProcessing';
+import { parseSitecoreQuery, matchesStep, getAncestorPaths } from './sitecoreQuery';
+import type { QueryItemNode, QueryStep } from './sitecoreQuery';
+import type { FieldValue } from './fieldDiff';
+import { queryItemsInBatches } from './queryBatching';
+import type { BatchOptions } from './queryBatching';
+import { queryItemsWithCache } from './itemCache';
 
-// Configuration for direct live endpoint calls
-const LIVE_ENDPOINT = 'https://edge.sitecorecloud.io/api/graphql/v1';
-const LIVE_TOKEN = 'YWZGOHA4NmhnRXZZNVJhWmttQ1FMbWd2em5QejlIU1IzSjJxejZ4SWlrdz18cHJvZmVzc2lvbmFhZDQ3LXBzc2hhcmVkMjNkYi1wc3NoYXJlZGRldmFkNjgtNjUyZQ==';
+/**
+ * Sitecore context IDs granted to the app through application.context resourceAccess
+ */
+export interface ResourceContextIds {
+  previewContextId?: string;
+  liveContextId?: string;
+}
+
+/**
+ * Options for the cached, batched item queries
+ */
+export interface ItemQueryOptions {
+  batch?: BatchOptions;
+  /** Serve expired cache entries (listed in staleItemIds) instead of waiting for fresh data */
+  allowStale?: boolean;
+  /** Always query the endpoint, e.g. when polling for a change (results are not cached) */
+  bypassCache?: boolean;
+}
+
+/**
+ * Message shown when the app has no live (Experience Edge) resource access
+ */
+export const LIVE_ACCESS_NOT_GRANTED_MESSAGE =
+  'Live (Experience Edge) access is not granted to this app. Enable XM Cloud live resource access for the app in the Cloud Portal to see published versions.';
+
+/**
+ * Read the preview and live context IDs from application context
+ */
+export const getResourceContextIds = async (client: ClientSDK): Promise<ResourceContextIds> => {
+  const { data: appContext } = await client.query('application.context');
+  console.log('Application context retrieved:', appContext);
+
+  const resourceAccess = appContext?.resourceAccess || [];
+  const previewContextId = resourceAccess.find(resource => resource?.context?.preview)?.context.preview;
+  const liveContextId = resourceAccess.find(resource => resource?.context?.live)?.context.live;
+
+  if (!previewContextId) {
+    console.error('Preview context ID not found in application context. Make sure your app is configured to use XM Cloud APIs.');
+  }
+  if (!liveContextId) {
+    console.error('Live context ID not found in application context. Published versions cannot be queried.');
+  }
+
+  return { previewContextId, liveContextId };
+};
 
 /**
  * Format GUID for live endpoint (needs hyphens)
@@ -15,28 +71,23 @@ export const formatGuidForLive = (guid: string): string => {
 };
 
 /**
- * Query the authoring endpoint for multiple items to get latest versions
+ * Query one chunk of items from the authoring endpoint to get latest versions
+ * Media file fields are requested in every language, so cached entries have the same fields whichever language is primary
  */
-export const getItemsFromAuthoring = async (
+const queryAuthoringChunk = async (
   client: ClientSDK,
   itemIds: string[],
-  sitecoreContextId?: string
+  sitecoreContextId: string,
+  languages: string[]
 ): Promise<ItemQueryResult> => {
-  if (!client || itemIds.length === 0) {
-    return { data: { data: {} } };
-  }
-
-  if (!sitecoreContextId) {
-    throw new Error('sitecoreContextId is required for authoring GraphQL queries');
-  }
 
   const query = `
     query GetAuthoringItems {
-      ${itemIds.map((id, index) => `
-        item${index}: item(where: {
+      ${itemIds.map((id, index) => languages.map((language, languageIndex) => `
+        ${getItemAlias(index, languageIndex)}: item(where: {
           database: "master"
           itemId: "${id}"
-          language: "en"
+          language: "${language}"
         }) {
           itemId
           name
@@ -48,19 +99,43 @@ export const getItemsFromAuthoring = async (
           language {
             name
           }
-          fields {
-            nodes {
-              name
-              value
+          workflow {
+            workflow {
+              workflowId
+              displayName
+            }
+            workflowState {
+              stateId
+              displayName
+              final
             }
           }
+          updated: field(name: "__Updated") {
+            value
+          }
+          updatedBy: field(name: "__Updated by") {
+            value
+          }
+          extension: field(name: "Extension") {
+            value
+          }
+          mimeType: field(name: "Mime Type") {
+            value
+          }
+          size: field(name: "Size") {
+            value
+          }
+          blob: field(name: "Blob") {
+            value
+          }
         }
-      `).join('')}
+      `).join('')).join('')}
     }
   `;
 
   try {
     console.log('Executing authoring GraphQL query with item IDs:', itemIds);
+    console.log('Languages:', languages);
     console.log('sitecoreContextId:', sitecoreContextId);
     console.log('Query:', query.trim());
     
@@ -95,95 +170,146 @@ export const getItemsFromAuthoring = async (
 };
 
 /**
- * Query the live endpoint for multiple items to get published versions
- * Uses direct HTTP call to ensure we hit the correct Experience Edge endpoint
+ * Query the authoring endpoint for multiple items to get latest versions, in chunks
+ * Results are cached per item, language and endpoint (see itemCache)
+ * @returns Items keyed by ID and language, plus the chunks that failed
  */
-export const getItemsFromLive = async (
-  _client: ClientSDK, // Unused but kept for API compatibility
+export const getItemsFromAuthoring = async (
+  client: ClientSDK,
   itemIds: string[],
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  _sitecoreContextId?: string // Unused but kept for API compatibility
-): Promise<ItemQueryResult> => {
-  if (itemIds.length === 0) {
-    return { data: { data: {} } };
+  sitecoreContextId?: string,
+  languages: string[] = [DEFAULT_LANGUAGE],
+  options: ItemQueryOptions = {}
+): Promise<BatchedQueryResult<AuthoringItemResponse>> => {
+  if (!sitecoreContextId) {
+    throw new Error('sitecoreContextId is required for authoring GraphQL queries');
   }
 
+  const fetchItems = (ids: string[]) => queryItemsInBatches<AuthoringItemResponse>(
+    'Authoring',
+    ids,
+    languages,
+    (chunkIds) => queryAuthoringChunk(client, chunkIds, sitecoreContextId, languages),
+    options.batch
+  );
+
+  return options.bypassCache
+    ? fetchItems(itemIds)
+    : queryItemsWithCache<AuthoringItemResponse>('Authoring', sitecoreContextId, itemIds, languages, fetchItems, options.allowStale);
+};
+
+/**
+ * Query one chunk of items from the live endpoint to get published versions
+ * Uses the live context ID from application context to reach Experience Edge through the SDK
+ */
+const queryLiveChunk = async (
+  client: ClientSDK,
+  itemIds: string[],
+  liveContextId: string,
+  languages: string[]
+): Promise<ItemQueryResult> => {
+
   const query = `
     query GetLiveItems {
-      ${itemIds.map((id, index) => `
-        item${index}: item(path: "{${formatGuidForLive(id)}}", language: "en") {
+      ${itemIds.map((id, index) => languages.map((language, languageIndex) => `
+        ${getItemAlias(index, languageIndex)}: item(path: "{${formatGuidForLive(id)}}", language: "${language}") {
           id
           name
           version
           language {
             name
           }
+          url {
+            url
+          }
+          size: field(name: "Size") {
+            value
+          }
+          blob: field(name: "Blob") {
+            value
+          }
         }
-      `).join('')}
+      `).join('')).join('')}
     }
   `;
 
   try {
-    console.log('Executing DIRECT live GraphQL query with item IDs:', itemIds);
+    console.log('Executing live GraphQL query with item IDs:', itemIds);
     console.log('Query:', query.trim());
     
-    // Make direct HTTP call to Experience Edge endpoint instead of using SDK
-    const response = await fetch(LIVE_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'sc_apikey': LIVE_TOKEN
-      },
-      body: JSON.stringify({
-        query: query.trim()
-      })
+    // Use official SDK approach with the live sitecoreContextId in query params
+    const result = await client.mutate('xmc.live.graphql', {
+      params: {
+        query: {
+          sitecoreContextId: liveContextId
+        },
+        body: {
+          query: query.trim()
+        }
+      }
     });
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result = await response.json();
-    
-    console.log('DIRECT Live GraphQL result:', result);
+    console.log('Live GraphQL result:', result);
     
     // Add detailed logging to understand the response structure
-    if (result?.data) {
-      const responseData = result.data;
-      console.log('DIRECT Live GraphQL response data:', responseData);
+    if (result?.data?.data) {
+      const responseData = result.data.data;
+      console.log('Live GraphQL response data:', responseData);
       Object.keys(responseData).forEach(key => {
-        console.log(`DIRECT Live item ${key}:`, responseData[key]);
+        console.log(`Live item ${key}:`, responseData[key]);
       });
     }
     
-    // Return in the same format as the SDK would
-    return { data: result };
+    return result;
   } catch (error) {
-    console.error('Error querying DIRECT live endpoint:', error);
+    console.error('Error querying live endpoint:', error);
     return { error };
   }
 };
 
 /**
- * Query the preview endpoint for multiple items
+ * Query the live endpoint for multiple items to get published versions, in chunks
+ * Results are cached per item, language and endpoint (see itemCache)
+ * @returns Items keyed by ID and language, plus the chunks that failed
  */
-export const getItemsFromPreview = async (
+export const getItemsFromLive = async (
   client: ClientSDK,
   itemIds: string[],
-  sitecoreContextId?: string
-): Promise<ItemQueryResult> => {
-  if (!client || itemIds.length === 0) {
-    return { data: { data: {} } };
+  liveContextId?: string,
+  languages: string[] = [DEFAULT_LANGUAGE],
+  options: ItemQueryOptions = {}
+): Promise<BatchedQueryResult<LiveItemResponse>> => {
+  if (!liveContextId) {
+    throw new Error(LIVE_ACCESS_NOT_GRANTED_MESSAGE);
   }
 
-  if (!sitecoreContextId) {
-    throw new Error('sitecoreContextId is required for preview GraphQL queries');
-  }
+  const fetchItems = (ids: string[]) => queryItemsInBatches<LiveItemResponse>(
+    'Live',
+    ids,
+    languages,
+    (chunkIds) => queryLiveChunk(client, chunkIds, liveContextId, languages),
+    options.batch
+  );
+
+  return options.bypassCache
+    ? fetchItems(itemIds)
+    : queryItemsWithCache<LiveItemResponse>('Live', liveContextId, itemIds, languages, fetchItems, options.allowStale);
+};
+
+/**
+ * Query one chunk of items from the preview endpoint
+ */
+const queryPreviewChunk = async (
+  client: ClientSDK,
+  itemIds: string[],
+  sitecoreContextId: string,
+  languages: string[]
+): Promise<ItemQueryResult> => {
 
   const query = `
     query GetPreviewItems {
-      ${itemIds.map((id, index) => `
-        item${index}: item(path: "${id}", language: "en") {
+      ${itemIds.map((id, index) => languages.map((language, languageIndex) => `
+        ${getItemAlias(index, languageIndex)}: item(path: "{${formatGuidForLive(id)}}", language: "${language}") {
           id
           name
           version
@@ -191,7 +317,7 @@ export const getItemsFromPreview = async (
             name
           }
         }
-      `).join('')}
+      `).join('')).join('')}
     }
   `;
 
@@ -220,6 +346,35 @@ export const getItemsFromPreview = async (
   }
 };
 
+/**
+ * Query the preview endpoint for multiple items, in chunks
+ * Results are cached per item, language and endpoint (see itemCache)
+ * @returns Items keyed by ID and language, plus the chunks that failed
+ */
+export const getItemsFromPreview = async (
+  client: ClientSDK,
+  itemIds: string[],
+  sitecoreContextId?: string,
+  languages: string[] = [DEFAULT_LANGUAGE],
+  options: ItemQueryOptions = {}
+): Promise<BatchedQueryResult<LiveItemResponse>> => {
+  if (!sitecoreContextId) {
+    throw new Error('sitecoreContextId is required for preview GraphQL queries');
+  }
+
+  const fetchItems = (ids: string[]) => queryItemsInBatches<LiveItemResponse>(
+    'Preview',
+    ids,
+    languages,
+    (chunkIds) => queryPreviewChunk(client, chunkIds, sitecoreContextId, languages),
+    options.batch
+  );
+
+  return options.bypassCache
+    ? fetchItems(itemIds)
+    : queryItemsWithCache<LiveItemResponse>('Preview', sitecoreContextId, itemIds, languages, fetchItems, options.allowStale);
+};
+
 /**
  * Helper function to validate GraphQL response structure
  */
@@ -256,21 +411,26 @@ export const validateGraphQLResponse = (response: ItemQueryResult): {
  * @param localPaths - Array of local paths like ['Data/Article Header', 'Data/Text 1']
  * @param basePath - Base path of the current page (e.g., '/sitecore/content/.../Article Page')
  * @param sitecoreContextId - Context ID for the query
+ * @param language - Language to resolve the items in (defaults to 'en')
  * @returns Object mapping local paths to resolved item IDs
  */
 export const resolveLocalDatasourcePaths = async (
   client: ClientSDK,
   localPaths: string[],
   basePath: string,
-  sitecoreContextId: string
+  sitecoreContextId: string,
+  language: string = DEFAULT_LANGUAGE
 ): Promise<Record<string, string | null>> => {
   if (!client || localPaths.length === 0) {
     return {};
   }
 
-  // Construct full paths by combining base path with local paths
+  // Construct full paths by combining base path with local paths; content paths are already full
   const fullPaths = localPaths.map(localPath => {
-    const cleanPath = localPath.replace('Data/', '');
+    if (localPath.startsWith('/sitecore/')) {
+      return localPath;
+    }
+    const cleanPath = localPath.replace(/^\/?Data\//, '');
     return `${basePath}/Data/${cleanPath}`;
   });
 
@@ -280,7 +440,7 @@ export const resolveLocalDatasourcePaths = async (
         path${index}: item(where: {
           database: "master"
           path: "${fullPaths[index]}"
-          language: "en"
+          language: "${language}"
         }) {
           itemId
           name
@@ -337,4 +497,1031 @@ export const resolveLocalDatasourcePaths = async (
     });
     return result;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Maximum number of items a single `query:` datasource may resolve to
+ */
+const MAX_QUERY_RESULTS = 100;
+
+/**
+ * Maximum number of search results scanned for one descendant step, in pages of MAX_QUERY_RESULTS
+ * Filters the index cannot apply (e.g. @@name) are checked on these results
+ */
+const MAX_DESCENDANT_SEARCH_RESULTS = 1000;
+
+/**
+ * ID of the /sitecore root item, used as the starting point for absolute queries
+ */
+const SITECORE_ROOT_ID = '11111111111111111111111111111111';
+
+/**
+ * Result of resolving `query:` datasources
+ */
+export interface QueryResolutionResult {
+  /** Resolved item IDs keyed by the original query datasource */
+  resolved: Record<string, string[]>;
+  /** Unsupported or failed expressions, to be shown in the UI */
+  warnings: string[];
+}
+
+/**
+ * Run a query against the authoring endpoint and return the response data
+ */
+const runAuthoringQuery = async (
+  client: ClientSDK,
+  query: string,
+  sitecoreContextId: string
+): Promise<Record<string, unknown>> => {
+  const response = await client.mutate('xmc.authoring.graphql', {
+    params: {
+      query: {
+        sitecoreContextId
+      },
+      body: {
+        query: query.trim()
+      }
+    }
+  });
+
+  return (response?.data?.data || {}) as Record<string, unknown>;
+};
+
+/**
+ * Convert a raw authoring item into a query item node
+ */
+const toQueryItemNode = (raw: unknown): QueryItemNode | null => {
+  const item = raw as {
+    itemId?: string;
+    name?: string;
+    path?: string;
+    templateName?: string;
+    templateId?: string;
+    template?: { name?: string; templateId?: string };
+  } | null;
+
+  if (!item?.itemId) {
+    return null;
+  }
+
+  return {
+    itemId: formatGuidWithoutHyphens(item.itemId),
+    name: item.name || '',
+    path: item.path || '',
+    templateName: item.template?.name || item.templateName,
+    templateId: item.template?.templateId || item.templateId
+  };
+};
+
+const QUERY_ITEM_FIELDS = `
+  itemId
+  name
+  path
+  template {
+    name
+    templateId
+  }
+`;
+
+/**
+ * Fetch query item nodes for a set of paths in a single request
+ */
+const getQueryNodesByPath = async (
+  client: ClientSDK,
+  paths: string[],
+  sitecoreContextId: string,
+  language: string
+): Promise<Record<string, QueryItemNode | null>> => {
+  if (paths.length === 0) {
+    return {};
+  }
+
+  const query = `
+    query GetQueryItemsByPath {
+      ${paths.map((path, index) => `
+        path${index}: item(where: {
+          database: "master"
+          path: "${path}"
+          language: "${language}"
+        }) {
+          ${QUERY_ITEM_FIELDS}
+        }
+      `).join('')}
+    }
+  `;
+
+  const data = await runAuthoringQuery(client, query, sitecoreContextId);
+  const result: Record<string, QueryItemNode | null> = {};
+  paths.forEach((path, index) => {
+    result[path] = toQueryItemNode(data[`path${index}`]);
+  });
+  return result;
+};
+
+/**
+ * Fetch the children of a set of paths in a single request
+ */
+const getQueryChildNodes = async (
+  client: ClientSDK,
+  paths: string[],
+  sitecoreContextId: string,
+  language: string
+): Promise<Record<string, QueryItemNode[]>> => {
+  if (paths.length === 0) {
+    return {};
+  }
+
+  const query = `
+    query GetQueryItemChildren {
+      ${paths.map((path, index) => `
+        path${index}: item(where: {
+          database: "master"
+          path: "${path}"
+          language: "${language}"
+        }) {
+          children(first: ${MAX_QUERY_RESULTS}) {
+            nodes {
+              ${QUERY_ITEM_FIELDS}
+            }
+          }
+        }
+      `).join('')}
+    }
+  `;
+
+  const data = await runAuthoringQuery(client, query, sitecoreContextId);
+  const result: Record<string, QueryItemNode[]> = {};
+  paths.forEach((path, index) => {
+    const item = data[`path${index}`] as { children?: { nodes?: unknown[] } } | null;
+    result[path] = (item?.children?.nodes || [])
+      .map(toQueryItemNode)
+      .filter((node): node is QueryItemNode => node !== null);
+  });
+  return result;
+};
+
+/**
+ * Search the master index for descendants of an item, filtered by template where possible
+ * Pages through the results so matches are not cut off at the first page; if the subtree is
+ * larger than MAX_DESCENDANT_SEARCH_RESULTS a warning is added
+ */
+const searchQueryDescendantNodes = async (
+  client: ClientSDK,
+  rootItemId: string,
+  step: QueryStep,
+  sitecoreContextId: string,
+  language: string,
+  warnings: string[]
+): Promise<QueryItemNode[]> => {
+  const criteria = [
+    `{ field: "_path", value: "${rootItemId.toLowerCase()}", criteriaType: EXACT, operator: MUST }`
+  ];
+  if (step.filter?.templateName) {
+    criteria.push(`{ field: "_templatename", value: "${step.filter.templateName}", criteriaType: EXACT, operator: MUST }`);
+  }
+  if (step.filter?.templateId) {
+    // The index stores template IDs as lowercase GUIDs without braces or hyphens
+    criteria.push(`{ field: "_template", value: "${formatGuidWithoutHyphens(step.filter.templateId).toLowerCase()}", criteriaType: EXACT, operator: MUST }`);
+  }
+
+  const results: QueryItemNode[] = [];
+  let totalCount = 0;
+  for (let pageIndex = 0; pageIndex * MAX_QUERY_RESULTS < MAX_DESCENDANT_SEARCH_RESULTS; pageIndex++) {
+    const query = `
+      query SearchQueryDescendants {
+        search(query: {
+          index: "sitecore_master_index"
+          language: "${language}"
+          searchStatement: {
+            criteria: [
+              ${criteria.join('\n')}
+            ]
+          }
+          paging: { pageIndex: ${pageIndex}, pageSize: ${MAX_QUERY_RESULTS} }
+        }) {
+          totalCount
+          results {
+            itemId
+            name
+            path
+            templateId
+            templateName
+          }
+        }
+      }
+    `;
+
+    const data = await runAuthoringQuery(client, query, sitecoreContextId);
+    const search = data.search as { totalCount?: number; results?: unknown[] } | null;
+    const page = search?.results || [];
+    totalCount = search?.totalCount || 0;
+    results.push(...page
+      .map(toQueryItemNode)
+      .filter((node): node is QueryItemNode => node !== null && node.itemId !== rootItemId));
+
+    if (page.length < MAX_QUERY_RESULTS) {
+      break;
+    }
+  }
+
+  if (totalCount > MAX_DESCENDANT_SEARCH_RESULTS) {
+    warnings.push(`Descendant search matched ${totalCount} items; only the first ${MAX_DESCENDANT_SEARCH_RESULTS} were checked, so some results may be missing`);
+  }
+
+  return results;
+};
+
+/**
+ * Items found under a content root, for the site-wide dashboard
+ */
+export interface ContentTreeResult {
+  root: QueryItemNode | null;
+  /** The root and its descendants */
+  items: QueryItemNode[];
+  /** Number of descendants the search index reported */
+  totalCount: number;
+  /** Whether maxItems was reached before every descendant was listed */
+  truncated: boolean;
+}
+
+/**
+ * List an item and all its descendants by paging through the master index
+ * @param rootPath - Content root to walk, e.g. /sitecore/content/tenant/site/Home
+ * @param maxItems - Stop after this many items
+ */
+export const getContentTreeItems = async (
+  client: ClientSDK,
+  rootPath: string,
+  sitecoreContextId: string,
+  language: string = DEFAULT_LANGUAGE,
+  maxItems: number = 2000
+): Promise<ContentTreeResult> => {
+  const { [rootPath]: root } = await getQueryNodesByPath(client, [rootPath], sitecoreContextId, language);
+  if (!root) {
+    return { root: null, items: [], totalCount: 0, truncated: false };
+  }
+
+  const items: QueryItemNode[] = [root];
+  const seen = new Set([root.itemId]);
+  let totalCount = 0;
+
+  for (let pageIndex = 0; items.length < maxItems; pageIndex++) {
+    const query = `
+      query GetContentTreePage {
+        search(query: {
+          index: "sitecore_master_index"
+          language: "${language}"
+          searchStatement: {
+            criteria: [
+              { field: "_path", value: "${root.itemId.toLowerCase()}", criteriaType: EXACT, operator: MUST }
+            ]
+          }
+          paging: { pageIndex: ${pageIndex}, pageSize: ${MAX_QUERY_RESULTS} }
+        }) {
+          totalCount
+          results {
+            itemId
+            name
+            path
+            templateId
+            templateName
+          }
+        }
+      }
+    `;
+
+    const data = await runAuthoringQuery(client, query, sitecoreContextId);
+    const search = data.search as { totalCount?: number; results?: unknown[] } | null;
+    const results = (search?.results || [])
+      .map(toQueryItemNode)
+      .filter((node): node is QueryItemNode => node !== null);
+    totalCount = search?.totalCount || 0;
+    console.log(`🗂️ Content tree page ${pageIndex + 1}: ${results.length} of ${totalCount} items`);
+
+    results.forEach(node => {
+      if (!seen.has(node.itemId) && items.length < maxItems) {
+        seen.add(node.itemId);
+        items.push(node);
+      }
+    });
+
+    if (results.length < MAX_QUERY_RESULTS) {
+      break;
+    }
+  }
+
+  return { root, items, totalCount, truncated: items.length >= maxItems };
+};
+
+/**
+ * Query one chunk of items for their shared and final layout fields
+ */
+const queryLayoutChunk = async (
+  client: ClientSDK,
+  itemIds: string[],
+  sitecoreContextId: string,
+  language: string
+): Promise<ItemQueryResult> => {
+  const query = `
+    query GetLayoutFields {
+      ${itemIds.map((id, index) => `
+        ${getItemAlias(index, 0)}: item(where: {
+          database: "master"
+          itemId: "${id}"
+          language: "${language}"
+        }) {
+          itemId
+          path
+          renderings: field(name: "__Renderings") {
+            value
+          }
+          finalRenderings: field(name: "__Final Renderings") {
+            value
+          }
+        }
+      `).join('')}
+    }
+  `;
+
+  try {
+    return await client.mutate('xmc.authoring.graphql', {
+      params: {
+        query: {
+          sitecoreContextId
+        },
+        body: {
+          query: query.trim()
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error querying layout fields:', error);
+    return { error };
+  }
+};
+
+/**
+ * Query the layout fields of many items, in chunks, to find pages and their datasources
+ */
+export const getLayoutFieldsFromAuthoring = async (
+  client: ClientSDK,
+  itemIds: string[],
+  sitecoreContextId: string,
+  language: string = DEFAULT_LANGUAGE,
+  batchOptions?: BatchOptions
+): Promise<BatchedQueryResult<LayoutFieldsResponse>> => {
+  return queryItemsInBatches<LayoutFieldsResponse>(
+    'Layout',
+    itemIds,
+    [language],
+    (chunkIds) => queryLayoutChunk(client, chunkIds, sitecoreContextId, language),
+    batchOptions
+  );
+};
+
+/**
+ * Join a child name onto a Sitecore path
+ */
+const joinItemPath = (basePath: string, name: string): string => {
+  return basePath === '' ? `/${name}` : `${basePath}/${name}`;
+};
+
+/**
+ * Apply a single query step to the current set of items
+ */
+const applyQueryStep = async (
+  client: ClientSDK,
+  nodes: QueryItemNode[],
+  step: QueryStep,
+  sitecoreContextId: string,
+  language: string,
+  warnings: string[]
+): Promise<QueryItemNode[]> => {
+  const unique = (paths: string[]) => Array.from(new Set(paths));
+
+  switch (step.axis) {
+    case 'self':
+      return nodes.filter(node => matchesStep(node, step));
+
+    case 'parent': {
+      const parentPaths = unique(nodes.map(node => getAncestorPaths(node.path)[0]).filter(Boolean));
+      const parents = await getQueryNodesByPath(client, parentPaths, sitecoreContextId, language);
+      return Object.values(parents).filter((node): node is QueryItemNode => node !== null && matchesStep(node, step));
+    }
+
+    case 'child': {
+      if (step.name === '*') {
+        const children = await getQueryChildNodes(client, unique(nodes.map(node => node.path)), sitecoreContextId, language);
+        return Object.values(children).flat().filter(node => matchesStep(node, step));
+      }
+      const childPaths = unique(nodes.map(node => joinItemPath(node.path, step.name)));
+      const children = await getQueryNodesByPath(client, childPaths, sitecoreContextId, language);
+      return Object.values(children).filter((node): node is QueryItemNode => node !== null && matchesStep(node, step));
+    }
+
+    case 'ancestor':
+    case 'ancestor-or-self': {
+      const ancestorPaths = unique(nodes.flatMap(node => getAncestorPaths(node.path)));
+      const ancestors = await getQueryNodesByPath(client, ancestorPaths, sitecoreContextId, language);
+      const result: QueryItemNode[] = [];
+      nodes.forEach(node => {
+        const candidates = getAncestorPaths(node.path)
+          .map(path => ancestors[path])
+          .filter((ancestor): ancestor is QueryItemNode => Boolean(ancestor));
+        if (step.axis === 'ancestor-or-self') {
+          candidates.unshift(node);
+        }
+        result.push(...candidates.filter(candidate => matchesStep(candidate, step)));
+      });
+      return result;
+    }
+
+    case 'descendant': {
+      const results = await Promise.all(nodes.map(node => searchQueryDescendantNodes(
+        client, node.itemId, step, sitecoreContextId, language, warnings
+      )));
+      return results.flat().filter(node => matchesStep(node, step));
+    }
+  }
+};
+
+/**
+ * Resolve `query:` datasources to item IDs by evaluating them against the authoring API
+ * @param client - Marketplace SDK client
+ * @param queries - Datasource values starting with 'query:'
+ * @param basePath - Path of the current page, used as the context item for relative queries
+ * @param sitecoreContextId - Context ID for the query
+ * @param language - Language to resolve the items in (defaults to 'en')
+ * @returns Resolved item IDs per query, plus warnings for expressions that could not be evaluated
+ */
+export const resolveQueryDatasources = async (
+  client: ClientSDK,
+  queries: string[],
+  basePath: string,
+  sitecoreContextId: string,
+  language: string = DEFAULT_LANGUAGE
+): Promise<QueryResolutionResult> => {
+  const result: QueryResolutionResult = { resolved: {}, warnings: [] };
+
+  if (!client || queries.length === 0) {
+    return result;
+  }
+
+  for (const datasource of queries) {
+    const parsed = parseSitecoreQuery(datasource);
+    if (!parsed.success) {
+      result.warnings.push(`Query datasource "${parsed.expression}" was not evaluated: ${parsed.error}`);
+      continue;
+    }
+
+    try {
+      console.log('🔍 Resolving query datasource:', parsed.query);
+
+      let nodes: QueryItemNode[];
+      if (parsed.query.isAbsolute) {
+        nodes = [{ itemId: SITECORE_ROOT_ID, name: '', path: '' }];
+      } else {
+        const pageNodes = await getQueryNodesByPath(client, [basePath], sitecoreContextId, language);
+        const pageNode = pageNodes[basePath];
+        if (!pageNode) {
+          result.warnings.push(`Query datasource "${parsed.query.expression}" was not evaluated: page item ${basePath} could not be loaded`);
+          continue;
+        }
+        nodes = [pageNode];
+      }
+
+      const queryWarnings: string[] = [];
+      for (const step of parsed.query.steps) {
+        const stepNodes = await applyQueryStep(client, nodes, step, sitecoreContextId, language, queryWarnings);
+        // Remove duplicates reached through different paths
+        nodes = Array.from(new Map(stepNodes.map(node => [node.itemId, node])).values());
+        if (nodes.length === 0) {
+          break;
+        }
+      }
+
+      if (nodes.length > MAX_QUERY_RESULTS) {
+        queryWarnings.push(`resolved to ${nodes.length} items; only the first ${MAX_QUERY_RESULTS} are shown`);
+        nodes = nodes.slice(0, MAX_QUERY_RESULTS);
+      }
+
+      queryWarnings.forEach(warning => result.warnings.push(`Query datasource "${parsed.query.expression}": ${warning}`));
+      result.resolved[datasource] = nodes.map(node => node.itemId);
+      console.log(`📝 Resolved query ${parsed.query.expression} → ${nodes.length} items`);
+    } catch (error) {
+      console.error('❌ Error resolving query datasource:', datasource, error);
+      result.warnings.push(`Query datasource "${parsed.query.expression}" failed to resolve: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Query the authoring endpoint for the languages configured on a site
+ * @param client - Marketplace SDK client
+ * @param siteName - Name of the site (from pages.context siteInfo)
+ * @param sitecoreContextId - Context ID for the query
+ * @returns Array of language names, empty if the site could not be queried
+ */
+export const getSiteLanguages = async (
+  client: ClientSDK,
+  siteName: string,
+  sitecoreContextId: string
+): Promise<string[]> => {
+  if (!client || !siteName) {
+    return [];
+  }
+
+  const query = `
+    query GetSiteLanguages {
+      site(siteName: "${siteName}") {
+        name
+        languages {
+          name
+        }
+      }
+    }
+  `;
+
+  try {
+    console.log('🌐 Querying site languages for site:', siteName);
+
+    const response = await client.mutate('xmc.authoring.graphql', {
+      params: {
+        query: {
+          sitecoreContextId
+        },
+        body: {
+          query: query.trim()
+        }
+      }
+    });
+
+    const site = response?.data?.data?.site as { languages?: Array<{ name?: string }> } | null | undefined;
+    const languages = (site?.languages || [])
+      .map(language => language?.name)
+      .filter((name): name is string => typeof name === 'string' && name.length > 0);
+
+    console.log('🌐 Site languages from authoring:', languages);
+    return languages;
+  } catch (error) {
+    console.error('❌ Error querying site languages:', error);
+    return [];
+  }
+};
+
+/**
+ * Publishing mode: smart publish only sends changes, republish sends everything
+ */
+export type PublishMode = 'smart' | 'republish';
+
+/**
+ * Options for publishing an item to Experience Edge
+ */
+export interface PublishItemOptions {
+  languages: string[];
+  includeSubitems: boolean;
+  mode: PublishMode;
+}
+
+/**
+ * Status of a publishing operation reported by the authoring API
+ */
+export interface PublishingOperationStatus {
+  isDone: boolean;
+  isFailed: boolean;
+  processed: number;
+  state: string;
+}
+
+/**
+ * Start publishing an item to Experience Edge via the authoring mutation API
+ * @returns The publishing operation ID
+ */
+export const publishItem = async (
+  client: ClientSDK,
+  itemId: string,
+  options: PublishItemOptions,
+  sitecoreContextId: string
+): Promise<string> => {
+  const mutation = `
+    mutation PublishItem {
+      publishItem(input: {
+        rootItemId: "{${formatGuidWithHyphens(itemId)}}"
+        languages: "${options.languages.join(',')}"
+        targetDatabases: "experienceedge"
+        publishItemMode: ${options.mode === 'republish' ? 'FULL' : 'SMART'}
+        publishRelatedItems: false
+        publishSubItems: ${options.includeSubitems}
+      }) {
+        operationId
+      }
+    }
+  `;
+
+  console.log('🚀 Publishing item:', itemId, options);
+
+  const response = await client.mutate('xmc.authoring.graphql', {
+    params: {
+      query: {
+        sitecoreContextId
+      },
+      body: {
+        query: mutation.trim()
+      }
+    }
+  });
+
+  const errors = response?.data?.errors as Array<{ message?: string }> | undefined;
+  if (errors && errors.length > 0) {
+    throw new Error(errors.map(error => error.message).join('; '));
+  }
+
+  const publishResult = response?.data?.data?.publishItem as { operationId?: string } | null | undefined;
+  if (!publishResult?.operationId) {
+    throw new Error(`Publishing did not return an operation ID for item ${itemId}`);
+  }
+
+  console.log('🚀 Publishing operation started:', publishResult.operationId);
+  return publishResult.operationId;
+};
+
+/**
+ * Query the status of a publishing operation
+ */
+export const getPublishingStatus = async (
+  client: ClientSDK,
+  operationId: string,
+  sitecoreContextId: string
+): Promise<PublishingOperationStatus> => {
+  const query = `
+    query GetPublishingStatus {
+      publishingStatus(publishingOperationId: "${operationId}") {
+        isDone
+        isFailed
+        processed
+        state
+      }
+    }
+  `;
+
+  const response = await client.mutate('xmc.authoring.graphql', {
+    params: {
+      query: {
+        sitecoreContextId
+      },
+      body: {
+        query: query.trim()
+      }
+    }
+  });
+
+  const status = response?.data?.data?.publishingStatus as Partial<PublishingOperationStatus> | null | undefined;
+
+  return {
+    isDone: Boolean(status?.isDone),
+    isFailed: Boolean(status?.isFailed),
+    processed: status?.processed || 0,
+    state: status?.state || 'UNKNOWN'
+  };
+};
+
+/**
+ * Query the workflow commands available in a workflow state
+ * The authoring API runs as the current user, so only commands they can execute are returned
+ */
+export const getWorkflowCommands = async (
+  client: ClientSDK,
+  workflowId: string,
+  stateId: string,
+  sitecoreContextId: string
+): Promise<WorkflowCommand[]> => {
+  const query = `
+    query GetWorkflowCommands {
+      workflow(where: { workflowId: "${workflowId}" }) {
+        commands(query: { stateId: "${stateId}" }) {
+          nodes {
+            commandId
+            displayName
+          }
+        }
+      }
+    }
+  `;
+
+  const data = await runAuthoringQuery(client, query, sitecoreContextId);
+  const workflow = data.workflow as { commands?: { nodes?: WorkflowCommand[] } } | null | undefined;
+
+  return workflow?.commands?.nodes || [];
+};
+
+/**
+ * Version of an item a workflow command is executed on
+ */
+export interface WorkflowCommandTarget {
+  itemId: string;
+  language: string;
+  version: number;
+}
+
+/**
+ * Execute a workflow command (e.g. Approve, Reject) on an item version
+ * @returns The ID of the state the version moved to
+ */
+export const executeWorkflowCommand = async (
+  client: ClientSDK,
+  target: WorkflowCommandTarget,
+  commandId: string,
+  sitecoreContextId: string,
+  comments: string = ''
+): Promise<string | null> => {
+  const mutation = `
+    mutation ExecuteWorkflowCommand {
+      executeWorkflowCommand(input: {
+        item: {
+          itemId: "{${formatGuidWithHyphens(target.itemId)}}"
+          language: "${target.language}"
+          version: ${target.version}
+        }
+        commandId: "${commandId}"
+        comments: ${JSON.stringify(comments)}
+      }) {
+        successful
+        error
+        message
+        nextStateId
+      }
+    }
+  `;
+
+  console.log('🔀 Executing workflow command:', commandId, target);
+
+  const response = await client.mutate('xmc.authoring.graphql', {
+    params: {
+      query: {
+        sitecoreContextId
+      },
+      body: {
+        query: mutation.trim()
+      }
+    }
+  });
+
+  const errors = response?.data?.errors as Array<{ message?: string }> | undefined;
+  if (errors && errors.length > 0) {
+    throw new Error(errors.map(error => error.message).join('; '));
+  }
+
+  const result = response?.data?.data?.executeWorkflowCommand as {
+    successful?: boolean;
+    error?: string | null;
+    message?: string | null;
+    nextStateId?: string | null;
+  } | null | undefined;
+
+  if (!result?.successful) {
+    throw new Error(result?.error || result?.message || `Workflow command ${commandId} failed`);
+  }
+
+  return result.nextStateId || null;
+};
+
+/**
+ * Query one chunk of items with their (non-standard) field values from the authoring endpoint
+ */
+const queryItemFieldsChunk = async (
+  client: ClientSDK,
+  itemIds: string[],
+  sitecoreContextId: string,
+  language: string
+): Promise<ItemQueryResult> => {
+  const query = `
+    query GetAuthoringItemFields {
+      ${itemIds.map((id, index) => `
+        ${getItemAlias(index, 0)}: item(where: {
+          database: "master"
+          itemId: "${id}"
+          language: "${language}"
+        }) {
+          itemId
+          name
+          path
+          version
+          fields(excludeStandardFields: true) {
+            nodes {
+              name
+              value
+              templateField {
+                type
+              }
+            }
+          }
+        }
+      `).join('')}
+    }
+  `;
+
+  try {
+    return await client.mutate('xmc.authoring.graphql', {
+      params: {
+        query: {
+          sitecoreContextId
+        },
+        body: {
+          query: query.trim()
+        }
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error querying item fields from authoring:', error);
+    return { error };
+  }
+};
+
+/**
+ * Query the authoring endpoint for the (non-standard) field values of multiple items, in chunks
+ * Used when crawling references from item fields
+ * @returns Items keyed by ID and language, plus the chunks that failed
+ */
+export const getItemFieldsFromAuthoring = async (
+  client: ClientSDK,
+  itemIds: string[],
+  sitecoreContextId: string,
+  language: string = DEFAULT_LANGUAGE,
+  batchOptions?: BatchOptions
+): Promise<BatchedQueryResult<AuthoringItemResponse>> => {
+  return queryItemsInBatches<AuthoringItemResponse>(
+    'Reference fields',
+    itemIds,
+    [language],
+    (chunkIds) => queryItemFieldsChunk(client, chunkIds, sitecoreContextId, language),
+    batchOptions
+  );
+};
+
+/**
+ * Query the field values of one version of an item from the authoring endpoint
+ * @returns The fields, or null if the item or version does not exist
+ */
+export const getItemVersionFields = async (
+  client: ClientSDK,
+  itemId: string,
+  language: string,
+  version: number,
+  sitecoreContextId: string
+): Promise<FieldValue[] | null> => {
+  const query = `
+    query GetItemVersionFields {
+      item(where: {
+        database: "master"
+        itemId: "${formatGuidWithHyphens(itemId)}"
+        language: "${language}"
+        version: ${version}
+      }) {
+        version
+        fields(excludeStandardFields: true) {
+          nodes {
+            name
+            value
+            templateField {
+              type
+            }
+          }
+        }
+      }
+    }
+  `;
+
+  const data = await runAuthoringQuery(client, query, sitecoreContextId);
+  const item = data.item as AuthoringItemResponse | null | undefined;
+  if (!item) {
+    return null;
+  }
+
+  return (item.fields?.nodes || []).map(field => ({
+    name: field.name,
+    value: field.value || '',
+    type: field.templateField?.type
+  }));
+};
+
+/**
+ * Query the field values of the published version of an item from Experience Edge
+ * @returns The published version and its fields, or null if the item is not published
+ */
+export const getLiveItemFields = async (
+  client: ClientSDK,
+  itemId: string,
+  language: string,
+  liveContextId?: string
+): Promise<{ version: number; fields: FieldValue[] } | null> => {
+  if (!liveContextId) {
+    throw new Error(LIVE_ACCESS_NOT_GRANTED_MESSAGE);
+  }
+
+  const query = `
+    query GetLiveItemFields {
+      item(path: "{${formatGuidForLive(itemId)}}", language: "${language}") {
+        version
+        fields(ownFields: false) {
+          name
+          value
+        }
+      }
+    }
+  `;
+
+  const response = await client.mutate('xmc.live.graphql', {
+    params: {
+      query: {
+        sitecoreContextId: liveContextId
+      },
+      body: {
+        query: query.trim()
+      }
+    }
+  });
+
+  const item = response?.data?.data?.item as {
+    version: number;
+    fields?: Array<{ name: string; value: string | null }> | null;
+  } | null | undefined;
+
+  if (!item) {
+    return null;
+  }
+
+  return {
+    version: item.version,
+    fields: (item.fields || []).map(field => ({ name: field.name, value: field.value || '' }))
+  };
+};
+
+/**
+ * Query every version of an item in one language from the authoring endpoint
+ * @returns Versions sorted newest first
+ */
+export const getItemVersionHistory = async (
+  client: ClientSDK,
+  itemId: string,
+  language: string,
+  sitecoreContextId: string
+): Promise<ItemVersionInfo[]> => {
+  const query = `
+    query GetItemVersionHistory {
+      item(where: {
+        database: "master"
+        itemId: "${formatGuidWithHyphens(itemId)}"
+        language: "${language}"
+      }) {
+        versions(allLanguages: false) {
+          version
+          created: field(name: "__Created") {
+            value
+          }
+          createdBy: field(name: "__Created by") {
+            value
+          }
+          updated: field(name: "__Updated") {
+            value
+          }
+          updatedBy: field(name: "__Updated by") {
+            value
+          }
+          workflow {
+            workflowState {
+              displayName
+              final
+            }
+          }
+        }
+      }
+    }
+  `;
+
+  type FieldResult = { value?: string | null } | null | undefined;
+  const data = await runAuthoringQuery(client, query, sitecoreContextId);
+  const item = data.item as {
+    versions?: Array<{
+      version: number;
+      created?: FieldResult;
+      createdBy?: FieldResult;
+      updated?: FieldResult;
+      updatedBy?: FieldResult;
+      workflow?: { workflowState?: { displayName: string; final: boolean } | null } | null;
+    }> | null;
+  } | null | undefined;
+
+  return (item?.versions || [])
+    .map(version => ({
+      version: version.version,
+      createdAt: parseSitecoreDate(version.created?.value),
+      createdBy: version.createdBy?.value || undefined,
+      updatedAt: parseSitecoreDate(version.updated?.value),
+      updatedBy: version.updatedBy?.value || undefined,
+      workflowState: version.workflow?.workflowState?.displayName,
+      isFinalState: version.workflow?.workflowState?.final
+    }))
+    .sort((a, b) => b.version - a.version);
+};
@@ -48,9 +48,13 @@ async function getMarketplaceClient() {
     throw new Error('Not running in Sitecore environment - no parent window available');
   }
 
+  // The local mock host (dev-host.html) runs on our own origin, which the SDK doesn't trust by default
+  const isMockHost = import.meta.env.DEV && new URLSearchParams(window.location.search).has('mockHost');
+
   const config = {
     target: window.parent,
     modules: [XMC], // add the module
+    ...(isMockHost ? { origin: window.location.origin } : {}),
   };
   client = await ClientSDK.init(config);
   return client;
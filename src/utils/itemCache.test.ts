@@ -0,0 +1,102 @@
+// utils/itemCache.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { invalidateItemCache, queryItemsWithCache } from './itemCache';
+import type { BatchedQueryResult } from '../types/itemInformation';
+import { CONTEXT_IDS } from '../test/mockClient';
+import { IDS } from '../test/fixtures';
+
+const OPTIONS = { ttlMs: 1000, staleMs: 5000 };
+
+/**
+ * Fetcher that returns the item's version, counting how often it is called
+ */
+const createFetcher = (version: number = 1) => vi.fn(async (itemIds: string[]): Promise<BatchedQueryResult<{ version: number }>> => ({
+  items: Object.fromEntries(itemIds.map(id => [id, { en: { version } }])),
+  failures: []
+}));
+
+const query = (fetchItems: ReturnType<typeof createFetcher>, allowStale = false) =>
+  queryItemsWithCache('Live', CONTEXT_IDS.live, [IDS.page], ['en'], fetchItems, allowStale, OPTIONS);
+
+describe('queryItemsWithCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-09-03T08:00:00Z'));
+    invalidateItemCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves entries until the TTL expires', async () => {
+    const fetchItems = createFetcher();
+
+    await query(fetchItems);
+    vi.advanceTimersByTime(OPTIONS.ttlMs);
+    const cached = await query(fetchItems);
+    vi.advanceTimersByTime(1);
+    await query(fetchItems);
+
+    expect(cached.items[IDS.page]).toEqual({ en: { version: 1 } });
+    expect(fetchItems).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves expired entries within the stale window only when allowed', async () => {
+    const fetchItems = createFetcher();
+    await query(fetchItems);
+
+    vi.advanceTimersByTime(OPTIONS.ttlMs + 1);
+    const stale = await query(fetchItems, true);
+    expect(stale.staleItemIds).toEqual([IDS.page]);
+    expect(fetchItems).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(OPTIONS.staleMs);
+    const refetched = await query(fetchItems, true);
+    expect(refetched.staleItemIds).toEqual([]);
+    expect(fetchItems).toHaveBeenCalledTimes(2);
+  });
+
+  it('keys entries by endpoint and context ID', async () => {
+    const fetchItems = createFetcher();
+
+    await query(fetchItems);
+    await queryItemsWithCache('Live', CONTEXT_IDS.preview, [IDS.page], ['en'], fetchItems, false, OPTIONS);
+    await queryItemsWithCache('Authoring', CONTEXT_IDS.live, [IDS.page], ['en'], fetchItems, false, OPTIONS);
+
+    expect(fetchItems).toHaveBeenCalledTimes(3);
+  });
+
+  it('joins identical requests in flight and does not cache failures', async () => {
+    const fetchItems = createFetcher();
+    const [first, second] = await Promise.all([query(fetchItems), query(fetchItems)]);
+    expect(first.items).toEqual(second.items);
+    expect(fetchItems).toHaveBeenCalledTimes(1);
+
+    invalidateItemCache();
+    const failing = vi.fn(async (): Promise<BatchedQueryResult<{ version: number }>> => {
+      throw new Error('Edge unavailable');
+    });
+    const failed = await query(failing);
+    expect(failed.failures).toEqual([{ endpoint: 'Live', itemIds: [IDS.page], error: 'Edge unavailable' }]);
+    await query(fetchItems);
+    expect(fetchItems).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not write back results of requests started before an invalidation', async () => {
+    let resolveFetch: (result: BatchedQueryResult<{ version: number }>) => void = () => {};
+    const slowFetch = vi.fn((): Promise<BatchedQueryResult<{ version: number }>> => new Promise(resolve => {
+      resolveFetch = resolve;
+    }));
+
+    const inFlight = query(slowFetch);
+    invalidateItemCache([IDS.page]);
+    resolveFetch({ items: { [IDS.page]: { en: { version: 1 } } }, failures: [] });
+    expect((await inFlight).items[IDS.page]).toEqual({ en: { version: 1 } });
+
+    const fetchItems = createFetcher(2);
+    const fresh = await query(fetchItems);
+    expect(fresh.items[IDS.page]).toEqual({ en: { version: 2 } });
+    expect(fetchItems).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,163 @@
+// utils/itemCache.ts
+import type { BatchedQueryResult, ChunkFailure } from '../types/itemInformation';
+import { formatGuidWithoutHyphens } from './dataProcessing';
+
+export interface ItemCacheOptions {
+  /** How long an entry is served without refetching */
+  ttlMs: number;
+  /** How long after expiring an entry may still be shown while it is revalidated */
+  staleMs: number;
+}
+
+export const DEFAULT_ITEM_CACHE_OPTIONS: ItemCacheOptions = {
+  ttlMs: 60 * 1000,
+  staleMs: 10 * 60 * 1000
+};
+
+interface CacheEntry {
+  value: unknown;
+  fetchedAt: number;
+}
+
+type FetchOutcome = { value: unknown } | { error: string };
+
+// Shared by every hook instance, so switching pages and back reuses earlier results
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<FetchOutcome>>();
+// Bumped on invalidation so requests started before it do not write old data back
+let generation = 0;
+
+// The context ID is part of the key so entries never leak between environments or tenants
+const getCacheKey = (endpoint: string, contextId: string, itemId: string, language: string): string => {
+  return `${endpoint}:${contextId}:${formatGuidWithoutHyphens(itemId)}:${language}`;
+};
+
+const getKeyItemId = (key: string): string => key.split(':')[2];
+
+/**
+ * Drop cached and in-flight entries for the given items, or for everything when no IDs are given
+ */
+export const invalidateItemCache = (itemIds?: string[]): void => {
+  generation++;
+
+  if (!itemIds) {
+    console.log('🧹 Clearing item cache');
+    entries.clear();
+    inFlight.clear();
+    return;
+  }
+
+  const ids = new Set(itemIds.map(formatGuidWithoutHyphens));
+  console.log('🧹 Invalidating cached items:', [...ids]);
+  [entries, inFlight].forEach(map => {
+    [...map.keys()].filter(key => ids.has(getKeyItemId(key))).forEach(key => map.delete(key));
+  });
+};
+
+/**
+ * Get the outcome for one item and language from a fetch result
+ */
+const getOutcome = <T>(result: BatchedQueryResult<T>, itemId: string, language: string): FetchOutcome => {
+  const failure = result.failures.find(f => f.itemIds.some(id => formatGuidWithoutHyphens(id) === itemId));
+  if (failure) {
+    return { error: failure.error };
+  }
+  return { value: result.items[itemId]?.[language] ?? null };
+};
+
+/**
+ * Serve items from the cache and fetch only the ones that are missing or expired
+ * Identical requests already in flight (from any hook) are joined instead of repeated.
+ * Failures are never cached.
+ * @param endpoint - Endpoint name, part of the cache key (e.g. "Live")
+ * @param contextId - Sitecore context ID the items are queried with, part of the cache key
+ * @param fetchItems - Fetches the given items in every requested language
+ * @param allowStale - Serve expired entries within the stale window and list them in `staleItemIds`
+ */
+export const queryItemsWithCache = async <T>(
+  endpoint: string,
+  contextId: string,
+  itemIds: string[],
+  languages: string[],
+  fetchItems: (itemIds: string[]) => Promise<BatchedQueryResult<T>>,
+  allowStale = false,
+  options: ItemCacheOptions = DEFAULT_ITEM_CACHE_OPTIONS
+): Promise<BatchedQueryResult<T>> => {
+  const now = Date.now();
+  const result: BatchedQueryResult<T> = { items: {}, failures: [], staleItemIds: [] };
+  const pending = new Map<string, Promise<FetchOutcome>[]>();
+  const toFetch: string[] = [];
+  const uniqueIds = new Map(itemIds.map(id => [formatGuidWithoutHyphens(id), id]));
+
+  uniqueIds.forEach((originalId, itemId) => {
+    const keys = languages.map(language => getCacheKey(endpoint, contextId, itemId, language));
+    const cached = keys.map(key => entries.get(key));
+    const age = Math.max(...cached.map(entry => entry ? now - entry.fetchedAt : Infinity));
+
+    if (age <= options.ttlMs || (allowStale && age <= options.ttlMs + options.staleMs)) {
+      result.items[itemId] = Object.fromEntries(
+        languages.map((language, index) => [language, cached[index]?.value as T | null])
+      );
+      if (age > options.ttlMs) {
+        result.staleItemIds?.push(originalId);
+      }
+      return;
+    }
+
+    if (keys.every(key => inFlight.has(key))) {
+      pending.set(itemId, keys.map(key => inFlight.get(key)!));
+      return;
+    }
+
+    toFetch.push(originalId);
+  });
+
+  if (toFetch.length > 0) {
+    const startedGeneration = generation;
+    const fetchPromise = fetchItems(toFetch).catch((error): BatchedQueryResult<T> => ({
+      items: {},
+      failures: [{ endpoint, itemIds: toFetch, error: error instanceof Error ? error.message : String(error) }]
+    }));
+
+    toFetch.forEach(originalId => {
+      const itemId = formatGuidWithoutHyphens(originalId);
+      pending.set(itemId, languages.map(language => {
+        const key = getCacheKey(endpoint, contextId, itemId, language);
+        const promise = fetchPromise.then(fetched => {
+          const outcome = getOutcome(fetched, itemId, language);
+          if (inFlight.get(key) === promise) {
+            inFlight.delete(key);
+          }
+          if ('value' in outcome && generation === startedGeneration) {
+            entries.set(key, { value: outcome.value, fetchedAt: Date.now() });
+          }
+          return outcome;
+        });
+        inFlight.set(key, promise);
+        return promise;
+      }));
+    });
+  }
+
+  const cachedCount = uniqueIds.size - pending.size;
+  console.log(`🗃️ ${endpoint}: ${cachedCount} item(s) from cache, ${toFetch.length} fetched, ${pending.size - toFetch.length} joined in-flight requests`);
+
+  // Regroup failures by error so they read like the chunk failures they came from
+  const failuresByError = new Map<string, ChunkFailure>();
+  await Promise.all([...pending.entries()].map(async ([itemId, promises]) => {
+    const outcomes = await Promise.all(promises);
+    const failed = outcomes.find((outcome): outcome is { error: string } => 'error' in outcome);
+    if (failed) {
+      const failure = failuresByError.get(failed.error) || { endpoint, itemIds: [], error: failed.error };
+      failure.itemIds.push(uniqueIds.get(itemId)!);
+      failuresByError.set(failed.error, failure);
+      return;
+    }
+    result.items[itemId] = Object.fromEntries(
+      languages.map((language, index) => [language, (outcomes[index] as { value: unknown }).value as T | null])
+    );
+  }));
+
+  result.failures = [...failuresByError.values()];
+  return result;
+};
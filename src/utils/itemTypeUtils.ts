@@ -1,5 +1,5 @@
 // utils/itemTypeUtils.ts
-import type { ProcessedItemInfo } from '../types/itemInformation';
+import type { ProcessedItemInfo, ReferenceProvenance, ReferenceSource } from '../types/itemInformation';
 
 /**
  * Get the color scheme for an item type badge
@@ -14,6 +14,8 @@ export const getItemTypeColor = (itemType: ProcessedItemInfo['itemType']): strin
       return 'cyan';
     case 'reference':
       return 'gray';
+    case 'media':
+      return 'pink';
     default:
       return 'gray';
   }
@@ -32,7 +34,53 @@ export const getItemTypeLabel = (type: ProcessedItemInfo['itemType']): string =>
       return 'Link';
     case 'reference':
       return 'Reference';
+    case 'media':
+      return 'Media';
     default:
       return 'Unknown';
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Get a human-readable label for where a referenced item was found
+ */
+export const getReferenceSourceLabel = (source: ReferenceSource): string => {
+  switch (source) {
+    case 'rendering-datasource':
+      return 'Rendering datasource';
+    case 'local-datasource':
+      return 'Local datasource';
+    case 'query-datasource':
+      return 'Query datasource';
+    case 'general-link':
+      return 'General Link field';
+    case 'rich-text':
+      return 'Rich Text link';
+    case 'multilist':
+      return 'Multilist/Treelist field';
+    case 'media-field':
+      return 'Image/File field';
+    case 'field':
+      return 'Field value';
+    default:
+      return 'Unknown';
+  }
+};
+
+/**
+ * Describe the field or rendering a reference was found in
+ */
+export const getProvenanceLocationLabel = (record: ReferenceProvenance): string => {
+  if (record.fieldName) {
+    return `Field "${record.fieldName}"`;
+  }
+
+  const parts: string[] = [];
+  if (record.renderingName) {
+    parts.push(`Rendering ${record.renderingName}`);
+  }
+  if (record.renderingUid) {
+    parts.push(`UID ${record.renderingUid}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : '—';
+};
@@ -0,0 +1,240 @@
+// utils/layoutParser.test.ts
+import { describe, expect, it } from 'vitest';
+import { mergeLayouts, parseLayoutXml, parsePresentationDetails } from './layoutParser';
+import type { LayoutDevice } from './layoutParser';
+
+const DEFAULT_DEVICE = 'FE5D7FDF-89C0-4D99-9AA3-B5FBD009C9F3';
+const PRINT_DEVICE = '46D2F427-4CE5-4E1F-BA10-EF3636F43534';
+const LAYOUT = '96E5F4BA-A2CF-4A4C-A4E7-64DA88226362';
+
+const UIDS = {
+  header: '11111111-1111-4111-8111-111111111111',
+  hero: '22222222-2222-4222-8222-222222222222',
+  container: '33333333-3333-4333-8333-333333333333',
+  columns: '44444444-4444-4444-8444-444444444444',
+  text: '55555555-5555-4555-8555-555555555555',
+  promo: '66666666-6666-4666-8666-666666666666',
+  footer: '77777777-7777-4777-8777-777777777777'
+};
+
+const RENDERING_ID = 'B0C1D2E3-0001-4000-8000-000000000010';
+
+/**
+ * __Renderings as Sitecore stores it: header, hero and footer on the Default device
+ */
+const SHARED_LAYOUT = [
+  '<r xmlns:xsd="http://www.w3.org/2001/XMLSchema">',
+  `<d id="{${DEFAULT_DEVICE}}" l="{${LAYOUT}}">`,
+  `<r id="{${RENDERING_ID}}" ph="headless-header" uid="{${UIDS.header}}" />`,
+  `<r ds="{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B}" id="{${RENDERING_ID}}" par="Styles=%7B6B5C7D8E%7D&amp;RenderingIdentifier=hero&amp;FieldNames=Default" ph="headless-main" uid="{${UIDS.hero}}" />`,
+  `<r ds="local:/Data/Footer" id="{${RENDERING_ID}}" ph="headless-footer" uid="{${UIDS.footer}}" />`,
+  '</d>',
+  '</r>'
+].join('');
+
+const uids = (device: LayoutDevice) => device.renderings.map(rendering => rendering.uid);
+
+describe('parseLayoutXml', () => {
+  it('reads devices and renderings with their datasource, placeholder and parameters', () => {
+    const [device] = parseLayoutXml(SHARED_LAYOUT);
+
+    expect(device).toMatchObject({ id: DEFAULT_DEVICE, layoutId: `{${LAYOUT}}` });
+    expect(uids(device)).toEqual([UIDS.header, UIDS.hero, UIDS.footer]);
+    expect(device.renderings[1]).toEqual({
+      uid: UIDS.hero,
+      renderingId: `{${RENDERING_ID}}`,
+      placeholder: 'headless-main',
+      dataSource: '{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B}',
+      parameters: { Styles: '{6B5C7D8E}', RenderingIdentifier: 'hero', FieldNames: 'Default' }
+    });
+    expect(device.renderings[0].dataSource).toBeUndefined();
+  });
+
+  it('ignores the XML declaration, comments and rendering rules', () => {
+    const [device] = parseLayoutXml([
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<!-- personalized -->',
+      `<r><d id="{${DEFAULT_DEVICE}}">`,
+      `<r uid="{${UIDS.hero}}" ph="headless-main" ds="{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B}">`,
+      '<rls><ruleset><rule uid="{A}" name="Default"><conditions /></rule></ruleset></rls>',
+      '</r>',
+      '</d></r>'
+    ].join('\n'));
+
+    expect(device.renderings).toHaveLength(1);
+    expect(device.renderings[0].dataSource).toBe('{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B}');
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseLayoutXml(`<r><d id="{${DEFAULT_DEVICE}}"><r uid="{A}" ph="main"></d></r>`)).toThrow('Unexpected closing tag');
+    expect(() => parseLayoutXml('<r><d id="x">')).toThrow('Unclosed tag');
+  });
+});
+
+describe('mergeLayouts', () => {
+  const delta = (...devices: string[]) => `<r xmlns:p="p" xmlns:s="s" p:p="1">${devices.join('')}</r>`;
+
+  it('returns the shared layout when there is no final layout', () => {
+    expect(mergeLayouts(SHARED_LAYOUT, null)).toEqual(parseLayoutXml(SHARED_LAYOUT));
+    expect(mergeLayouts(SHARED_LAYOUT, '  ')).toEqual(parseLayoutXml(SHARED_LAYOUT));
+  });
+
+  it('returns no devices without layouts', () => {
+    expect(mergeLayouts(undefined, undefined)).toEqual([]);
+  });
+
+  it('applies changed attributes from the final layout', () => {
+    const [device] = mergeLayouts(SHARED_LAYOUT, delta(
+      `<d id="{${DEFAULT_DEVICE}}"><r uid="{${UIDS.hero}}" s:ds="{9E3F5071-8293-4BA4-85D6-E7F8091A2B3C}" s:par="FieldNames=Wide" /></d>`
+    ));
+
+    expect(uids(device)).toEqual([UIDS.header, UIDS.hero, UIDS.footer]);
+    expect(device.renderings[1]).toMatchObject({
+      placeholder: 'headless-main',
+      dataSource: '{9E3F5071-8293-4BA4-85D6-E7F8091A2B3C}',
+      parameters: { FieldNames: 'Wide' }
+    });
+  });
+
+  it('clears a datasource emptied in the final layout', () => {
+    const [device] = mergeLayouts(SHARED_LAYOUT, delta(`<d id="{${DEFAULT_DEVICE}}"><r uid="{${UIDS.hero}}" s:ds="" /></d>`));
+
+    expect(device.renderings[1].dataSource).toBeUndefined();
+  });
+
+  it('removes renderings deleted in the final layout', () => {
+    const [device] = mergeLayouts(SHARED_LAYOUT, delta(`<d id="{${DEFAULT_DEVICE}}"><r uid="{${UIDS.hero}}" p:d="1" /></d>`));
+
+    expect(uids(device)).toEqual([UIDS.header, UIDS.footer]);
+  });
+
+  it('inserts and moves renderings with p:before and p:after', () => {
+    const [device] = mergeLayouts(SHARED_LAYOUT, delta(
+      `<d id="{${DEFAULT_DEVICE}}">`,
+      `<r uid="{${UIDS.promo}}" p:before="r[@uid='{${UIDS.hero}}']" s:id="{${RENDERING_ID}}" s:ph="headless-main" s:ds="{9E3F5071-8293-4BA4-85D6-E7F8091A2B3C}" />`,
+      `<r uid="{${UIDS.header}}" p:after="r[@uid='{${UIDS.footer}}']" />`,
+      `<r uid="{${UIDS.text}}" s:ph="headless-main" s:ds="local:/Data/Text" />`,
+      '</d>'
+    ));
+
+    expect(uids(device)).toEqual([UIDS.promo, UIDS.hero, UIDS.footer, UIDS.header, UIDS.text]);
+    expect(device.renderings[0]).toMatchObject({ placeholder: 'headless-main', dataSource: '{9E3F5071-8293-4BA4-85D6-E7F8091A2B3C}' });
+  });
+
+  it('appends renderings whose position matches nothing', () => {
+    const [device] = mergeLayouts(SHARED_LAYOUT, delta(
+      `<d id="{${DEFAULT_DEVICE}}"><r uid="{${UIDS.promo}}" p:before="*[1=2]" s:ph="headless-main" /></d>`
+    ));
+
+    expect(uids(device)).toEqual([UIDS.header, UIDS.hero, UIDS.footer, UIDS.promo]);
+  });
+
+  it('merges per device, adding devices only the final layout has', () => {
+    const devices = mergeLayouts(SHARED_LAYOUT, delta(
+      `<d id="{${DEFAULT_DEVICE}}" s:l="{00000000-0000-4000-8000-000000000001}" />`,
+      `<d id="{${PRINT_DEVICE}}" s:l="{${LAYOUT}}"><r uid="{${UIDS.text}}" s:ph="print-main" s:ds="{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B}" /></d>`
+    ));
+
+    expect(devices.map(device => device.id)).toEqual([DEFAULT_DEVICE, PRINT_DEVICE]);
+    expect(devices[0].layoutId).toBe('{00000000-0000-4000-8000-000000000001}');
+    expect(uids(devices[0])).toEqual([UIDS.header, UIDS.hero, UIDS.footer]);
+    expect(devices[1].renderings).toEqual([
+      { uid: UIDS.text, renderingId: undefined, placeholder: 'print-main', dataSource: '{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B}', parameters: {} }
+    ]);
+  });
+
+  it('replaces the shared layout with a final layout that is not a delta', () => {
+    const [device] = mergeLayouts(SHARED_LAYOUT, `<r><d id="{${DEFAULT_DEVICE}}"><r uid="{${UIDS.text}}" ph="headless-main" /></d></r>`);
+
+    expect(uids(device)).toEqual([UIDS.text]);
+  });
+
+  it('applies a final layout delta without a shared layout', () => {
+    const [device] = mergeLayouts('', delta(`<d id="{${DEFAULT_DEVICE}}"><r uid="{${UIDS.text}}" s:ph="headless-main" /></d>`));
+
+    expect(uids(device)).toEqual([UIDS.text]);
+  });
+});
+
+describe('dynamic placeholders', () => {
+  it('links renderings to the rendering whose dynamic placeholder holds them, at any depth', () => {
+    const [device] = parseLayoutXml([
+      `<r><d id="{${DEFAULT_DEVICE}}">`,
+      `<r uid="{${UIDS.container}}" ph="headless-main" par="DynamicPlaceholderId=1" />`,
+      `<r uid="{${UIDS.columns}}" ph="/headless-main/container-1" par="DynamicPlaceholderId=2" />`,
+      `<r uid="{${UIDS.text}}" ph="/headless-main/container-1/column-1-2" ds="local:/Data/Text" par="DynamicPlaceholderId=3" />`,
+      `<r uid="{${UIDS.promo}}" ph="/headless-main/container-1/row-{${UIDS.columns.toLowerCase()}}-0" />`,
+      `<r uid="{${UIDS.hero}}" ph="headless-main" par="DynamicPlaceholderId=2" />`,
+      '</d></r>'
+    ].join(''));
+    const parents = Object.fromEntries(device.renderings.map(rendering => [rendering.uid, rendering.parentUid]));
+
+    expect(parents).toEqual({
+      [UIDS.container]: undefined,
+      [UIDS.columns]: UIDS.container,
+      [UIDS.text]: UIDS.columns,
+      [UIDS.promo]: UIDS.columns,
+      [UIDS.hero]: undefined
+    });
+  });
+});
+
+describe('parsePresentationDetails', () => {
+  const json = {
+    devices: [{
+      id: 'fe5d7fdf-89c0-4d99-9aa3-b5fbd009c9f3',
+      name: 'Default',
+      layoutId: 'layout-1',
+      renderings: [
+        {
+          instanceId: 'container',
+          id: 'container-rendering',
+          placeholderKey: 'headless-main',
+          parameters: { DynamicPlaceholderId: 1 },
+          placeholders: [{
+            key: '/headless-main/container-1',
+            renderings: [{
+              uid: 'columns',
+              componentName: 'ColumnSplitter',
+              parameters: 'DynamicPlaceholderId=2',
+              placeholders: [{
+                key: '/headless-main/container-1/column-1-2',
+                renderings: [{ uid: 'text', dataSource: 'local:/Data/Text' }]
+              }]
+            }]
+          }]
+        }
+      ],
+      placeholders: [{
+        placeholderKey: 'headless-footer',
+        renderings: [{ uid: 'footer', dataSource: '{8D2E4F60-7182-4A93-B4C5-D6E7F8091A2B}' }]
+      }]
+    }]
+  };
+
+  it('flattens renderings from placeholders nested to any depth', () => {
+    const [device] = parsePresentationDetails(json);
+
+    expect(device).toMatchObject({ id: 'fe5d7fdf-89c0-4d99-9aa3-b5fbd009c9f3', name: 'Default', layoutId: 'layout-1' });
+    expect(device.renderings.map(({ uid, placeholder, parentUid }) => ({ uid, placeholder, parentUid }))).toEqual([
+      { uid: 'container', placeholder: 'headless-main', parentUid: undefined },
+      { uid: 'columns', placeholder: '/headless-main/container-1', parentUid: 'container' },
+      { uid: 'text', placeholder: '/headless-main/container-1/column-1-2', parentUid: 'columns' },
+      { uid: 'footer', placeholder: 'headless-footer', parentUid: undefined }
+    ]);
+    expect(device.renderings[0].parameters).toEqual({ DynamicPlaceholderId: '1' });
+    expect(device.renderings[1]).toMatchObject({ componentName: 'ColumnSplitter', parameters: { DynamicPlaceholderId: '2' } });
+    expect(device.renderings[2].dataSource).toBe('local:/Data/Text');
+  });
+
+  it('accepts JSON and layout XML strings', () => {
+    expect(parsePresentationDetails(JSON.stringify(json))).toEqual(parsePresentationDetails(json));
+    expect(parsePresentationDetails(`  ${SHARED_LAYOUT}`)).toEqual(parseLayoutXml(SHARED_LAYOUT));
+  });
+
+  it('returns no devices for empty details and throws for invalid ones', () => {
+    expect(parsePresentationDetails(undefined)).toEqual([]);
+    expect(parsePresentationDetails({})).toEqual([]);
+    expect(() => parsePresentationDetails('{"devices": [')).toThrow();
+  });
+});
@@ -0,0 +1,339 @@
+// utils/layoutParser.ts
+
+/**
+ * A rendering on the effective layout of a device
+ */
+export interface LayoutRendering {
+  /** Rendering instance UID */
+  uid: string;
+  /** Rendering definition item ID */
+  renderingId?: string;
+  /** Component name, when the presentation details provide one */
+  componentName?: string;
+  /** Full placeholder key, e.g. /headless-main/container-1 */
+  placeholder: string;
+  /** Raw datasource value (GUID, local: path, content path or query:) */
+  dataSource?: string;
+  /** Rendering parameters, decoded */
+  parameters: Record<string, string>;
+  /** UID of the rendering whose dynamic placeholder holds this rendering */
+  parentUid?: string;
+}
+
+/**
+ * Effective layout of one device (e.g. Default)
+ */
+export interface LayoutDevice {
+  id: string;
+  name?: string;
+  layoutId?: string;
+  renderings: LayoutRendering[];
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+const decodeEntities = (value: string): string => {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+      default:
+        return code[1].toLowerCase() === 'x'
+          ? String.fromCodePoint(parseInt(code.slice(2), 16))
+          : String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+  });
+};
+
+/**
+ * Parse the elements and attributes of an XML document; text content is ignored
+ * Layout XML is small and regular, so this avoids depending on DOMParser
+ */
+const parseXml = (xml: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const tagPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+
+  for (const [tag, closing, name, attributeText, selfClosing] of xml.matchAll(tagPattern)) {
+    if (!name) {
+      continue; // Comment or processing instruction
+    }
+
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== name || stack.length === 0) {
+        throw new Error(`Unexpected closing tag ${tag}`);
+      }
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const [, attributeName, doubleQuoted, singleQuoted] of attributeText.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[attributeName] = decodeEntities(doubleQuoted ?? singleQuoted ?? '');
+    }
+
+    const element: XmlElement = { name, attributes, children: [] };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  if (root.children.length !== 1) {
+    throw new Error('Layout XML must have a single root element');
+  }
+  return root.children[0];
+};
+
+const normalizeUid = (uid: string): string => uid.replace(/[{}]/g, '').toUpperCase();
+
+/**
+ * Decode rendering parameters stored as a URL-encoded query string
+ */
+const parseParameters = (value?: string): Record<string, string> => {
+  return value ? Object.fromEntries(new URLSearchParams(value)) : {};
+};
+
+/**
+ * Read a layout attribute; in final layout deltas changed values are in the s: namespace
+ */
+const readAttribute = (element: XmlElement, name: string): string | undefined => {
+  return element.attributes[`s:${name}`] ?? element.attributes[name];
+};
+
+/**
+ * Attributes of a layout element without their delta prefix, skipping the p: instructions
+ */
+const readValues = (element: XmlElement): Record<string, string> => {
+  const values: Record<string, string> = {};
+  Object.entries(element.attributes).forEach(([name, value]) => {
+    if (name.startsWith('p:') || name.startsWith('xmlns')) {
+      return;
+    }
+    values[name.startsWith('s:') ? name.slice(2) : name] = value;
+  });
+  return values;
+};
+
+/**
+ * Rendering in a layout being merged: its attribute values keyed without prefixes
+ */
+interface RenderingValues {
+  uid: string;
+  values: Record<string, string>;
+}
+
+interface DeviceValues {
+  id: string;
+  values: Record<string, string>;
+  renderings: RenderingValues[];
+}
+
+const isDelta = (root: XmlElement): boolean => root.attributes['p:p'] === '1';
+
+const isDeleted = (element: XmlElement): boolean => element.attributes['p:d'] === '1';
+
+/**
+ * Index to insert a rendering at, from a p:before or p:after expression like r[@uid='{...}']
+ * Expressions that match no rendering (e.g. *[1=2]) append it
+ */
+const getInsertIndex = (renderings: RenderingValues[], element: XmlElement): number => {
+  const before = element.attributes['p:before'];
+  const after = element.attributes['p:after'];
+  const uid = /@uid\s*=\s*['"]([^'"]+)['"]/.exec(before || after || '')?.[1];
+  const index = uid ? renderings.findIndex(rendering => rendering.uid === normalizeUid(uid)) : -1;
+  if (index === -1) {
+    return renderings.length;
+  }
+  return before ? index : index + 1;
+};
+
+/**
+ * Apply one layout document to the devices so far: a delta (p:p="1") patches them,
+ * a full layout replaces them
+ */
+const applyLayout = (devices: DeviceValues[], root: XmlElement): DeviceValues[] => {
+  const result: DeviceValues[] = isDelta(root)
+    ? devices.map(device => ({ ...device, values: { ...device.values }, renderings: device.renderings.map(rendering => ({ ...rendering, values: { ...rendering.values } })) }))
+    : [];
+
+  root.children.filter(element => element.name === 'd').forEach(deviceElement => {
+    const deviceId = normalizeUid(readAttribute(deviceElement, 'id') || '');
+    let device = result.find(entry => entry.id === deviceId);
+    if (isDeleted(deviceElement)) {
+      if (device) {
+        result.splice(result.indexOf(device), 1);
+      }
+      return;
+    }
+    if (!device) {
+      device = { id: deviceId, values: {}, renderings: [] };
+      result.push(device);
+    }
+    Object.assign(device.values, readValues(deviceElement));
+
+    deviceElement.children.filter(element => element.name === 'r').forEach(renderingElement => {
+      const uid = normalizeUid(readAttribute(renderingElement, 'uid') || '');
+      const existingIndex = device.renderings.findIndex(rendering => rendering.uid === uid);
+
+      if (isDeleted(renderingElement)) {
+        if (existingIndex !== -1) {
+          device.renderings.splice(existingIndex, 1);
+        }
+        return;
+      }
+
+      const rendering = existingIndex === -1
+        ? { uid, values: {} }
+        : device.renderings.splice(existingIndex, 1)[0];
+      Object.assign(rendering.values, readValues(renderingElement));
+
+      // Renderings keep their position unless the delta moves them
+      const isMoved = 'p:before' in renderingElement.attributes || 'p:after' in renderingElement.attributes;
+      const index = existingIndex !== -1 && !isMoved ? existingIndex : getInsertIndex(device.renderings, renderingElement);
+      device.renderings.splice(index, 0, rendering);
+    });
+  });
+
+  return result;
+};
+
+/**
+ * Work out which rendering's dynamic placeholder each rendering sits in
+ * Supports both key formats: name-{parent uid}-0 and name-N, where N is the parent's DynamicPlaceholderId
+ */
+const linkDynamicPlaceholders = (renderings: LayoutRendering[]): LayoutRendering[] => {
+  return renderings.map(rendering => {
+    const segments = rendering.placeholder.split('/').filter(Boolean);
+    const lastSegment = segments[segments.length - 1] || '';
+    const parentPath = segments.slice(0, -1).join('/');
+
+    const uidMatch = /-\{?([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\}?-\d+$/i.exec(lastSegment);
+    if (uidMatch) {
+      const parent = renderings.find(candidate => normalizeUid(candidate.uid) === normalizeUid(uidMatch[1]));
+      return parent ? { ...rendering, parentUid: parent.uid } : rendering;
+    }
+
+    const idMatch = /-(\d+)$/.exec(lastSegment);
+    if (!idMatch || !parentPath) {
+      return rendering;
+    }
+    const candidates = renderings.filter(candidate => candidate !== rendering && candidate.parameters.DynamicPlaceholderId === idMatch[1]);
+    const parent = candidates.find(candidate => candidate.placeholder.split('/').filter(Boolean).join('/') === parentPath)
+      || (candidates.length === 1 ? candidates[0] : undefined);
+    return parent ? { ...rendering, parentUid: parent.uid } : rendering;
+  });
+};
+
+const toLayoutDevice = (device: DeviceValues): LayoutDevice => ({
+  id: device.id,
+  layoutId: device.values.l || undefined,
+  renderings: linkDynamicPlaceholders(device.renderings.map(({ uid, values }) => ({
+    uid,
+    renderingId: values.id || undefined,
+    placeholder: values.ph || '',
+    dataSource: values.ds || undefined,
+    parameters: parseParameters(values.par)
+  })))
+});
+
+/**
+ * Merge a page's shared layout (__Renderings) with its final layout (__Final Renderings)
+ * The final layout is usually a delta: renderings are matched by UID, s: attributes override
+ * shared values, p:before/p:after move renderings and p:d="1" removes them
+ * @throws Error when either layout is not well-formed XML
+ */
+export const mergeLayouts = (sharedLayout?: string | null, finalLayout?: string | null): LayoutDevice[] => {
+  let devices: DeviceValues[] = [];
+  [sharedLayout, finalLayout].forEach(layout => {
+    if (layout?.trim()) {
+      devices = applyLayout(devices, parseXml(layout));
+    }
+  });
+  return devices.map(toLayoutDevice);
+};
+
+/**
+ * Parse a single layout XML document
+ * @throws Error when the layout is not well-formed XML
+ */
+export const parseLayoutXml = (layoutXml: string): LayoutDevice[] => mergeLayouts(layoutXml);
+
+const readString = (source: Record<string, unknown>, ...keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === 'string' && value.length > 0) {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+const asRecords = (value: unknown): Record<string, unknown>[] => {
+  return Array.isArray(value) ? value.filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object') : [];
+};
+
+/**
+ * Renderings in a JSON placeholder tree, in document order: a rendering, then the placeholders nested in it
+ */
+const collectJsonRenderings = (renderings: unknown, placeholders: unknown, placeholderKey?: string): LayoutRendering[] => {
+  const collected: LayoutRendering[] = [];
+
+  asRecords(renderings).forEach(rendering => {
+    const rawParameters = rendering.parameters;
+    collected.push({
+      uid: readString(rendering, 'uid', 'instanceId') || '',
+      renderingId: readString(rendering, 'renderingId', 'id'),
+      componentName: readString(rendering, 'componentName', 'renderingName', 'name'),
+      placeholder: readString(rendering, 'placeholder', 'placeholderKey') || placeholderKey || '',
+      dataSource: readString(rendering, 'dataSource', 'datasource'),
+      parameters: typeof rawParameters === 'string'
+        ? parseParameters(rawParameters)
+        : Object.fromEntries(Object.entries((rawParameters || {}) as Record<string, unknown>).map(([key, value]) => [key, String(value)]))
+    });
+    collected.push(...collectJsonRenderings(undefined, rendering.placeholders));
+  });
+
+  asRecords(placeholders).forEach(placeholder => {
+    collected.push(...collectJsonRenderings(
+      placeholder.renderings,
+      placeholder.placeholders,
+      readString(placeholder, 'key', 'placeholderKey', 'name')
+    ));
+  });
+
+  return collected;
+};
+
+/**
+ * Read presentation details as Pages sends them: layout XML, or JSON (string or object) with
+ * devices holding renderings and placeholders nested to any depth
+ * @throws Error when the value is not valid XML or JSON
+ */
+export const parsePresentationDetails = (presentationDetails: unknown): LayoutDevice[] => {
+  if (!presentationDetails) {
+    return [];
+  }
+  if (typeof presentationDetails === 'string') {
+    const value = presentationDetails.trim();
+    return value.startsWith('<') ? parseLayoutXml(value) : parsePresentationDetails(JSON.parse(value));
+  }
+
+  const details = presentationDetails as Record<string, unknown>;
+  return asRecords(details.devices).map(device => ({
+    id: readString(device, 'id') || '',
+    name: readString(device, 'name'),
+    layoutId: readString(device, 'layoutId'),
+    renderings: linkDynamicPlaceholders(collectJsonRenderings(device.renderings, device.placeholders))
+  }));
+};
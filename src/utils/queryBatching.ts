@@ -0,0 +1,148 @@
+// utils/queryBatching.ts
+import type {
+  ItemQueryResult,
+  BatchedQueryResult,
+  ChunkFailure
+} from '../types/itemInformation';
+import { formatGuidWithoutHyphens, getItemAlias } from './dataProcessing';
+
+export interface BatchOptions {
+  /** Maximum number of aliased item queries (items x languages) per request */
+  chunkSize: number;
+  /** Maximum number of requests running at once */
+  concurrency: number;
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  chunkSize: 25,
+  concurrency: 3
+};
+
+/**
+ * Split an array into chunks of at most `size` elements
+ */
+export const chunkArray = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+};
+
+/**
+ * Run a task for every input with at most `concurrency` tasks running at once
+ * Results are returned in input order
+ */
+export const runWithConcurrency = async <T, R>(
+  inputs: T[],
+  concurrency: number,
+  task: (input: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(inputs.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < inputs.length) {
+      const index = nextIndex++;
+      results[index] = await task(inputs[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), inputs.length) }, worker));
+  return results;
+};
+
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === 'object' && error !== null && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+};
+
+/**
+ * Query items in chunks and merge the aliased results back by item ID and language
+ * A failed chunk is reported in `failures` and its items are left out of `items`, so the
+ * rest of the page still loads. GraphQL errors with a path only fail the item they belong to
+ * @param endpoint - Endpoint name used in failure messages (e.g. "Live")
+ * @param queryChunk - Runs one aliased query for a chunk; aliases must follow getItemAlias(indexInChunk, languageIndex)
+ */
+export const queryItemsInBatches = async <T>(
+  endpoint: string,
+  itemIds: string[],
+  languages: string[],
+  queryChunk: (chunkIds: string[]) => Promise<ItemQueryResult>,
+  options: BatchOptions = DEFAULT_BATCH_OPTIONS
+): Promise<BatchedQueryResult<T>> => {
+  const result: BatchedQueryResult<T> = { items: {}, failures: [] };
+  if (itemIds.length === 0) {
+    return result;
+  }
+
+  // Every item is queried once per language, so fewer items fit in a chunk with more languages
+  const itemsPerChunk = Math.max(1, Math.floor(options.chunkSize / Math.max(languages.length, 1)));
+  const chunks = chunkArray(itemIds, itemsPerChunk);
+  console.log(`📦 Querying ${itemIds.length} ${endpoint} items in ${chunks.length} chunk(s) of up to ${itemsPerChunk}`);
+
+  await runWithConcurrency(chunks, options.concurrency, async (chunkIds, chunkIndex) => {
+    const fail = (failedIds: string[], error: string) => {
+      const failure: ChunkFailure = { endpoint, itemIds: failedIds, error };
+      console.error(`❌ ${endpoint} chunk ${chunkIndex + 1}/${chunks.length} failed:`, failure);
+      result.failures.push(failure);
+    };
+
+    let response: ItemQueryResult;
+    try {
+      response = await queryChunk(chunkIds);
+    } catch (error) {
+      fail(chunkIds, getErrorMessage(error));
+      return;
+    }
+
+    if (response.error || !response.data?.data) {
+      fail(chunkIds, response.error ? getErrorMessage(response.error) : 'No data in response');
+      return;
+    }
+
+    // Attribute GraphQL errors to the aliased item they belong to
+    const aliasToId = new Map<string, string>();
+    chunkIds.forEach((id, index) => {
+      languages.forEach((_language, languageIndex) => aliasToId.set(getItemAlias(index, languageIndex), id));
+    });
+    const failedIds = new Set<string>();
+    const chunkErrors: string[] = [];
+    (response.data.errors || []).forEach(error => {
+      const path = (error as { path?: unknown[] }).path;
+      const failedId = typeof path?.[0] === 'string' ? aliasToId.get(path[0]) : undefined;
+      if (failedId) {
+        if (!failedIds.has(failedId)) {
+          failedIds.add(failedId);
+          fail([failedId], getErrorMessage(error));
+        }
+      } else {
+        chunkErrors.push(getErrorMessage(error));
+      }
+    });
+    // Errors without a path cannot be attributed, so the whole chunk is treated as failed
+    if (chunkErrors.length > 0) {
+      fail(chunkIds.filter(id => !failedIds.has(id)), chunkErrors.join('; '));
+      return;
+    }
+
+    const data = response.data.data;
+    chunkIds.forEach((id, index) => {
+      if (failedIds.has(id)) {
+        return;
+      }
+      const byLanguage: Record<string, T | null> = {};
+      languages.forEach((language, languageIndex) => {
+        byLanguage[language] = (data[getItemAlias(index, languageIndex)] as T | null | undefined) ?? null;
+      });
+      result.items[formatGuidWithoutHyphens(id)] = byLanguage;
+    });
+  });
+
+  return result;
+};
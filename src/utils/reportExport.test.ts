@@ -0,0 +1,56 @@
+// utils/reportExport.test.ts
+import { describe, expect, it } from 'vitest';
+import { serializeReport } from './reportExport';
+import { createItemInformationResponse, processItemData } from './dataProcessing';
+import type { AuthoringItemResponse, LiveItemResponse } from '../types/itemInformation';
+import { IDS, PAGE_PATH } from '../test/fixtures';
+
+const authoringItem = (version: number, language: string, updated: string, updatedBy: string): AuthoringItemResponse => ({
+  itemId: IDS.page,
+  name: 'Launch Article',
+  path: PAGE_PATH,
+  version,
+  language: { name: language },
+  updated: { value: updated },
+  updatedBy: { value: updatedBy }
+});
+
+const liveItem = (version: number, language: string): LiveItemResponse => ({
+  id: IDS.page,
+  name: 'Launch Article',
+  version,
+  language: { name: language }
+});
+
+const createReport = () => {
+  const items = processItemData(
+    { items: { [IDS.page]: { en: authoringItem(2, 'en', '20250902T100000Z', 'sitecore\\carla'), nl: authoringItem(1, 'nl', '20250801T090000Z', 'sitecore\\bram') } }, failures: [] },
+    { items: { [IDS.page]: { en: liveItem(1, 'en'), nl: liveItem(1, 'nl') } }, failures: [] },
+    [IDS.page],
+    IDS.page,
+    ['en', 'nl']
+  );
+  return { ...createItemInformationResponse(items, ['en', 'nl'], []), fetchedAt: '2025-09-03T08:00:00.000Z' };
+};
+
+describe('serializeReport', () => {
+  it('writes one CSV row per item and language with its status and timestamps', () => {
+    const [header, en, nl] = serializeReport(createReport(), 'csv').trim().split('\r\n');
+    const column = (line: string, name: string) => line.split(',')[header.split(',').indexOf(name)];
+
+    expect(column(en, 'Language')).toBe('en');
+    expect(column(en, 'Status')).toBe('Outdated');
+    expect(column(en, 'Updated')).toBe('2025-09-02T10:00:00Z');
+    expect(column(en, 'Updated By')).toBe('sitecore\\carla');
+    expect(column(nl, 'Language')).toBe('nl');
+    expect(column(nl, 'Status')).toBe('Up-to-date');
+    expect(column(nl, 'Updated')).toBe('2025-08-01T09:00:00Z');
+    expect(column(nl, 'Checked')).toBe('2025-09-03T08:00:00.000Z');
+  });
+
+  it('lists every language in the Markdown table', () => {
+    const markdown = serializeReport(createReport(), 'markdown');
+
+    expect(markdown.split('\n').filter(line => line.startsWith('| Current'))).toHaveLength(2);
+  });
+});
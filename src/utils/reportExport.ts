@@ -0,0 +1,173 @@
+// utils/reportExport.ts
+import type { ItemInformationResponse, LanguageVersionInfo, ProcessedItemInfo, ReferenceProvenance } from '../types/itemInformation';
+import { formatGuidWithHyphens, getPublishingStatus } from './dataProcessing';
+import { getItemTypeLabel, getProvenanceLocationLabel, getReferenceSourceLabel } from './itemTypeUtils';
+
+export type ReportFormat = 'csv' | 'json' | 'markdown';
+
+export const REPORT_FORMATS: Record<ReportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' }
+};
+
+/**
+ * One flattened report row per item and language
+ */
+interface ReportRow {
+  role: 'Current' | 'Referenced';
+  name: string;
+  id: string;
+  path: string;
+  type: string;
+  language: string;
+  latestVersion: string;
+  publishedVersion: string;
+  previewVersion: string;
+  status: string;
+  workflowState: string;
+  updatedAt: string;
+  updatedBy: string;
+  checkedAt: string;
+  usedIn: string;
+  template: string;
+}
+
+const REPORT_COLUMNS: Array<{ key: keyof ReportRow; header: string }> = [
+  { key: 'role', header: 'Role' },
+  { key: 'name', header: 'Name' },
+  { key: 'id', header: 'ID' },
+  { key: 'path', header: 'Path' },
+  { key: 'type', header: 'Type' },
+  { key: 'language', header: 'Language' },
+  { key: 'latestVersion', header: 'Latest Version' },
+  { key: 'publishedVersion', header: 'Published Version' },
+  { key: 'previewVersion', header: 'Preview Version' },
+  { key: 'status', header: 'Status' },
+  { key: 'workflowState', header: 'Workflow State' },
+  { key: 'updatedAt', header: 'Updated' },
+  { key: 'updatedBy', header: 'Updated By' },
+  { key: 'checkedAt', header: 'Checked' },
+  { key: 'usedIn', header: 'Used In' },
+  { key: 'template', header: 'Template' }
+];
+
+/**
+ * Describe where an item is used, resolving source item IDs to names where possible
+ */
+const describeProvenance = (provenance: ReferenceProvenance[], itemNames: Map<string, string>): string => {
+  return provenance.map(record => {
+    const sourceName = itemNames.get(record.sourceItemId) || formatGuidWithHyphens(record.sourceItemId);
+    const location = getProvenanceLocationLabel(record);
+    return `${getReferenceSourceLabel(record.source)} on ${sourceName}${location !== '—' ? ` (${location})` : ''}`;
+  }).join('; ');
+};
+
+/**
+ * One row per queried language, using the item's top-level fields when it has no per-language status
+ */
+const toReportRows = (
+  item: ProcessedItemInfo,
+  role: ReportRow['role'],
+  languages: string[],
+  itemNames: Map<string, string>,
+  checkedAt: string
+): ReportRow[] => {
+  const primaryVersion: LanguageVersionInfo = { ...item, language: item.language || languages[0] || '' };
+  const versions = item.languageVersions
+    ? languages.map(language => item.languageVersions?.[language]).filter((version): version is LanguageVersionInfo => !!version)
+    : [primaryVersion];
+
+  return versions.map(version => ({
+    role,
+    name: item.name,
+    id: formatGuidWithHyphens(item.id),
+    path: item.path,
+    type: getItemTypeLabel(item.itemType),
+    language: version.language,
+    latestVersion: String(version.latestVersion),
+    publishedVersion: version.publishedVersion ? String(version.publishedVersion) : '',
+    previewVersion: version.previewVersion ? String(version.previewVersion) : '',
+    status: getPublishingStatus({ ...version, loadError: item.loadError }),
+    workflowState: version.workflow?.stateName || '',
+    updatedAt: version.updatedAt || '',
+    updatedBy: version.updatedBy || '',
+    checkedAt,
+    usedIn: describeProvenance(item.provenance || [], itemNames),
+    template: item.template || ''
+  }));
+};
+
+const getReportRows = (data: ItemInformationResponse): ReportRow[] => {
+  const allItems = [data.currentItem, ...data.referencedItems];
+  const itemNames = new Map(allItems.map(item => [item.id, item.name]));
+  return [
+    ...toReportRows(data.currentItem, 'Current', data.languages, itemNames, data.fetchedAt),
+    ...data.referencedItems.flatMap(item => toReportRows(item, 'Referenced', data.languages, itemNames, data.fetchedAt))
+  ];
+};
+
+/**
+ * Quote a CSV value when it contains a delimiter, quote or line break (RFC 4180)
+ */
+const escapeCsvValue = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Escape pipes and line breaks so a value stays inside its Markdown table cell
+ */
+const escapeMarkdownCell = (value: string): string => {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ') || ' ';
+};
+
+const toCsv = (data: ItemInformationResponse): string => {
+  const lines = [
+    REPORT_COLUMNS.map(column => column.header),
+    ...getReportRows(data).map(row => REPORT_COLUMNS.map(column => row[column.key]))
+  ];
+  return lines.map(line => line.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+};
+
+const toMarkdown = (data: ItemInformationResponse, exportedAt: Date): string => {
+  const { summary } = data;
+  const rows = getReportRows(data);
+  const lines = [
+    `# Publishing Status: ${data.currentItem.name}`,
+    '',
+    `- **Path:** ${data.currentItem.path}`,
+    `- **Languages:** ${data.languages.join(', ')}`,
+    `- **Data loaded:** ${data.fetchedAt}`,
+    `- **Exported:** ${exportedAt.toISOString()}`,
+    `- **Summary:** ${summary.totalItems} items, ${summary.publishedItems} published, ${summary.unpublishedItems} not published, ${summary.outdatedItems} outdated`,
+    '',
+    `| ${REPORT_COLUMNS.map(column => column.header).join(' | ')} |`,
+    `| ${REPORT_COLUMNS.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${REPORT_COLUMNS.map(column => escapeMarkdownCell(row[column.key])).join(' | ')} |`)
+  ];
+
+  if (data.warnings.length > 0) {
+    lines.push('', '## Warnings', '', ...data.warnings.map(warning => `- ${warning}`));
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Serialize the publishing report for a page
+ * JSON keeps the full item data; CSV and Markdown flatten it to one row per item and language
+ */
+export const serializeReport = (
+  data: ItemInformationResponse,
+  format: ReportFormat,
+  exportedAt: Date = new Date()
+): string => {
+  switch (format) {
+    case 'csv':
+      return toCsv(data);
+    case 'markdown':
+      return toMarkdown(data, exportedAt);
+    case 'json':
+      return JSON.stringify({ exportedAt: exportedAt.toISOString(), ...data }, null, 2);
+  }
+};
@@ -0,0 +1,100 @@
+// utils/sitecoreQuery.test.ts
+import { describe, expect, it } from 'vitest';
+import { getAncestorPaths, matchesStep, parseSitecoreQuery } from './sitecoreQuery';
+import type { QueryItemNode } from './sitecoreQuery';
+
+const PROMO_TEMPLATE_ID = 'C0D1E2F3-0001-4000-8000-000000000001';
+
+const parseSteps = (datasource: string) => {
+  const result = parseSitecoreQuery(datasource);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.query.steps;
+};
+
+describe('parseSitecoreQuery', () => {
+  it('parses relative queries against the page', () => {
+    const result = parseSitecoreQuery("query:./Data/*[@@templatename='Promo']");
+
+    expect(result).toEqual({
+      success: true,
+      query: {
+        expression: "./Data/*[@@templatename='Promo']",
+        isAbsolute: false,
+        steps: [
+          { axis: 'self', name: '*' },
+          { axis: 'child', name: 'Data', filter: undefined },
+          { axis: 'child', name: '*', filter: { templateName: 'Promo' } }
+        ]
+      }
+    });
+  });
+
+  it('parses absolute paths, parent steps and // as a descendant step', () => {
+    const result = parseSitecoreQuery('query:/sitecore/content//*');
+
+    expect(result.success && result.query.isAbsolute).toBe(true);
+    expect(parseSteps('query:/sitecore/content//*').map(step => step.axis)).toEqual(['child', 'child', 'descendant']);
+    expect(parseSteps('query:../Shared').map(step => step.axis)).toEqual(['parent', 'child']);
+  });
+
+  it('reads explicit axes', () => {
+    const steps = parseSteps("query:./ancestor-or-self::*[@@templatename='Site']/descendant::Authors/child::*");
+
+    expect(steps.map(step => step.axis)).toEqual(['self', 'ancestor-or-self', 'descendant', 'child']);
+    expect(steps[1].filter).toEqual({ templateName: 'Site' });
+    expect(steps[2].name).toBe('Authors');
+  });
+
+  it('reads @@templateid and @@name predicates with either quote style', () => {
+    const [templateStep] = parseSteps(`query:descendant::*[@@templateid="{${PROMO_TEMPLATE_ID}}"]`);
+    const [nameStep] = parseSteps("query:*[@@name = 'Spring Sale']");
+
+    expect(templateStep.filter).toEqual({ templateId: `{${PROMO_TEMPLATE_ID}}` });
+    expect(nameStep.filter).toEqual({ name: 'Spring Sale' });
+  });
+
+  it('keeps slashes inside predicates and unescapes #...# names', () => {
+    const steps = parseSteps("query:./#Data-Folder#/*[@@name='A/B']");
+
+    expect(steps[1].name).toBe('Data-Folder');
+    expect(steps[2].filter).toEqual({ name: 'A/B' });
+  });
+
+  it('rejects syntax it cannot evaluate', () => {
+    expect(parseSitecoreQuery('query:')).toMatchObject({ success: false, error: 'Empty query' });
+    expect(parseSitecoreQuery('query:./A|./B')).toMatchObject({ success: false, error: 'Union expressions (|) are not supported' });
+    expect(parseSitecoreQuery('query:./following::*')).toMatchObject({ success: false, error: 'Unsupported query axis "following"' });
+    expect(parseSitecoreQuery("query:./*[@Title='Home']")).toMatchObject({ success: false, error: 'Unsupported query predicate "[@Title=\'Home\']"' });
+    expect(parseSitecoreQuery('query:./Data//')).toMatchObject({ success: false, error: 'Query cannot end with "//"' });
+  });
+});
+
+describe('matchesStep', () => {
+  const promo: QueryItemNode = {
+    itemId: 'E0F1A2B3000140008000000000000001',
+    name: 'Spring Sale',
+    path: '/sitecore/content/Demo/Data/Promos/Spring Sale',
+    templateName: 'Promo',
+    templateId: PROMO_TEMPLATE_ID.replace(/-/g, '').toLowerCase()
+  };
+
+  it('matches names and template names case-insensitively', () => {
+    expect(matchesStep(promo, { axis: 'child', name: 'spring sale' })).toBe(true);
+    expect(matchesStep(promo, { axis: 'child', name: '*', filter: { templateName: 'promo' } })).toBe(true);
+    expect(matchesStep(promo, { axis: 'child', name: 'Summer Sale' })).toBe(false);
+  });
+
+  it('compares template IDs in any GUID notation', () => {
+    expect(matchesStep(promo, { axis: 'descendant', name: '*', filter: { templateId: `{${PROMO_TEMPLATE_ID}}` } })).toBe(true);
+    expect(matchesStep({ ...promo, templateId: undefined }, { axis: 'descendant', name: '*', filter: { templateId: PROMO_TEMPLATE_ID } })).toBe(false);
+  });
+});
+
+describe('getAncestorPaths', () => {
+  it('lists ancestors nearest first, without the root', () => {
+    expect(getAncestorPaths('/sitecore/content/Demo/Home')).toEqual(['/sitecore/content/Demo', '/sitecore/content', '/sitecore']);
+    expect(getAncestorPaths('/sitecore')).toEqual([]);
+  });
+});
@@ -0,0 +1,221 @@
+// utils/sitecoreQuery.ts
+
+/**
+ * Axes supported when evaluating `query:` datasources
+ */
+export type QueryAxis = 'self' | 'parent' | 'child' | 'ancestor' | 'ancestor-or-self' | 'descendant';
+
+/**
+ * Predicate applied to the items selected by a step, e.g. [@@templatename='Promo']
+ */
+export interface QueryFilter {
+  templateName?: string;
+  templateId?: string;
+  name?: string;
+}
+
+export interface QueryStep {
+  axis: QueryAxis;
+  /** Item name to match, or '*' for any item */
+  name: string;
+  filter?: QueryFilter;
+}
+
+export interface ParsedSitecoreQuery {
+  expression: string;
+  isAbsolute: boolean;
+  steps: QueryStep[];
+}
+
+export type QueryParseResult =
+  | { success: true; query: ParsedSitecoreQuery }
+  | { success: false; expression: string; error: string };
+
+const SUPPORTED_AXES: QueryAxis[] = ['self', 'parent', 'child', 'ancestor', 'ancestor-or-self', 'descendant'];
+
+/**
+ * Split a query into path segments, ignoring slashes inside predicates or quotes
+ */
+const splitSegments = (expression: string): string[] => {
+  const segments: string[] = [];
+  let current = '';
+  let bracketDepth = 0;
+  let quote: string | null = null;
+
+  for (const char of expression) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+      current += char;
+    } else if (char === '[') {
+      bracketDepth++;
+      current += char;
+    } else if (char === ']') {
+      bracketDepth--;
+      current += char;
+    } else if (char === '/' && bracketDepth === 0) {
+      segments.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current);
+
+  return segments;
+};
+
+/**
+ * Parse a single predicate such as @@templatename='Promo'
+ */
+const parseFilter = (predicate: string): QueryFilter | null => {
+  const match = predicate.trim().match(/^@@(templatename|templateid|name)\s*=\s*(['"])([^'"]*)\2$/i);
+  if (!match) {
+    return null;
+  }
+
+  const [, attribute, , value] = match;
+  switch (attribute.toLowerCase()) {
+    case 'templatename':
+      return { templateName: value };
+    case 'templateid':
+      return { templateId: value };
+    default:
+      return { name: value };
+  }
+};
+
+/**
+ * Parse one path segment into a step, returning an error message for unsupported syntax
+ */
+const parseStep = (segment: string, defaultAxis: QueryAxis): QueryStep | string => {
+  const trimmed = segment.trim();
+
+  if (trimmed === '.') {
+    return { axis: 'self', name: '*' };
+  }
+  if (trimmed === '..') {
+    return { axis: 'parent', name: '*' };
+  }
+
+  const match = trimmed.match(/^(?:([a-z-]+)::)?([^[\]]+?)\s*(?:\[(.*)\])?$/i);
+  if (!match) {
+    return `Unsupported query step "${trimmed}"`;
+  }
+
+  const [, axisName, rawName, predicate] = match;
+  const axis = (axisName ? axisName.toLowerCase() : defaultAxis) as QueryAxis;
+
+  if (!SUPPORTED_AXES.includes(axis)) {
+    return `Unsupported query axis "${axisName}"`;
+  }
+
+  // Item names containing special characters are escaped with #...# in Sitecore queries
+  const name = rawName.trim().replace(/^#(.*)#$/, '$1');
+
+  let filter: QueryFilter | undefined;
+  if (predicate !== undefined) {
+    const parsedFilter = parseFilter(predicate);
+    if (!parsedFilter) {
+      return `Unsupported query predicate "[${predicate}]"`;
+    }
+    filter = parsedFilter;
+  }
+
+  return { axis, name, filter };
+};
+
+/**
+ * Parse a `query:` datasource into steps that can be evaluated against the authoring API
+ * Supports ./, ../, absolute paths, child names and *, ancestor(-or-self)::, descendant:: and //,
+ * with a single @@templatename, @@templateid or @@name predicate per step
+ */
+export const parseSitecoreQuery = (datasource: string): QueryParseResult => {
+  const expression = datasource.replace(/^query:/i, '').trim();
+
+  if (!expression) {
+    return { success: false, expression, error: 'Empty query' };
+  }
+
+  if (expression.includes('|')) {
+    return { success: false, expression, error: 'Union expressions (|) are not supported' };
+  }
+
+  const isAbsolute = expression.startsWith('/');
+  const segments = splitSegments(isAbsolute ? expression.substring(1) : expression);
+  const steps: QueryStep[] = [];
+  let nextAxis: QueryAxis = 'child';
+
+  for (const segment of segments) {
+    // An empty segment comes from '//' and makes the next step a descendant step
+    if (segment.trim() === '') {
+      nextAxis = 'descendant';
+      continue;
+    }
+
+    const step = parseStep(segment, nextAxis);
+    if (typeof step === 'string') {
+      return { success: false, expression, error: step };
+    }
+
+    steps.push(step);
+    nextAxis = 'child';
+  }
+
+  if (nextAxis === 'descendant') {
+    return { success: false, expression, error: 'Query cannot end with "//"' };
+  }
+
+  return {
+    success: true,
+    query: { expression, isAbsolute, steps }
+  };
+};
+
+/**
+ * Item as seen while evaluating a query
+ */
+export interface QueryItemNode {
+  itemId: string;
+  name: string;
+  path: string;
+  templateName?: string;
+  templateId?: string;
+}
+
+/**
+ * Check whether an item matches a step's name and predicate
+ */
+export const matchesStep = (item: QueryItemNode, step: QueryStep): boolean => {
+  const normalizeId = (id: string) => id.replace(/[{}-]/g, '').toUpperCase();
+
+  if (step.name !== '*' && item.name.toLowerCase() !== step.name.toLowerCase()) {
+    return false;
+  }
+  if (step.filter?.templateName && item.templateName?.toLowerCase() !== step.filter.templateName.toLowerCase()) {
+    return false;
+  }
+  if (step.filter?.templateId && (!item.templateId || normalizeId(item.templateId) !== normalizeId(step.filter.templateId))) {
+    return false;
+  }
+  if (step.filter?.name && item.name.toLowerCase() !== step.filter.name.toLowerCase()) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Get the paths of all ancestors of a Sitecore path, nearest first
+ */
+export const getAncestorPaths = (path: string): string[] => {
+  const segments = path.split('/').filter(segment => segment.length > 0);
+  const ancestors: string[] = [];
+
+  for (let length = segments.length - 1; length > 0; length--) {
+    ancestors.push(`/${segments.slice(0, length).join('/')}`);
+  }
+
+  return ancestors;
+};
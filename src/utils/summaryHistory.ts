@@ -0,0 +1,59 @@
+// utils/summaryHistory.ts
+import type { ItemInformationSummary } from '../types/itemInformation';
+
+/**
+ * Publishing counts recorded on one visit
+ */
+export interface SummarySnapshot {
+  /** ISO timestamp of when the counts were taken */
+  timestamp: string;
+  upToDate: number;
+  outdated: number;
+  unpublished: number;
+}
+
+/** Snapshots kept per target; older ones are dropped */
+export const MAX_SUMMARY_HISTORY = 20;
+
+const STORAGE_PREFIX = 'publishing-status:summary-history:';
+
+/**
+ * Read the recorded snapshots for a target, oldest first
+ * Unavailable or malformed storage reads as an empty history
+ */
+export const loadSummaryHistory = (key: string): SummarySnapshot[] => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_PREFIX + key);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed as SummarySnapshot[] : [];
+  } catch (error) {
+    console.warn('⚠️ Could not read summary history:', error);
+    return [];
+  }
+};
+
+/**
+ * Append a snapshot of a summary to a target's history and return the updated history
+ */
+export const recordSummary = (
+  key: string,
+  summary: ItemInformationSummary,
+  timestamp: string = new Date().toISOString()
+): SummarySnapshot[] => {
+  const snapshot: SummarySnapshot = {
+    timestamp,
+    upToDate: summary.publishedItems - summary.outdatedItems,
+    outdated: summary.outdatedItems,
+    unpublished: summary.unpublishedItems
+  };
+  const history = [...loadSummaryHistory(key), snapshot].slice(-MAX_SUMMARY_HISTORY);
+
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(history));
+  } catch (error) {
+    // The history is a convenience; the current counts are still shown
+    console.warn('⚠️ Could not save summary history:', error);
+  }
+
+  return history;
+};
@@ -1,10 +1,17 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import mkcert from 'vite-plugin-mkcert'
+import { mockEdgePlugin } from './src/dev/mockEdgePlugin'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), mkcert()],
+  plugins: [
+    react(),
+    mkcert(),
+    // Local Experience Edge stand-in for the mock host at /dev-host.html (dev server only)
+    mockEdgePlugin(fileURLToPath(new URL('./src/dev/fixtures', import.meta.url))),
+  ],
   server: {
     port: 5173,
     host: true, // Allow external connections
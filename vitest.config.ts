@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so tests don't need the dev server's HTTPS certificates
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    // The app logs every step of a load; only show it for failing tests
+    silent: 'passed-only',
+  },
+})